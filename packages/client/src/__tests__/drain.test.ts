@@ -0,0 +1,148 @@
+import http from "node:http";
+
+// Set environment variables BEFORE importing modules that use config
+const serverPort = 9103;
+const lmStudioPort = 9104;
+process.env.REMOTE_SERVER_URL = `ws://localhost:${serverPort}`;
+process.env.API_KEY = "test-api-key";
+process.env.CLIENT_ID = "draining-client";
+process.env.LM_STUDIO_HOST = "localhost";
+process.env.LM_STUDIO_PORT = String(lmStudioPort);
+
+import {
+	Capability,
+	createMessage,
+	MessageType,
+	PROTOCOL_VERSION,
+} from "@lmstudio-proxy/common";
+import WebSocket from "ws";
+import { ConnectionEvent, ProxyConnection } from "../proxy-connection";
+
+describe("Draining", () => {
+	let lmStudio: http.Server;
+	let server: WebSocket.Server;
+	// Chat requests LM Studio holds until they are released
+	const held: (() => void)[] = [];
+	// Message types the server received, other than model reports, and how
+	// the connection closed
+	let received: string[];
+	let closeCode: Promise<number>;
+
+	beforeAll((done) => {
+		lmStudio = http.createServer((req, res) => {
+			if (req.url === "/v1/chat/completions") {
+				held.push(() => {
+					res.writeHead(200, { "Content-Type": "application/json" });
+					res.end(JSON.stringify({ object: "chat.completion", choices: [] }));
+				});
+				return;
+			}
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end(JSON.stringify({ object: "list", data: [] }));
+		});
+		lmStudio.listen(lmStudioPort, done);
+	});
+
+	beforeEach((done) => {
+		received = [];
+		server = new WebSocket.Server({ port: serverPort }, done);
+		closeCode = new Promise((resolve) => {
+			server.on("connection", (socket) => {
+				socket.on("message", (data: WebSocket.RawData) => {
+					const message = JSON.parse(data.toString());
+					if (message.type !== MessageType.MODELS_UPDATE) {
+						received.push(message.type);
+					}
+
+					if (message.type === MessageType.AUTH) {
+						socket.send(
+							JSON.stringify(
+								createMessage(MessageType.AUTH_RESULT, {
+									success: true,
+									protocolVersion: PROTOCOL_VERSION,
+									capabilities: message.capabilities,
+								}),
+							),
+						);
+						socket.send(
+							JSON.stringify(
+								createMessage(MessageType.CHAT_REQUEST, {
+									requestId: "req-1",
+									data: { model: "test-model", messages: [] },
+								}),
+							),
+						);
+					}
+				});
+				socket.on("close", (code) => resolve(code));
+				socket.send(
+					JSON.stringify(
+						createMessage(MessageType.AUTH_CHALLENGE, { nonce: "nonce-1" }),
+					),
+				);
+			});
+		});
+	});
+
+	afterEach((done) => {
+		server.close(() => done());
+	});
+
+	afterAll((done) => {
+		lmStudio.closeAllConnections();
+		lmStudio.close(done);
+	});
+
+	// Connect and wait until LM Studio holds the dispatched request
+	async function connectWithActiveRequest(): Promise<{
+		connection: ProxyConnection;
+		disconnected: Promise<unknown>;
+	}> {
+		const connection = new ProxyConnection();
+		const authenticated = new Promise((resolve) =>
+			connection.once(ConnectionEvent.AUTHENTICATED, resolve),
+		);
+		connection.connect();
+		await authenticated;
+		expect(connection.hasCapability(Capability.DRAINING)).toBe(true);
+
+		const deadline = Date.now() + 2000;
+		while (held.length === 0 && Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+		}
+		expect(held).toHaveLength(1);
+		return {
+			connection,
+			disconnected: new Promise((resolve) =>
+				connection.once(ConnectionEvent.DISCONNECTED, resolve),
+			),
+		};
+	}
+
+	it("should announce the drain and finish active requests before closing", async () => {
+		const { connection, disconnected } = await connectWithActiveRequest();
+
+		const drained = connection.drain(5000);
+		setTimeout(() => held.shift()?.(), 200);
+		await drained;
+
+		await disconnected;
+		expect(await closeCode).toBe(1000);
+		expect(received).toEqual([
+			MessageType.AUTH,
+			MessageType.DRAINING,
+			MessageType.CHAT_RESPONSE,
+		]);
+	});
+
+	it("should abort requests still active at the deadline", async () => {
+		const { connection, disconnected } = await connectWithActiveRequest();
+
+		await connection.drain(200);
+		held.shift()?.();
+
+		await disconnected;
+		expect(await closeCode).toBe(1000);
+		expect(received).toEqual([MessageType.AUTH, MessageType.DRAINING]);
+	});
+});
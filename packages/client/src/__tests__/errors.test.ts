@@ -0,0 +1,54 @@
+import { ErrorCode } from "@lmstudio-proxy/common";
+import { AxiosError, type AxiosResponse } from "axios";
+import { toErrorPayload } from "../utils/errors";
+
+function responseError(status: number, data: unknown): AxiosError {
+	return new AxiosError(
+		`Request failed with status code ${status}`,
+		AxiosError.ERR_BAD_RESPONSE,
+		undefined,
+		undefined,
+		{ status, data } as AxiosResponse,
+	);
+}
+
+describe("toErrorPayload", () => {
+	it("should report unreachable LM Studio as unavailable", () => {
+		const error = new AxiosError("connect ECONNREFUSED 127.0.0.1:1234");
+		error.code = "ECONNREFUSED";
+
+		expect(toErrorPayload(error)).toEqual({
+			message: "LM Studio is unavailable: connect ECONNREFUSED 127.0.0.1:1234",
+			code: ErrorCode.LM_STUDIO_UNAVAILABLE,
+		});
+	});
+
+	it("should keep LM Studio's message and status for rejected requests", () => {
+		const error = responseError(400, {
+			error: { message: "'messages' field is required" },
+		});
+
+		expect(toErrorPayload(error)).toEqual({
+			message: "'messages' field is required",
+			code: ErrorCode.INVALID_REQUEST,
+			status: 400,
+		});
+	});
+
+	it("should report LM Studio server failures as upstream errors", () => {
+		const error = responseError(500, "Internal Server Error");
+
+		expect(toErrorPayload(error)).toEqual({
+			message: "LM Studio responded with status 500",
+			code: ErrorCode.LM_STUDIO_ERROR,
+			status: 500,
+		});
+	});
+
+	it("should report other failures as internal errors", () => {
+		expect(toErrorPayload(new Error("boom"))).toEqual({
+			message: "boom",
+			code: ErrorCode.INTERNAL_ERROR,
+		});
+	});
+});
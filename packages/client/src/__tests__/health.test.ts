@@ -0,0 +1,75 @@
+import http from "node:http";
+
+// Set environment variables BEFORE importing modules that use config
+const lmStudioPort = 9102;
+process.env.LM_STUDIO_HOST = "localhost";
+process.env.LM_STUDIO_PORT = String(lmStudioPort);
+
+import { LMStudioClient } from "../lm-studio-client";
+import { ProxyConnection } from "../proxy-connection";
+
+describe("Health", () => {
+	let lmStudio: http.Server;
+
+	beforeAll((done) => {
+		lmStudio = http.createServer((req, res) => {
+			res.writeHead(200, { "Content-Type": "application/json" });
+			if (req.url === "/api/v0/models") {
+				res.end(
+					JSON.stringify({
+						data: [
+							{ id: "qwen2.5-7b", state: "loaded" },
+							{ id: "llama-3-8b", state: "not-loaded" },
+						],
+					}),
+				);
+				return;
+			}
+			res.end(JSON.stringify({ object: "list", data: [] }));
+		});
+		lmStudio.listen(lmStudioPort, done);
+	});
+
+	afterAll((done) => {
+		if (lmStudio.listening) {
+			lmStudio.close(done);
+		} else {
+			done();
+		}
+	});
+
+	it("should report whether LM Studio answers and which models it has loaded", async () => {
+		const health = await new ProxyConnection().checkHealth();
+
+		expect(health.lmStudio).toEqual({
+			reachable: true,
+			loadedModels: ["qwen2.5-7b"],
+			lastSuccessfulRequestAt: null,
+		});
+		// Not accepted by the server yet
+		expect(health.healthy).toBe(false);
+	});
+
+	it("should remember when LM Studio last answered a request", async () => {
+		const client = new LMStudioClient();
+		expect(client.getLastSuccessAt()).toBeNull();
+
+		await client.makeRequest("/chat/completions", {
+			model: "qwen2.5-7b",
+			messages: [],
+		});
+
+		expect(client.getLastSuccessAt()).toBeInstanceOf(Date);
+	});
+
+	it("should report LM Studio as unreachable once it stops answering", async () => {
+		await new Promise((resolve) => lmStudio.close(resolve));
+
+		const health = await new ProxyConnection().checkHealth();
+
+		expect(health.lmStudio).toMatchObject({
+			reachable: false,
+			loadedModels: [],
+		});
+	});
+});
@@ -0,0 +1,56 @@
+import http from "node:http";
+
+// Set environment variables BEFORE importing modules that use config
+const lmStudioPort = 9101;
+process.env.LM_STUDIO_HOST = "localhost";
+process.env.LM_STUDIO_PORT = String(lmStudioPort);
+
+import { MessageType } from "@lmstudio-proxy/common";
+import { context, trace } from "@opentelemetry/api";
+import { LMStudioClient } from "../lm-studio-client";
+import { continueTrace, endSpan } from "../utils/tracing";
+
+describe("Tracing", () => {
+	let lmStudio: http.Server;
+	// traceparent headers LM Studio received
+	const received: (string | undefined)[] = [];
+
+	beforeAll((done) => {
+		lmStudio = http.createServer((req, res) => {
+			received.push(req.headers.traceparent as string | undefined);
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end(JSON.stringify({ choices: [] }));
+		});
+		lmStudio.listen(lmStudioPort, done);
+	});
+
+	afterAll((done) => {
+		lmStudio.close(done);
+	});
+
+	it("should continue the server's trace down to LM Studio", async () => {
+		const traceId = "0af7651916cd43dd8448eb211c80319c";
+		const dispatchSpanId = "b7ad6b7169203331";
+		const span = continueTrace({
+			type: MessageType.CHAT_REQUEST,
+			requestId: "req-1",
+			traceparent: `00-${traceId}-${dispatchSpanId}-01`,
+		});
+
+		await context.with(trace.setSpan(context.active(), span), () =>
+			new LMStudioClient().makeRequest("/chat/completions", {
+				model: "test-model",
+				messages: [],
+			}),
+		);
+		endSpan(span);
+
+		expect(span.spanContext().traceId).toBe(traceId);
+		expect(received).toHaveLength(1);
+		const [, headerTraceId, parentId] = String(received[0]).split("-");
+		expect(headerTraceId).toBe(traceId);
+		// LM Studio sees the span of the HTTP request, a child of the handling span
+		expect(parentId).not.toBe(dispatchSpanId);
+		expect(parentId).not.toBe(span.spanContext().spanId);
+	});
+});
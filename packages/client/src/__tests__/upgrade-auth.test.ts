@@ -0,0 +1,120 @@
+import type http from "node:http";
+
+// Set environment variables BEFORE importing modules that use config
+const serverPort = 9105;
+const testApiKey = "test-api-key";
+process.env.REMOTE_SERVER_URL = `ws://localhost:${serverPort}`;
+process.env.API_KEY = testApiKey;
+process.env.CLIENT_ID = "upgrade-auth-client";
+process.env.LM_STUDIO_HOST = "localhost";
+process.env.LM_STUDIO_PORT = "9106";
+process.env.RECONNECT_INTERVAL = "50";
+
+import {
+	createMessage,
+	HTTP_STATUS,
+	MessageType,
+	PROTOCOL_VERSION,
+} from "@lmstudio-proxy/common";
+import WebSocket from "ws";
+import { ConnectionEvent, ProxyConnection } from "../proxy-connection";
+
+describe("Upgrade authentication", () => {
+	let server: WebSocket.Server;
+	// Authorization headers of the upgrades the server saw
+	let upgrades: (string | undefined)[];
+	// Key the server accepts
+	let acceptedKey: string;
+
+	beforeEach(() => {
+		upgrades = [];
+		acceptedKey = testApiKey;
+	});
+
+	beforeAll((done) => {
+		// Refuses upgrades without credentials, as REQUIRE_UPGRADE_AUTH does
+		server = new WebSocket.Server(
+			{
+				port: serverPort,
+				verifyClient: (
+					{ req }: { req: http.IncomingMessage },
+					callback: (
+						result: boolean,
+						code?: number,
+						message?: string,
+						headers?: http.OutgoingHttpHeaders,
+					) => void,
+				) => {
+					upgrades.push(req.headers.authorization);
+					if (req.headers.authorization === `Bearer ${acceptedKey}`) {
+						callback(true);
+					} else {
+						callback(false, HTTP_STATUS.UNAUTHORIZED, "Unauthorized", {
+							"WWW-Authenticate": "Bearer",
+						});
+					}
+				},
+			},
+			done,
+		);
+
+		server.on("connection", (socket) => {
+			socket.on("message", (data: WebSocket.RawData) => {
+				const message = JSON.parse(data.toString());
+				if (message.type === MessageType.AUTH) {
+					socket.send(
+						JSON.stringify(
+							createMessage(MessageType.AUTH_RESULT, {
+								success: true,
+								protocolVersion: PROTOCOL_VERSION,
+								capabilities: [],
+							}),
+						),
+					);
+				}
+			});
+			socket.send(
+				JSON.stringify(
+					createMessage(MessageType.AUTH_CHALLENGE, { nonce: "nonce-1" }),
+				),
+			);
+		});
+	});
+
+	afterAll((done) => {
+		server.close(() => done());
+	});
+
+	it("should send its key when the server requires authentication during the upgrade", async () => {
+		const connection = new ProxyConnection();
+		const authenticated = new Promise((resolve) =>
+			connection.once(ConnectionEvent.AUTHENTICATED, resolve),
+		);
+
+		connection.connect();
+		await authenticated;
+
+		expect(upgrades).toEqual([undefined, `Bearer ${testApiKey}`]);
+
+		const disconnected = new Promise((resolve) =>
+			connection.once(ConnectionEvent.DISCONNECTED, resolve),
+		);
+		connection.disconnect();
+		await disconnected;
+	});
+
+	it("should give up when the server refuses its key during the upgrade", async () => {
+		acceptedKey = "another-key";
+		const connection = new ProxyConnection();
+		const failed = new Promise((resolve) =>
+			connection.once(ConnectionEvent.AUTH_FAILED, resolve),
+		);
+
+		connection.connect();
+
+		expect(await failed).toBe("Server refused the API key during the upgrade");
+		// Several reconnect intervals pass without another attempt
+		await new Promise((resolve) => setTimeout(resolve, 250));
+		expect(upgrades).toEqual([undefined, `Bearer ${testApiKey}`]);
+	});
+});
@@ -2,6 +2,8 @@ import path from "node:path";
 import {
 	DEFAULT_LM_STUDIO_HOST,
 	DEFAULT_LM_STUDIO_PORT,
+	type LogFormat,
+	parseLogFormat,
 } from "@lmstudio-proxy/common";
 import dotenv from "dotenv";
 
@@ -21,7 +23,24 @@ export interface ClientConfig {
 	// Local proxy configuration
 	healthCheckPort: number;
 	logLevel: string;
+	logFormat: LogFormat;
+	logRedactContent: boolean;
+	logRedactSecrets: boolean;
+	// Further field names whose values are never logged
+	logRedactFields: string[];
+	// Share of debug-level payload dumps that are logged, from 0 to 1
+	logPayloadSampleRate: number;
 	reconnectInterval: number;
+	modelRefreshInterval: number;
+	capacity: number;
+	maxConcurrency?: number;
+	// How long shutdown waits for active requests before aborting them
+	drainTimeoutMs: number;
+
+	// Tracing
+	// OTLP/HTTP collector spans are exported to, none when empty
+	otlpEndpoint: string;
+	otelServiceName: string;
 }
 
 // Configuration with defaults and environment variable overrides
@@ -42,7 +61,28 @@ export const config: ClientConfig = {
 	// Local proxy configuration
 	healthCheckPort: parseInt(process.env.HEALTH_CHECK_PORT || "3001", 10),
 	logLevel: process.env.LOG_LEVEL || "info",
+	logFormat: parseLogFormat(process.env.LOG_FORMAT),
+	logRedactContent: process.env.LOG_REDACT_CONTENT !== "false",
+	logRedactSecrets: process.env.LOG_REDACT_SECRETS !== "false",
+	logRedactFields: (process.env.LOG_REDACT_FIELDS || "")
+		.split(",")
+		.map((field) => field.trim())
+		.filter(Boolean),
+	logPayloadSampleRate: parseFloat(process.env.LOG_PAYLOAD_SAMPLE_RATE || "1"),
 	reconnectInterval: parseInt(process.env.RECONNECT_INTERVAL || "5000", 10),
+	modelRefreshInterval: parseInt(
+		process.env.MODEL_REFRESH_INTERVAL || "30000",
+		10,
+	),
+	capacity: parseFloat(process.env.CLIENT_CAPACITY || "1"),
+	maxConcurrency: process.env.MAX_CONCURRENCY
+		? parseInt(process.env.MAX_CONCURRENCY, 10)
+		: undefined,
+	drainTimeoutMs: parseInt(process.env.DRAIN_TIMEOUT_MS || "30000", 10),
+
+	// Tracing
+	otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "",
+	otelServiceName: process.env.OTEL_SERVICE_NAME || "lmstudio-proxy-client",
 };
 
 // Validate critical configuration
@@ -61,6 +101,25 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
 		errors.push("CLIENT_ID must be provided in .env file");
 	}
 
+	if (!(config.capacity > 0)) {
+		errors.push("CLIENT_CAPACITY must be a positive number");
+	}
+
+	if (
+		config.maxConcurrency !== undefined &&
+		!(Number.isInteger(config.maxConcurrency) && config.maxConcurrency > 0)
+	) {
+		errors.push("MAX_CONCURRENCY must be a positive integer");
+	}
+
+	if (!(config.drainTimeoutMs >= 0)) {
+		errors.push("DRAIN_TIMEOUT_MS must be 0 or more");
+	}
+
+	if (!(config.logPayloadSampleRate >= 0 && config.logPayloadSampleRate <= 1)) {
+		errors.push("LOG_PAYLOAD_SAMPLE_RATE must be between 0 and 1");
+	}
+
 	return {
 		valid: errors.length === 0,
 		errors,
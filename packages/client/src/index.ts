@@ -2,6 +2,7 @@ import express from "express";
 import { config, validateConfig } from "./config";
 import { ConnectionEvent, ProxyConnection } from "./proxy-connection";
 import { createLogger } from "./utils/logger";
+import { shutdownTracing } from "./utils/tracing";
 
 const logger = createLogger("main");
 
@@ -50,15 +51,15 @@ async function main() {
 	// Set up health check HTTP server
 	const app = express();
 
-	app.get("/health", (_req, res) => {
-		const status = {
-			status: "ok",
-			connected: connection.isConnected(),
-			authenticated: connection.isAuthenticated(),
-			timestamp: new Date().toISOString(),
-		};
+	// Fails while LM Studio does not answer or the server has not accepted us
+	app.get("/health", async (_req, res) => {
+		const { healthy, ...health } = await connection.checkHealth();
 
-		res.json(status);
+		res.status(healthy ? 200 : 503).json({
+			status: healthy ? "ok" : "unhealthy",
+			...health,
+			timestamp: new Date().toISOString(),
+		});
 	});
 
 	app.get("/", (_req, res) => {
@@ -111,23 +112,24 @@ async function main() {
 /**
  * Handle graceful shutdown
  */
-function handleShutdown(connection: ProxyConnection, server: any) {
+async function handleShutdown(connection: ProxyConnection, server: any) {
 	logger.info("Shutting down...");
 
-	// Disconnect from remote server
-	connection.disconnect();
+	// Force exit when draining or closing overruns its deadline
+	setTimeout(() => {
+		logger.error("Forced shutdown after timeout");
+		process.exit(1);
+	}, config.drainTimeoutMs + 5000);
+
+	// Let active requests finish, then disconnect from remote server
+	await connection.drain(config.drainTimeoutMs);
 
 	// Close HTTP server
 	server.close(() => {
 		logger.info("HTTP server closed");
-		process.exit(0);
+		// Export the spans still buffered before exiting
+		shutdownTracing().finally(() => process.exit(0));
 	});
-
-	// Force exit after timeout
-	setTimeout(() => {
-		logger.error("Forced shutdown after timeout");
-		process.exit(1);
-	}, 5000);
 }
 
 // Start the application
@@ -1,17 +1,36 @@
 import { PassThrough } from "node:stream";
-import { API_ENDPOINTS, LM_STUDIO_API_PATH } from "@lmstudio-proxy/common";
+import {
+	API_ENDPOINTS,
+	LM_STUDIO_API_PATH,
+	type ReportedModel,
+} from "@lmstudio-proxy/common";
+import { type Span, SpanKind } from "@opentelemetry/api";
+import {
+	ATTR_HTTP_REQUEST_METHOD,
+	ATTR_HTTP_RESPONSE_STATUS_CODE,
+	ATTR_URL_FULL,
+} from "@opentelemetry/semantic-conventions";
 import axios, { type AxiosInstance } from "axios";
 import { config } from "./config";
 import { createLogger } from "./utils/logger";
+import { endSpan, traceHeaders, tracer } from "./utils/tracing";
 
 const logger = createLogger("lm-studio-client");
 
+// LM Studio's native REST API, which also reports whether models are loaded
+const LM_STUDIO_NATIVE_API_PATH = "/api/v0";
+
+// How long an availability check waits for LM Studio
+const AVAILABILITY_TIMEOUT_MS = 5000;
+
 /**
  * Client for interacting with local LM Studio API
  */
 export class LMStudioClient {
 	private axiosInstance: AxiosInstance;
 	private baseUrl: string;
+	// When LM Studio last answered a forwarded request successfully
+	private lastSuccessAt: Date | null = null;
 
 	constructor() {
 		this.baseUrl = `http://${config.lmStudioHost}:${config.lmStudioPort}${LM_STUDIO_API_PATH}`;
@@ -34,115 +53,162 @@ export class LMStudioClient {
 		logger.info(`LM Studio client initialized with base URL: ${this.baseUrl}`);
 	}
 
+	/**
+	 * Start the span of a request to LM Studio, as a child of the active span
+	 */
+	private startSpan(method: string, endpoint: string): Span {
+		return tracer.startSpan(`${method} ${endpoint}`, {
+			kind: SpanKind.CLIENT,
+			attributes: {
+				[ATTR_HTTP_REQUEST_METHOD]: method,
+				[ATTR_URL_FULL]: `${this.baseUrl}${endpoint}`,
+			},
+		});
+	}
+
 	/**
 	 * Make a non-streaming request to LM Studio
+	 * @param signal Aborts the HTTP request to LM Studio when triggered
 	 */
-	async makeRequest(endpoint: string, payload: any): Promise<any> {
-		try {
-			logger.info("Received incoming request:", {
-				endpoint,
-				method: endpoint === API_ENDPOINTS.MODELS ? "GET" : "POST",
-				payload,
-				timestamp: new Date().toISOString(),
-			});
+	async makeRequest(
+		endpoint: string,
+		payload: any,
+		signal?: AbortSignal,
+	): Promise<any> {
+		const method = endpoint === API_ENDPOINTS.MODELS ? "GET" : "POST";
+		const span = this.startSpan(method, endpoint);
 
-			logger.debug(`Making request to ${endpoint}`, {
+		try {
+			logger.info(`Making ${method} request to LM Studio (${endpoint})`, {
 				endpoint,
-				baseUrl: this.baseUrl,
-				fullUrl: `${this.baseUrl}${endpoint}`,
-				payload,
+				method,
 			});
+			logger.payload(`Request payload for ${endpoint}`, { endpoint, payload });
 
 			// Special handling for models endpoint - should be a GET request
 			if (endpoint === API_ENDPOINTS.MODELS) {
 				logger.debug("Making GET request to models endpoint");
 				const response = await this.axiosInstance.get(endpoint, {
+					headers: traceHeaders(span),
 					timeout: 300000, // 5 minutes timeout for models request
+					signal,
 				});
-				logger.info("Received response from LM Studio models endpoint:", {
+				span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+				logger.info("Received response from LM Studio models endpoint", {
+					endpoint,
 					status: response.status,
-					statusText: response.statusText,
-					headers: response.headers,
+				});
+				logger.payload(`Response body for ${endpoint}`, {
+					endpoint,
 					data: response.data,
-					timestamp: new Date().toISOString(),
 				});
+				this.lastSuccessAt = new Date();
 				return response.data;
 			}
 
 			// For all other endpoints, use POST
 			logger.debug("Making POST request to endpoint");
 			const response = await this.axiosInstance.post(endpoint, payload, {
+				headers: traceHeaders(span),
 				timeout: 300000, // 5 minutes timeout for other requests
+				signal,
 			});
-			logger.info("Received response from LM Studio endpoint:", {
+			span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+			logger.info("Received response from LM Studio endpoint", {
+				endpoint,
 				status: response.status,
-				statusText: response.statusText,
-				headers: response.headers,
+			});
+			logger.payload(`Response body for ${endpoint}`, {
+				endpoint,
 				data: response.data,
-				timestamp: new Date().toISOString(),
 			});
+			this.lastSuccessAt = new Date();
 			return response.data;
 		} catch (error) {
+			if (axios.isCancel(error)) {
+				logger.info(`Request to LM Studio (${endpoint}) was cancelled`);
+				span.addEvent("cancelled");
+				throw error;
+			}
+
 			logger.error(`Error making request to LM Studio (${endpoint})`, {
 				error,
 				endpoint,
-				baseUrl: this.baseUrl,
 				fullUrl: `${this.baseUrl}${endpoint}`,
-				payload,
-				timestamp: new Date().toISOString(),
 			});
+			endSpan(span, error);
 			throw error;
+		} finally {
+			endSpan(span);
 		}
 	}
 
 	/**
 	 * Stream chat completions from LM Studio
 	 */
-	async streamChatCompletion(payload: any): Promise<PassThrough> {
+	async streamChatCompletion(
+		payload: any,
+		signal?: AbortSignal,
+	): Promise<PassThrough> {
 		const requestId = Math.random().toString(36).substring(7);
-		logger.info("Received incoming streaming chat completion request:", {
+		logger.info("Received incoming streaming chat completion request", {
 			requestId,
 			endpoint: API_ENDPOINTS.CHAT_COMPLETIONS,
+		});
+		logger.payload(`Request payload for stream ${requestId}`, {
+			requestId,
 			payload,
-			timestamp: new Date().toISOString(),
 		});
 		return this.streamRequest(
 			API_ENDPOINTS.CHAT_COMPLETIONS,
 			payload,
 			requestId,
+			signal,
 		);
 	}
 
 	/**
 	 * Stream completions from LM Studio
 	 */
-	async streamCompletion(payload: any): Promise<PassThrough> {
+	async streamCompletion(
+		payload: any,
+		signal?: AbortSignal,
+	): Promise<PassThrough> {
 		const requestId = Math.random().toString(36).substring(7);
-		logger.info("Received incoming streaming completion request:", {
+		logger.info("Received incoming streaming completion request", {
 			requestId,
 			endpoint: API_ENDPOINTS.COMPLETIONS,
+		});
+		logger.payload(`Request payload for stream ${requestId}`, {
+			requestId,
 			payload,
-			timestamp: new Date().toISOString(),
 		});
-		return this.streamRequest(API_ENDPOINTS.COMPLETIONS, payload, requestId);
+		return this.streamRequest(
+			API_ENDPOINTS.COMPLETIONS,
+			payload,
+			requestId,
+			signal,
+		);
 	}
 
 	/**
 	 * Make a streaming request to LM Studio
+	 * Aborting the signal closes the connection to LM Studio, which stops generation
 	 */
 	private async streamRequest(
 		endpoint: string,
 		payload: any,
 		requestId: string,
+		signal?: AbortSignal,
 	): Promise<PassThrough> {
 		const outputStream = new PassThrough();
+		const span = this.startSpan("POST", endpoint);
 
 		try {
-			logger.info(`Starting streaming request ${requestId}:`, {
+			logger.info(`Starting streaming request ${requestId}`, {
+				requestId,
 				endpoint,
-				baseUrl: this.baseUrl,
 				fullUrl: `${this.baseUrl}${endpoint}`,
-				timestamp: new Date().toISOString(),
 			});
 
 			// Ensure stream is set to true
@@ -155,77 +221,51 @@ export class LMStudioClient {
 				headers: {
 					"Content-Type": "application/json",
 					Accept: "text/event-stream",
+					...traceHeaders(span),
 				},
 				responseType: "stream",
 				timeout: 600000, // 10 minutes timeout for streaming requests
+				signal,
 			});
 
-			logger.info(`Stream ${requestId} connected:`, {
+			// Tear down the upstream response when the request is cancelled mid-stream
+			signal?.addEventListener(
+				"abort",
+				() => {
+					logger.info(`Stream ${requestId} cancelled`);
+					span.addEvent("cancelled");
+					endSpan(span);
+					response.data.destroy();
+					outputStream.end();
+				},
+				{ once: true },
+			);
+
+			logger.info(`Stream ${requestId} connected`, {
+				requestId,
 				status: response.status,
-				statusText: response.statusText,
-				headers: response.headers,
-				timestamp: new Date().toISOString(),
 			});
+			span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+			span.addEvent("connected");
 
 			// Pipe the response stream to our output stream
 			response.data.pipe(outputStream);
 
-			// Handle data chunks
+			// Chunks hold the completion, so they are dumped like any payload
 			response.data.on("data", (chunk: Buffer) => {
-				const chunkStr = chunk.toString();
-				logger.debug(`Stream ${requestId} received chunk (raw):`, {
-					chunkLength: chunkStr.length,
-					chunk: chunkStr,
-					timestamp: new Date().toISOString(),
+				logger.payload(`Stream ${requestId} received chunk`, {
+					requestId,
+					chunkLength: chunk.length,
+					content: chunk.toString(),
 				});
-
-				// Attempt to parse SSE format
-				try {
-					// Split by double newlines to get SSE events
-					const events = chunkStr.split("\n\n").filter(Boolean);
-
-					for (const event of events) {
-						// Only process data events
-						if (event.startsWith("data: ")) {
-							// Extract the JSON payload
-							const dataContent = event.substring(6); // Remove 'data: ' prefix
-
-							if (dataContent === "[DONE]") {
-								logger.debug(`Stream ${requestId} received [DONE] event`);
-							} else {
-								try {
-									// Parse the JSON data
-									const parsedData = JSON.parse(dataContent);
-									logger.debug(`Stream ${requestId} parsed data:`, {
-										parsedData,
-										timestamp: new Date().toISOString(),
-									});
-								} catch (parseError) {
-									logger.debug(`Stream ${requestId} received non-JSON data:`, {
-										content: dataContent,
-										error:
-											parseError instanceof Error
-												? parseError.message
-												: String(parseError),
-										timestamp: new Date().toISOString(),
-									});
-								}
-							}
-						}
-					}
-				} catch (parseError) {
-					logger.debug(`Stream ${requestId} failed to parse event format:`, {
-						error:
-							parseError instanceof Error
-								? parseError.message
-								: String(parseError),
-						timestamp: new Date().toISOString(),
-					});
-				}
 			});
 
 			// Handle errors
 			response.data.on("error", (err: Error) => {
+				if (signal?.aborted) {
+					return;
+				}
+
 				logger.error(
 					`Error in streaming response from LM Studio (${endpoint})`,
 					{
@@ -235,6 +275,7 @@ export class LMStudioClient {
 						timestamp: new Date().toISOString(),
 					},
 				);
+				endSpan(span, err);
 				outputStream.emit("error", err);
 				outputStream.end();
 			});
@@ -245,8 +286,18 @@ export class LMStudioClient {
 					endpoint,
 					timestamp: new Date().toISOString(),
 				});
+				this.lastSuccessAt = new Date();
+				endSpan(span);
 			});
 		} catch (error) {
+			if (axios.isCancel(error)) {
+				logger.info(`Stream ${requestId} cancelled before it started`);
+				span.addEvent("cancelled");
+				endSpan(span);
+				outputStream.end();
+				return outputStream;
+			}
+
 			logger.error(
 				`Error setting up streaming request to LM Studio (${endpoint})`,
 				{
@@ -256,24 +307,62 @@ export class LMStudioClient {
 					timestamp: new Date().toISOString(),
 				},
 			);
-			outputStream.emit("error", error);
-			outputStream.end();
+			endSpan(span, error);
+			outputStream.destroy();
+			throw error;
 		}
 
 		return outputStream;
 	}
 
+	/**
+	 * List the models LM Studio can serve
+	 * Falls back to the OpenAI-compatible list, which lacks load state, on
+	 * LM Studio versions without the native API
+	 */
+	async listModels(): Promise<ReportedModel[]> {
+		try {
+			const response = await this.axiosInstance.get(
+				`http://${config.lmStudioHost}:${config.lmStudioPort}${LM_STUDIO_NATIVE_API_PATH}${API_ENDPOINTS.MODELS}`,
+			);
+			return response.data.data.map(
+				(model: { id: string; state?: string }) => ({
+					id: model.id,
+					loaded: model.state === "loaded",
+				}),
+			);
+		} catch (error) {
+			logger.debug("LM Studio native models API unavailable, falling back", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+
+		const response = await this.axiosInstance.get(API_ENDPOINTS.MODELS);
+		return response.data.data.map((model: { id: string }) => ({
+			id: model.id,
+		}));
+	}
+
 	/**
 	 * Check if LM Studio is available
 	 */
 	async checkAvailability(): Promise<boolean> {
 		try {
 			// Try to get models list as a simple availability check
-			await this.axiosInstance.get(API_ENDPOINTS.MODELS);
+			await this.axiosInstance.get(API_ENDPOINTS.MODELS, {
+				timeout: AVAILABILITY_TIMEOUT_MS,
+			});
 			return true;
 		} catch (error) {
 			logger.error("LM Studio availability check failed", error);
 			return false;
 		}
 	}
+
+	/**
+	 * Get when LM Studio last answered a forwarded request successfully
+	 */
+	getLastSuccessAt(): Date | null {
+		return this.lastSuccessAt;
+	}
 }
@@ -1,25 +1,58 @@
 import { EventEmitter } from "node:events";
+import type http from "node:http";
 import type { PassThrough } from "node:stream";
 import {
 	API_ENDPOINTS,
+	type AuthChallengeMessage,
 	type AuthMessage,
 	type AuthResultMessage,
 	type BaseMessage,
+	type CancelAckMessage,
+	type CancelRequestMessage,
+	Capability,
 	createMessage,
+	type DrainingMessage,
 	type ErrorMessage,
+	type ErrorResponseMessage,
+	HTTP_STATUS,
+	hashKeySecret,
+	isCapability,
+	LEGACY_CAPABILITIES,
+	LEGACY_PROTOCOL_VERSION,
 	MessageType,
+	MIN_PROTOCOL_VERSION,
+	type ModelsUpdateMessage,
+	PROTOCOL_VERSION,
+	parseApiKey,
+	parseServerMessage,
+	type ReportedModel,
 	type RequestMessage,
 	type StreamChunkMessage,
-	safeJsonParse,
+	type StreamEndMessage,
+	signAuthChallenge,
 	WS_PING_INTERVAL,
 } from "@lmstudio-proxy/common";
+import { context, type Span, trace } from "@opentelemetry/api";
 import WebSocket from "ws";
 import { config } from "./config";
 import { LMStudioClient } from "./lm-studio-client";
+import { toErrorPayload } from "./utils/errors";
 import { createLogger } from "./utils/logger";
+import { continueTrace, endSpan } from "./utils/tracing";
 
 const logger = createLogger("proxy-connection");
 
+// Protocol features implemented by this client build
+const CLIENT_CAPABILITIES: Capability[] = [
+	Capability.STREAMING,
+	Capability.CANCELLATION,
+	Capability.MODEL_REPORTING,
+	Capability.DRAINING,
+];
+
+// How often draining checks whether active requests finished
+const DRAIN_POLL_INTERVAL_MS = 100;
+
 /**
  * Events emitted by the ProxyConnection
  */
@@ -31,6 +64,23 @@ export enum ConnectionEvent {
 	ERROR = "error",
 }
 
+/**
+ * State of LM Studio and of the connection to the server, as reported by
+ * the health check
+ */
+export interface ClientHealth {
+	// Healthy when LM Studio answers and the server accepted the client
+	healthy: boolean;
+	connected: boolean;
+	authenticated: boolean;
+	lmStudio: {
+		reachable: boolean;
+		// Empty on LM Studio versions that do not report load state
+		loadedModels: string[];
+		lastSuccessfulRequestAt: string | null;
+	};
+}
+
 /**
  * Manages the WebSocket connection to the remote server
  */
@@ -38,8 +88,20 @@ export class ProxyConnection extends EventEmitter {
 	private ws: WebSocket | null = null;
 	private authenticated = false;
 	private pingInterval: NodeJS.Timeout | null = null;
+	private reconnectTimeout: NodeJS.Timeout | null = null;
+	// Set once the connection is shut down on purpose, so it is not re-established
+	private stopped = false;
+	// Set once the server refused an upgrade without credentials, after which
+	// the key is sent with every upgrade
+	private upgradeAuth = false;
+	private modelRefreshInterval: NodeJS.Timeout | null = null;
+	// Last model list sent to the server, to only report changes
+	private reportedModels: string | null = null;
 	private lmStudioClient: LMStudioClient;
 	private activeStreams: Map<string, PassThrough> = new Map();
+	private activeRequests: Map<string, AbortController> = new Map();
+	private protocolVersion = LEGACY_PROTOCOL_VERSION;
+	private capabilities: Set<Capability> = new Set();
 
 	constructor() {
 		super();
@@ -50,6 +112,7 @@ export class ProxyConnection extends EventEmitter {
 	 * Connect to the remote server
 	 */
 	public connect(): void {
+		this.stopped = false;
 		if (this.ws) {
 			this.ws.terminate();
 			this.ws = null;
@@ -58,12 +121,20 @@ export class ProxyConnection extends EventEmitter {
 		logger.info(`Connecting to remote server: ${config.remoteServerUrl}`);
 
 		try {
-			this.ws = new WebSocket(config.remoteServerUrl);
-
-			this.ws.on("open", this.handleOpen.bind(this));
-			this.ws.on("message", this.handleMessage.bind(this));
-			this.ws.on("close", this.handleClose.bind(this));
-			this.ws.on("error", this.handleError.bind(this));
+			const ws = new WebSocket(config.remoteServerUrl, {
+				headers: this.upgradeAuth
+					? { Authorization: `Bearer ${config.apiKey}` }
+					: undefined,
+			});
+			this.ws = ws;
+
+			ws.on("open", this.handleOpen.bind(this));
+			ws.on("message", this.handleMessage.bind(this));
+			ws.on("close", this.handleClose.bind(this));
+			ws.on("error", this.handleError.bind(this));
+			ws.on("unexpected-response", (_req, res) =>
+				this.handleUnexpectedResponse(ws, res),
+			);
 		} catch (error) {
 			logger.error("Failed to create WebSocket connection", error);
 			this.handleReconnection();
@@ -71,17 +142,63 @@ export class ProxyConnection extends EventEmitter {
 	}
 
 	/**
-	 * Disconnect from the remote server
+	 * Disconnect from the remote server for good
 	 */
 	public disconnect(): void {
+		this.stop();
 		if (this.ws) {
 			this.clearPingInterval();
-			this.ws.close();
+			this.ws.close(1000, "Client shutting down");
 			this.ws = null;
 			this.authenticated = false;
 		}
 	}
 
+	/**
+	 * Finish the active requests, then disconnect for good
+	 *
+	 * The server is told the client is draining, so it routes no new
+	 * requests here. Requests still running at the deadline are aborted.
+	 */
+	public async drain(timeoutMs: number): Promise<void> {
+		this.stop();
+		this.stopModelReporting();
+
+		if (this.authenticated && this.capabilities.has(Capability.DRAINING)) {
+			this.send(createMessage<DrainingMessage>(MessageType.DRAINING));
+		}
+
+		const deadline = Date.now() + timeoutMs;
+		logger.info(`Draining ${this.activeRequests.size} active requests`, {
+			timeoutMs,
+		});
+		while (this.activeRequests.size > 0 && Date.now() < deadline) {
+			await new Promise((resolve) =>
+				setTimeout(resolve, DRAIN_POLL_INTERVAL_MS),
+			);
+		}
+
+		if (this.activeRequests.size > 0) {
+			logger.warn(
+				`Aborting ${this.activeRequests.size} requests still active after ${timeoutMs}ms`,
+			);
+			this.cancelAllRequests();
+		}
+
+		this.disconnect();
+	}
+
+	/**
+	 * Keep the connection from being re-established once it closes
+	 */
+	private stop(): void {
+		this.stopped = true;
+		if (this.reconnectTimeout) {
+			clearTimeout(this.reconnectTimeout);
+			this.reconnectTimeout = null;
+		}
+	}
+
 	/**
 	 * Send a message to the remote server
 	 */
@@ -110,8 +227,53 @@ export class ProxyConnection extends EventEmitter {
 		// Start ping interval
 		this.setupPingInterval();
 
-		// Send registration message
-		this.sendRegistration();
+		// Registration waits for the server's authentication challenge
+	}
+
+	/**
+	 * Handle a refused upgrade
+	 *
+	 * Servers that require authentication during the upgrade refuse upgrades
+	 * without credentials with 401, so the client connects again right away,
+	 * sending its key. A 401 despite the key is an authentication failure,
+	 * after which the client stops reconnecting. Other refusals are retried
+	 * like any lost connection.
+	 */
+	private handleUnexpectedResponse(
+		ws: WebSocket,
+		res: http.IncomingMessage,
+	): void {
+		res.resume();
+
+		if (res.statusCode === HTTP_STATUS.UNAUTHORIZED && !this.upgradeAuth) {
+			logger.info(
+				"Server requires authentication during the upgrade - reconnecting with credentials",
+			);
+			this.upgradeAuth = true;
+			ws.removeAllListeners();
+			ws.on("error", () => {});
+			ws.terminate();
+			this.ws = null;
+			if (!this.stopped) {
+				this.connect();
+			}
+			return;
+		}
+
+		if (res.statusCode === HTTP_STATUS.UNAUTHORIZED) {
+			const reason = "Server refused the API key during the upgrade";
+			logger.error(`Authentication failed: ${reason}`);
+			this.stop();
+			ws.removeAllListeners();
+			ws.on("error", () => {});
+			ws.terminate();
+			this.ws = null;
+			this.emit(ConnectionEvent.AUTH_FAILED, reason);
+			return;
+		}
+
+		logger.error(`Server refused the connection: ${res.statusCode}`);
+		ws.terminate();
 	}
 
 	/**
@@ -119,65 +281,87 @@ export class ProxyConnection extends EventEmitter {
 	 */
 	private handleMessage(data: WebSocket.Data): void {
 		try {
-			const message = safeJsonParse<BaseMessage>(
-				data.toString(),
-				{} as BaseMessage,
-			);
+			const result = parseServerMessage(data.toString());
 
-			if (!message || !message.type) {
-				logger.error("Received invalid message format");
+			if (!result.success) {
+				logger.error(`Received invalid message: ${result.error}`, {
+					field: result.field,
+					requestId: result.requestId,
+				});
+				this.send(
+					createMessage<ErrorMessage>(MessageType.ERROR, {
+						error: result.error,
+						code: result.code,
+						field: result.field,
+						requestId: result.requestId,
+					}),
+				);
 				return;
 			}
 
+			const message = result.message;
+
 			logger.debug(`Received message of type: ${message.type}`, {
 				messageType: message.type,
 				requestId: message.requestId,
 				timestamp: new Date().toISOString(),
-				message: JSON.stringify(message),
-				availableMessageTypes: Object.values(MessageType),
 			});
 
-			if (message.type === MessageType.AUTH_RESULT) {
-				this.handleAuthMessage(message as AuthResultMessage);
-			} else if (
-				message.type === MessageType.CHAT_REQUEST ||
-				message.type === MessageType.COMPLETION_REQUEST ||
-				message.type === MessageType.EMBEDDINGS_REQUEST ||
-				message.type === MessageType.MODELS_REQUEST
-			) {
-				this.handleRequestMessage(message as RequestMessage);
-			} else if (message.type === MessageType.ERROR) {
-				this.handleErrorMessage(message as ErrorMessage);
-			} else if (message.type === MessageType.STREAM_CHUNK) {
-				logger.debug(
-					`Processing stream chunk for request ${message.requestId}`,
-					{
-						requestId: message.requestId,
-						data: (message as StreamChunkMessage).data,
-						timestamp: new Date().toISOString(),
-					},
-				);
-				const stream = this.activeStreams.get(message.requestId!);
-				if (stream) {
-					stream.write((message as StreamChunkMessage).data);
-				} else {
-					logger.warn(
-						`No active stream found for request ${message.requestId}`,
+			switch (message.type) {
+				case MessageType.AUTH_CHALLENGE:
+					this.sendRegistration(message);
+					break;
+				case MessageType.AUTH_RESULT:
+					this.handleAuthMessage(message);
+					break;
+				case MessageType.CHAT_REQUEST:
+				case MessageType.COMPLETION_REQUEST:
+				case MessageType.EMBEDDINGS_REQUEST:
+				case MessageType.MODELS_REQUEST:
+					this.handleRequestMessage(message);
+					break;
+				case MessageType.CANCEL_REQUEST:
+					this.handleCancelRequest(message);
+					break;
+				case MessageType.ERROR:
+					this.handleErrorMessage(message);
+					break;
+				case MessageType.STREAM_CHUNK: {
+					logger.payload(
+						`Processing stream chunk for request ${message.requestId}`,
+						{
+							requestId: message.requestId,
+							content: message.data,
+						},
 					);
+					const stream = this.activeStreams.get(message.requestId);
+					if (stream) {
+						stream.write(message.data);
+					} else {
+						logger.warn(
+							`No active stream found for request ${message.requestId}`,
+						);
+					}
+					break;
 				}
-			} else if (message.type === MessageType.STREAM_END) {
-				logger.debug(`Processing stream end for request ${message.requestId}`, {
-					requestId: message.requestId,
-					timestamp: new Date().toISOString(),
-				});
-				const stream = this.activeStreams.get(message.requestId!);
-				if (stream) {
-					stream.end();
-					this.activeStreams.delete(message.requestId!);
-				} else {
-					logger.warn(
-						`No active stream found for request ${message.requestId}`,
+				case MessageType.STREAM_END: {
+					logger.debug(
+						`Processing stream end for request ${message.requestId}`,
+						{
+							requestId: message.requestId,
+							timestamp: new Date().toISOString(),
+						},
 					);
+					const stream = this.activeStreams.get(message.requestId);
+					if (stream) {
+						stream.end();
+						this.activeStreams.delete(message.requestId);
+					} else {
+						logger.warn(
+							`No active stream found for request ${message.requestId}`,
+						);
+					}
+					break;
 				}
 			}
 		} catch (error) {
@@ -194,7 +378,12 @@ export class ProxyConnection extends EventEmitter {
 	private handleClose(code: number, reason: string): void {
 		logger.info(`Disconnected from server: ${code} ${reason}`);
 		this.clearPingInterval();
+		this.stopModelReporting();
 		this.authenticated = false;
+
+		// Nobody is left to read the results of in-flight requests
+		this.cancelAllRequests();
+
 		this.emit(ConnectionEvent.DISCONNECTED, { code, reason });
 
 		// Attempt to reconnect
@@ -233,24 +422,96 @@ export class ProxyConnection extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Report LM Studio's models now and poll for changes
+	 */
+	private startModelReporting(): void {
+		this.stopModelReporting();
+		this.reportedModels = null;
+		this.reportModels();
+
+		this.modelRefreshInterval = setInterval(() => {
+			this.reportModels();
+		}, config.modelRefreshInterval);
+	}
+
+	/**
+	 * Stop polling LM Studio's models
+	 */
+	private stopModelReporting(): void {
+		if (this.modelRefreshInterval) {
+			clearInterval(this.modelRefreshInterval);
+			this.modelRefreshInterval = null;
+		}
+	}
+
+	/**
+	 * Send LM Studio's model list to the server if it changed since the last report
+	 */
+	private async reportModels(): Promise<void> {
+		let models: ReportedModel[];
+		try {
+			models = await this.lmStudioClient.listModels();
+		} catch (error) {
+			// Keep the last report, requests will surface that LM Studio is down
+			logger.warn("Failed to list LM Studio models", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return;
+		}
+
+		models.sort((a, b) => a.id.localeCompare(b.id));
+		const snapshot = JSON.stringify(models);
+		if (!this.authenticated || snapshot === this.reportedModels) {
+			return;
+		}
+
+		const sent = this.send(
+			createMessage<ModelsUpdateMessage>(MessageType.MODELS_UPDATE, {
+				models,
+			}),
+		);
+		if (sent) {
+			logger.info(`Reported ${models.length} models to the server`);
+			this.reportedModels = snapshot;
+		}
+	}
+
 	/**
 	 * Handle reconnection to the server
 	 */
 	private handleReconnection(): void {
+		if (this.stopped) {
+			return;
+		}
+
 		logger.info(`Attempting to reconnect in ${config.reconnectInterval}ms...`);
 
-		setTimeout(() => {
+		this.reconnectTimeout = setTimeout(() => {
+			this.reconnectTimeout = null;
 			this.connect();
 		}, config.reconnectInterval);
 	}
 
 	/**
-	 * Send registration message to the server
+	 * Send registration message to the server, answering its challenge by
+	 * signing the nonce instead of sending the API key
 	 */
-	private sendRegistration(): void {
+	private sendRegistration(challenge: AuthChallengeMessage): void {
+		const { keyId, secret } = parseApiKey(config.apiKey);
 		const message = createMessage<AuthMessage>(MessageType.AUTH, {
 			clientId: config.clientId,
-			apiKey: config.apiKey,
+			keyId,
+			signature: signAuthChallenge(
+				hashKeySecret(secret),
+				challenge.nonce,
+				config.clientId,
+			),
+			protocolVersion: PROTOCOL_VERSION,
+			minProtocolVersion: MIN_PROTOCOL_VERSION,
+			capabilities: CLIENT_CAPABILITIES,
+			capacity: config.capacity,
+			maxConcurrency: config.maxConcurrency,
 		});
 
 		logger.info("Sending registration message");
@@ -262,9 +523,35 @@ export class ProxyConnection extends EventEmitter {
 	 */
 	private handleAuthMessage(message: AuthResultMessage): void {
 		if (message.success) {
+			// Servers that predate negotiation do not report a version
+			const protocolVersion =
+				message.protocolVersion ?? LEGACY_PROTOCOL_VERSION;
+			if (protocolVersion < MIN_PROTOCOL_VERSION) {
+				const reason = `Server protocol version ${protocolVersion} is no longer supported (minimum ${MIN_PROTOCOL_VERSION})`;
+				logger.error(`Authentication failed: ${reason}`);
+				this.authenticated = false;
+				this.emit(ConnectionEvent.AUTH_FAILED, reason);
+				return;
+			}
+
+			this.protocolVersion = protocolVersion;
+			this.capabilities = new Set(
+				(message.capabilities ?? LEGACY_CAPABILITIES).filter(
+					(capability): capability is Capability =>
+						isCapability(capability) &&
+						CLIENT_CAPABILITIES.includes(capability),
+				),
+			);
 			this.authenticated = true;
-			logger.info("Successfully authenticated with proxy server");
+			logger.info("Successfully authenticated with proxy server", {
+				protocolVersion: this.protocolVersion,
+				capabilities: [...this.capabilities],
+			});
 			this.emit(ConnectionEvent.AUTHENTICATED);
+
+			if (this.capabilities.has(Capability.MODEL_REPORTING)) {
+				this.startModelReporting();
+			}
 		} else {
 			logger.error(`Authentication failed: ${message.error}`);
 			this.authenticated = false;
@@ -273,11 +560,31 @@ export class ProxyConnection extends EventEmitter {
 	}
 
 	/**
-	 * Handle request message from server
+	 * Handle request message from server, continuing the trace of the
+	 * server span that dispatched it
+	 */
+	private handleRequestMessage(message: RequestMessage): Promise<void> {
+		const span = continueTrace(message);
+
+		// Requests to LM Studio made while handling the message join its span
+		return context.with(trace.setSpan(context.active(), span), () =>
+			this.processRequestMessage(message, span),
+		);
+	}
+
+	/**
+	 * Forward a request message to LM Studio and send back its response
 	 */
-	private async handleRequestMessage(message: RequestMessage): Promise<void> {
+	private async processRequestMessage(
+		message: RequestMessage,
+		span: Span,
+	): Promise<void> {
 		const { requestId, data } = message;
 
+		// Track the request so the server can cancel it
+		const abortController = new AbortController();
+		this.activeRequests.set(requestId, abortController);
+
 		try {
 			// Determine the endpoint based on message type
 			let endpoint = "";
@@ -305,10 +612,22 @@ export class ProxyConnection extends EventEmitter {
 				timestamp: new Date().toISOString(),
 			});
 
-			if (message.stream) {
-				await this.handleStreamingRequest(requestId, endpoint, data);
+			if (message.stream && this.hasCapability(Capability.STREAMING)) {
+				await this.handleStreamingRequest(
+					requestId,
+					endpoint,
+					data,
+					abortController.signal,
+					span,
+				);
 			} else {
-				const response = await this.lmStudioClient.makeRequest(endpoint, data);
+				// Streaming was not negotiated, so answer with a single response
+				const payload = message.stream ? { ...data, stream: false } : data;
+				const response = await this.lmStudioClient.makeRequest(
+					endpoint,
+					payload,
+					abortController.signal,
+				);
 
 				// Determine the correct response message type based on the request type
 				let responseType: MessageType;
@@ -345,6 +664,12 @@ export class ProxyConnection extends EventEmitter {
 				);
 			}
 		} catch (error) {
+			if (abortController.signal.aborted) {
+				logger.info(`Request ${requestId} was cancelled`);
+				span.addEvent("cancelled");
+				return;
+			}
+
 			logger.error(`Error handling request ${requestId}:`, {
 				error,
 				requestId,
@@ -352,13 +677,14 @@ export class ProxyConnection extends EventEmitter {
 				timestamp: new Date().toISOString(),
 			});
 
-			// Send error response
-			this.send(
-				createMessage(MessageType.ERROR_RESPONSE, {
-					requestId,
-					error: error instanceof Error ? error.message : String(error),
-				}),
-			);
+			endSpan(span, error);
+			this.sendErrorResponse(requestId, error);
+		} finally {
+			// Streaming requests stay tracked until their stream finishes
+			if (!this.activeStreams.has(requestId)) {
+				this.activeRequests.delete(requestId);
+				endSpan(span);
+			}
 		}
 	}
 
@@ -369,6 +695,8 @@ export class ProxyConnection extends EventEmitter {
 		requestId: string,
 		endpoint: string,
 		payload: any,
+		signal: AbortSignal,
+		span: Span,
 	): Promise<void> {
 		try {
 			let stream: PassThrough;
@@ -386,15 +714,26 @@ export class ProxyConnection extends EventEmitter {
 			});
 
 			if (normalizedEndpoint === "chat/completions") {
-				stream = await this.lmStudioClient.streamChatCompletion(payload);
+				stream = await this.lmStudioClient.streamChatCompletion(
+					payload,
+					signal,
+				);
 			} else if (normalizedEndpoint === "completions") {
-				stream = await this.lmStudioClient.streamCompletion(payload);
+				stream = await this.lmStudioClient.streamCompletion(payload, signal);
 			} else {
 				throw new Error(`Streaming not supported for endpoint: ${endpoint}`);
 			}
 
+			// The request may have been cancelled while LM Studio was connecting
+			if (signal.aborted) {
+				stream.destroy();
+				return;
+			}
+
 			// Store the stream for potential cleanup later
 			this.activeStreams.set(requestId, stream);
+			// The request is over once its stream is, however it ended
+			stream.once("close", () => endSpan(span));
 			logger.debug(`Stream stored for request ${requestId}`, {
 				requestId,
 				timestamp: new Date().toISOString(),
@@ -407,36 +746,16 @@ export class ProxyConnection extends EventEmitter {
 					logger.debug(`Stream data received for request ${requestId}`, {
 						requestId,
 						dataLength: data.length,
-						dataPreview:
-							data.substring(0, 50) + (data.length > 50 ? "..." : ""),
-						timestamp: new Date().toISOString(),
 					});
 
 					// Send the chunk to the server
-					const messageData = {
-						requestId,
-						data,
-					};
-
-					// Create message with proper string type
-					const message = createMessage(MessageType.STREAM_CHUNK, messageData);
-
-					// Explicit type conversion to ensure proper serialization
-					const messageType = String(MessageType.STREAM_CHUNK);
-					(message as any).type = messageType;
+					const message = createMessage<StreamChunkMessage>(
+						MessageType.STREAM_CHUNK,
+						{ requestId, data },
+					);
 
 					logger.debug(
 						`Sending stream chunk message to server for request ${requestId}`,
-						{
-							requestId,
-							messageType: message.type,
-							messageTypeRaw: MessageType.STREAM_CHUNK,
-							messageTypeAsString: messageType,
-							messageTypeType: typeof message.type,
-							timestamp: new Date().toISOString(),
-							messageKeys: Object.keys(message),
-							messageAsJSON: `${JSON.stringify(message).substring(0, 100)}...`,
-						},
 					);
 
 					this.send(message);
@@ -457,8 +776,8 @@ export class ProxyConnection extends EventEmitter {
 						this.activeStreams.delete(requestId);
 
 						// Fall back to non-streaming mode
-						this.handleNonStreamingRequest(requestId, endpoint, payload).catch(
-							(fallbackError) => {
+						this.handleNonStreamingRequest(requestId, endpoint, payload, signal)
+							.catch((fallbackError) => {
 								logger.error(
 									`Fallback request also failed for request ${requestId}`,
 									{
@@ -470,86 +789,126 @@ export class ProxyConnection extends EventEmitter {
 										timestamp: new Date().toISOString(),
 									},
 								);
-							},
-						);
+							})
+							.finally(() => this.activeRequests.delete(requestId));
 					}
 				}
 			});
 
 			// Handle stream end
 			stream.on("end", () => {
-				if (!streamingFailed) {
+				if (!streamingFailed && !signal.aborted) {
 					logger.debug(`Stream ended for request ${requestId}`, {
 						requestId,
 						timestamp: new Date().toISOString(),
 					});
 
-					// Create stream end message with proper type
-					const endMessageData = { requestId };
-					const endMessage = createMessage(
+					const endMessage = createMessage<StreamEndMessage>(
 						MessageType.STREAM_END,
-						endMessageData,
+						{ requestId },
 					);
 
-					// Explicit type conversion to ensure proper serialization
-					const endMessageType = String(MessageType.STREAM_END);
-					(endMessage as any).type = endMessageType;
-
 					logger.debug(
 						`Sending stream end message to server for request ${requestId}`,
-						{
-							requestId,
-							messageType: endMessage.type,
-							messageTypeRaw: MessageType.STREAM_END,
-							messageTypeAsString: endMessageType,
-							messageTypeType: typeof endMessage.type,
-							timestamp: new Date().toISOString(),
-							messageKeys: Object.keys(endMessage),
-							messageAsJSON: `${JSON.stringify(endMessage).substring(0, 100)}...`,
-						},
 					);
 
 					this.send(endMessage);
 
 					// Remove from active streams
 					this.activeStreams.delete(requestId);
+					this.activeRequests.delete(requestId);
 				}
 			});
 
 			// Handle stream errors
 			stream.on("error", (error) => {
+				if (signal.aborted) {
+					return;
+				}
+
 				logger.error(`Stream error for request ${requestId}`, {
 					error,
 					requestId,
 					timestamp: new Date().toISOString(),
 				});
 
-				// Send error message
-				this.send(
-					createMessage(MessageType.ERROR, {
-						requestId,
-						error: error.message,
-					}),
-				);
+				endSpan(span, error);
+				this.sendErrorResponse(requestId, error);
 
 				// Remove from active streams
 				this.activeStreams.delete(requestId);
+				this.activeRequests.delete(requestId);
 			});
 		} catch (error) {
+			if (signal.aborted) {
+				return;
+			}
+
 			logger.error(`Error setting up stream for request ${requestId}`, {
 				error,
 				requestId,
 				timestamp: new Date().toISOString(),
 			});
 
-			// Send error message
-			this.send(
-				createMessage(MessageType.ERROR, {
-					requestId,
-					error: error instanceof Error ? error.message : String(error),
-				}),
-			);
+			endSpan(span, error);
+			this.sendErrorResponse(requestId, error);
+		}
+	}
+
+	/**
+	 * Report a failed request to the server so the caller is answered right away
+	 */
+	private sendErrorResponse(requestId: string, error: unknown): void {
+		this.send(
+			createMessage<ErrorResponseMessage>(MessageType.ERROR_RESPONSE, {
+				requestId,
+				error: toErrorPayload(error),
+			}),
+		);
+	}
+
+	/**
+	 * Handle cancellation of an in-flight request by the server
+	 */
+	private handleCancelRequest(message: CancelRequestMessage): void {
+		const { requestId } = message;
+		const abortController = this.activeRequests.get(requestId);
+		const stream = this.activeStreams.get(requestId);
+
+		// Aborting stops the HTTP request to LM Studio, and with it generation
+		abortController?.abort();
+		stream?.destroy();
+		this.activeRequests.delete(requestId);
+		this.activeStreams.delete(requestId);
+
+		const cancelled = abortController !== undefined;
+		if (cancelled) {
+			logger.info(`Cancelled request ${requestId}`);
+		} else {
+			logger.debug(`Received cancellation for unknown request ${requestId}`);
+		}
+
+		this.send(
+			createMessage<CancelAckMessage>(MessageType.CANCEL_ACK, {
+				requestId,
+				cancelled,
+			}),
+		);
+	}
+
+	/**
+	 * Abort every in-flight request
+	 */
+	private cancelAllRequests(): void {
+		for (const [requestId, abortController] of this.activeRequests) {
+			logger.info(`Aborting request ${requestId}`);
+			abortController.abort();
 		}
+		for (const stream of this.activeStreams.values()) {
+			stream.destroy();
+		}
+		this.activeRequests.clear();
+		this.activeStreams.clear();
 	}
 
 	/**
@@ -574,10 +933,56 @@ export class ProxyConnection extends EventEmitter {
 		return this.authenticated;
 	}
 
+	/**
+	 * Check whether LM Studio answers and which models it has loaded
+	 */
+	public async checkHealth(): Promise<ClientHealth> {
+		const reachable = await this.lmStudioClient.checkAvailability();
+		let loadedModels: string[] = [];
+		if (reachable) {
+			try {
+				loadedModels = (await this.lmStudioClient.listModels())
+					.filter((model) => model.loaded)
+					.map((model) => model.id);
+			} catch (error) {
+				logger.warn("Failed to list LM Studio models", {
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+
+		return {
+			healthy: reachable && this.authenticated,
+			connected: this.isConnected(),
+			authenticated: this.authenticated,
+			lmStudio: {
+				reachable,
+				loadedModels,
+				lastSuccessfulRequestAt:
+					this.lmStudioClient.getLastSuccessAt()?.toISOString() ?? null,
+			},
+		};
+	}
+
+	/**
+	 * Get the protocol version negotiated with the server
+	 */
+	public getProtocolVersion(): number {
+		return this.protocolVersion;
+	}
+
+	/**
+	 * Check if a capability was negotiated with the server
+	 */
+	public hasCapability(capability: Capability): boolean {
+		return this.capabilities.has(capability);
+	}
+
 	private async handleNonStreamingRequest(
 		requestId: string,
 		endpoint: string,
 		payload: any,
+		signal: AbortSignal,
 	): Promise<void> {
 		try {
 			logger.debug(`Falling back to non-streaming request for ${requestId}`, {
@@ -604,6 +1009,7 @@ export class ProxyConnection extends EventEmitter {
 			const response = await this.lmStudioClient.makeRequest(
 				`/${normalizedEndpoint}`,
 				nonStreamingPayload,
+				signal,
 			);
 
 			// Send the response based on endpoint type
@@ -611,31 +1017,30 @@ export class ProxyConnection extends EventEmitter {
 				this.send(
 					createMessage(MessageType.CHAT_RESPONSE, {
 						requestId,
-						response,
+						data: response,
 					}),
 				);
 			} else if (normalizedEndpoint === "completions") {
 				this.send(
 					createMessage(MessageType.COMPLETION_RESPONSE, {
 						requestId,
-						response,
+						data: response,
 					}),
 				);
 			}
 		} catch (error) {
+			if (signal.aborted) {
+				logger.info(`Fallback request ${requestId} was cancelled`);
+				return;
+			}
+
 			logger.error(`Error in non-streaming fallback for request ${requestId}`, {
 				error: error instanceof Error ? error.message : String(error),
 				requestId,
 				timestamp: new Date().toISOString(),
 			});
 
-			// Send error message
-			this.send(
-				createMessage(MessageType.ERROR, {
-					requestId,
-					error: error instanceof Error ? error.message : String(error),
-				}),
-			);
+			this.sendErrorResponse(requestId, error);
 		}
 	}
 
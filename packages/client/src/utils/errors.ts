@@ -0,0 +1,78 @@
+import { ErrorCode, type ErrorPayload } from "@lmstudio-proxy/common";
+import axios from "axios";
+
+// Network errors meaning LM Studio could not be reached at all
+const UNREACHABLE_CODES = new Set([
+	"ECONNREFUSED",
+	"ECONNRESET",
+	"ENOTFOUND",
+	"EHOSTUNREACH",
+	"EAI_AGAIN",
+]);
+
+// Network errors meaning LM Studio did not answer in time
+const TIMEOUT_CODES = new Set(["ECONNABORTED", "ETIMEDOUT"]);
+
+/**
+ * Extract the error message LM Studio put in a response body, if any
+ */
+function upstreamMessage(data: unknown): string | undefined {
+	if (data === null || typeof data !== "object" || !("error" in data)) {
+		return undefined;
+	}
+
+	const { error } = data;
+	if (typeof error === "string") {
+		return error;
+	}
+	if (
+		error !== null &&
+		typeof error === "object" &&
+		"message" in error &&
+		typeof error.message === "string"
+	) {
+		return error.message;
+	}
+	return undefined;
+}
+
+/**
+ * Describe a failed LM Studio request for the server
+ * @returns The error payload sent in an ERROR_RESPONSE message
+ */
+export function toErrorPayload(error: unknown): ErrorPayload {
+	if (!axios.isAxiosError(error)) {
+		return {
+			message: error instanceof Error ? error.message : String(error),
+			code: ErrorCode.INTERNAL_ERROR,
+		};
+	}
+
+	if (error.response) {
+		const { status } = error.response;
+		const message =
+			upstreamMessage(error.response.data) ??
+			`LM Studio responded with status ${status}`;
+
+		if (status >= 400 && status < 500) {
+			return { message, code: ErrorCode.INVALID_REQUEST, status };
+		}
+		return { message, code: ErrorCode.LM_STUDIO_ERROR, status };
+	}
+
+	if (error.code && UNREACHABLE_CODES.has(error.code)) {
+		return {
+			message: `LM Studio is unavailable: ${error.message}`,
+			code: ErrorCode.LM_STUDIO_UNAVAILABLE,
+		};
+	}
+
+	if (error.code && TIMEOUT_CODES.has(error.code)) {
+		return {
+			message: `LM Studio did not respond in time: ${error.message}`,
+			code: ErrorCode.REQUEST_TIMEOUT,
+		};
+	}
+
+	return { message: error.message, code: ErrorCode.LM_STUDIO_ERROR };
+}
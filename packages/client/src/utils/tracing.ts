@@ -0,0 +1,94 @@
+import type { RequestMessage } from "@lmstudio-proxy/common";
+import {
+	context,
+	propagation,
+	ROOT_CONTEXT,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+	BatchSpanProcessor,
+	NodeTracerProvider,
+} from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { config } from "../config";
+
+// Spans are always recorded so trace context reaches LM Studio, but only
+// exported when a collector is configured
+const provider = new NodeTracerProvider({
+	resource: resourceFromAttributes({
+		[ATTR_SERVICE_NAME]: config.otelServiceName,
+	}),
+	spanProcessors: config.otlpEndpoint
+		? [
+				new BatchSpanProcessor(
+					new OTLPTraceExporter({
+						url: `${config.otlpEndpoint.replace(/\/+$/, "")}/v1/traces`,
+					}),
+				),
+			]
+		: [],
+});
+
+provider.register();
+
+export const tracer = trace.getTracer("lmstudio-proxy-client");
+
+/**
+ * Start the span of a request from the server, continuing the span that
+ * dispatched it when the message carries its trace context
+ */
+export function continueTrace(message: RequestMessage): Span {
+	const parent = propagation.extract(ROOT_CONTEXT, {
+		traceparent: message.traceparent,
+		tracestate: message.tracestate,
+	});
+
+	return tracer.startSpan(
+		`handle ${message.type}`,
+		{
+			kind: SpanKind.SERVER,
+			attributes: { "lmstudio_proxy.request_id": message.requestId },
+		},
+		parent,
+	);
+}
+
+/**
+ * Get the headers that continue a span in LM Studio
+ */
+export function traceHeaders(span: Span): Record<string, string> {
+	const headers: Record<string, string> = {};
+	propagation.inject(trace.setSpan(context.active(), span), headers);
+	return headers;
+}
+
+/**
+ * End a span, marking it failed when an error is given
+ *
+ * Spans that already ended are left alone, so every way a request can
+ * finish may end its span.
+ */
+export function endSpan(span: Span, error?: unknown): void {
+	if (!span.isRecording()) {
+		return;
+	}
+
+	if (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		span.recordException(error instanceof Error ? error : message);
+		span.setStatus({ code: SpanStatusCode.ERROR, message });
+	}
+	span.end();
+}
+
+/**
+ * Export the spans that are still buffered and stop exporting
+ */
+export function shutdownTracing(): Promise<void> {
+	return provider.shutdown();
+}
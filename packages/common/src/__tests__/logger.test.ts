@@ -0,0 +1,144 @@
+import { createLogger, type LoggerOptions } from "../logger";
+import { MessageType } from "../types";
+
+const options: LoggerOptions = {
+	level: "debug",
+	format: "json",
+	redactContent: true,
+	redactSecrets: true,
+	redactFields: [],
+	payloadSampleRate: 1,
+};
+
+describe("createLogger", () => {
+	let log: jest.SpyInstance;
+
+	beforeEach(() => {
+		log = jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		log.mockRestore();
+	});
+
+	// Entries written so far, parsed
+	function entries(): Record<string, unknown>[] {
+		return log.mock.calls.map(([line]) => JSON.parse(line));
+	}
+
+	it("should write one JSON entry with correlation fields at the top level", () => {
+		const logger = createLogger("forward", options).child({
+			clientId: "client-1",
+		});
+
+		logger.info("Forwarding chat request", { requestId: "req-1" });
+
+		expect(entries()).toEqual([
+			{
+				timestamp: expect.any(String),
+				level: "info",
+				component: "forward",
+				message: "Forwarding chat request",
+				clientId: "client-1",
+				requestId: "req-1",
+			},
+		]);
+	});
+
+	it("should redact prompts and completions wherever they are nested", () => {
+		createLogger("client", options).info("Response", {
+			payload: {
+				model: "test-model",
+				messages: [{ role: "user", content: "secret plans" }],
+			},
+			data: { choices: [{ message: { content: "more secret plans" } }] },
+		});
+
+		const [entry] = entries();
+		expect(entry.payload).toEqual({
+			model: "test-model",
+			messages: "[REDACTED]",
+		});
+		expect(JSON.stringify(entry)).not.toContain("secret plans");
+	});
+
+	it("should redact the completion text of stream chunks", () => {
+		createLogger("websocket", options).payload("WebSocket message received", {
+			frame: {
+				type: MessageType.STREAM_CHUNK,
+				requestId: "req-1",
+				data: 'data: {"choices":[{"delta":{"content":"secret plans"}}]}\n\n',
+			},
+		});
+
+		const [entry] = entries();
+		expect(entry.frame).toEqual({
+			type: MessageType.STREAM_CHUNK,
+			requestId: "req-1",
+			data: "[REDACTED]",
+		});
+		expect(JSON.stringify(entry)).not.toContain("secret plans");
+	});
+
+	it("should redact credentials in fields and free text", () => {
+		createLogger("auth", { ...options, redactFields: ["sessionId"] }).info(
+			"Rejected Bearer abc.def for lmsp_0a1b_c2d3-e4",
+			{
+				headers: { authorization: "Bearer abc.def" },
+				apiKey: "test-api-key",
+				sessionId: "session-1",
+			},
+		);
+
+		const [entry] = entries();
+		expect(entry.message).toBe("Rejected [REDACTED] for [REDACTED]");
+		expect(entry.headers).toEqual({ authorization: "[REDACTED]" });
+		expect(entry.apiKey).toBe("[REDACTED]");
+		expect(entry.sessionId).toBe("[REDACTED]");
+	});
+
+	it("should keep content when its redaction is turned off", () => {
+		createLogger("client", { ...options, redactContent: false }).info(
+			"Request",
+			{ prompt: "Hello" },
+		);
+
+		expect(entries()[0].prompt).toBe("Hello");
+	});
+
+	it("should only dump the sampled share of payloads", () => {
+		const random = jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+		createLogger("client", { ...options, payloadSampleRate: 0.25 }).payload(
+			"Request payload",
+			{ model: "test-model" },
+		);
+		createLogger("client", { ...options, payloadSampleRate: 0.75 }).payload(
+			"Request payload",
+			{ model: "test-model" },
+		);
+		createLogger("client", { ...options, level: "info" }).payload(
+			"Request payload",
+			{ model: "test-model" },
+		);
+		random.mockRestore();
+
+		expect(entries()).toHaveLength(1);
+		expect(entries()[0]).toMatchObject({ level: "debug" });
+	});
+
+	it("should log errors without their internals", () => {
+		const error = Object.assign(new Error("connect ECONNREFUSED"), {
+			code: "ECONNREFUSED",
+			config: { headers: { Authorization: "Bearer abc" } },
+		});
+
+		createLogger("client", options).info("Request failed", error);
+
+		expect(entries()[0].error).toEqual({
+			name: "Error",
+			message: "connect ECONNREFUSED",
+			code: "ECONNREFUSED",
+		});
+	});
+});
@@ -0,0 +1,76 @@
+import {
+	Capability,
+	MIN_PROTOCOL_VERSION,
+	negotiateProtocol,
+	PROTOCOL_VERSION,
+} from "../protocol";
+
+const server = {
+	protocolVersion: PROTOCOL_VERSION,
+	minProtocolVersion: MIN_PROTOCOL_VERSION,
+	capabilities: [Capability.STREAMING, Capability.CANCELLATION],
+};
+
+describe("negotiateProtocol", () => {
+	it("should settle on the highest common version and shared capabilities", () => {
+		const result = negotiateProtocol(
+			{
+				protocolVersion: PROTOCOL_VERSION + 1,
+				minProtocolVersion: MIN_PROTOCOL_VERSION,
+				capabilities: [Capability.STREAMING, "future_feature"],
+			},
+			server,
+		);
+
+		expect(result).toEqual({
+			success: true,
+			protocolVersion: PROTOCOL_VERSION,
+			capabilities: [Capability.STREAMING],
+		});
+	});
+
+	it("should reject peers older than the minimum version", () => {
+		const result = negotiateProtocol(
+			{ protocolVersion: 1, minProtocolVersion: 1, capabilities: [] },
+			{ ...server, minProtocolVersion: 2 },
+		);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.reason).toContain("please upgrade the client");
+		}
+	});
+
+	it("should reject peers that require a newer version", () => {
+		const result = negotiateProtocol(
+			{
+				protocolVersion: PROTOCOL_VERSION + 2,
+				minProtocolVersion: PROTOCOL_VERSION + 1,
+				capabilities: [],
+			},
+			server,
+		);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.reason).toContain("please upgrade the server");
+		}
+	});
+
+	it("should reject peers missing required capabilities", () => {
+		const result = negotiateProtocol(
+			{
+				protocolVersion: PROTOCOL_VERSION,
+				minProtocolVersion: MIN_PROTOCOL_VERSION,
+				capabilities: [Capability.STREAMING],
+			},
+			server,
+			[Capability.CANCELLATION],
+		);
+
+		expect(result).toEqual({
+			success: false,
+			reason: "Missing required capabilities: cancellation",
+		});
+	});
+});
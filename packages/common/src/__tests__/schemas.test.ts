@@ -0,0 +1,137 @@
+import { ErrorCode } from "../constants";
+import { parseClientMessage, parseServerMessage } from "../schemas";
+import { MessageType } from "../types";
+
+describe("parseClientMessage", () => {
+	it("should accept a well-formed stream chunk", () => {
+		const result = parseClientMessage(
+			JSON.stringify({
+				type: MessageType.STREAM_CHUNK,
+				requestId: "req-1",
+				data: "data: {}\n\n",
+			}),
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.message.type).toBe(MessageType.STREAM_CHUNK);
+		}
+	});
+
+	it("should reject malformed JSON", () => {
+		const result = parseClientMessage("{not json");
+
+		expect(result).toMatchObject({
+			success: false,
+			code: ErrorCode.INVALID_MESSAGE,
+			error: "Malformed JSON",
+		});
+	});
+
+	it("should reject unknown message types", () => {
+		const result = parseClientMessage({ type: "STREAM_CHUNK_v2" });
+
+		expect(result).toMatchObject({
+			success: false,
+			field: "type",
+			error: "Unknown message type: STREAM_CHUNK_v2",
+		});
+	});
+
+	it("should name the offending field", () => {
+		const result = parseClientMessage({
+			type: MessageType.STREAM_CHUNK,
+			requestId: "req-1",
+			data: { choices: [] },
+		});
+
+		expect(result).toMatchObject({
+			success: false,
+			field: "data",
+			requestId: "req-1",
+		});
+	});
+
+	it("should reject responses without data or error", () => {
+		const result = parseClientMessage({
+			type: MessageType.CHAT_RESPONSE,
+			requestId: "req-1",
+		});
+
+		expect(result).toMatchObject({ success: false, field: "data" });
+	});
+
+	it("should name the offending model in a models update", () => {
+		const result = parseClientMessage({
+			type: MessageType.MODELS_UPDATE,
+			models: [{ id: "qwen2.5-7b-instruct", loaded: true }, { id: "" }],
+		});
+
+		expect(result).toMatchObject({ success: false, field: "models.1.id" });
+	});
+
+	it("should accept a draining notice", () => {
+		const result = parseClientMessage({ type: MessageType.DRAINING });
+
+		expect(result.success).toBe(true);
+	});
+
+	it("should require a well-formed challenge signature", () => {
+		const result = parseClientMessage({
+			type: MessageType.AUTH,
+			clientId: "client-1",
+			keyId: "bootstrap",
+			signature: "not-a-signature",
+		});
+
+		expect(result).toMatchObject({ success: false, field: "signature" });
+	});
+
+	it("should reject messages the server never accepts from clients", () => {
+		const result = parseClientMessage({
+			type: MessageType.CHAT_REQUEST,
+			requestId: "req-1",
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe("parseServerMessage", () => {
+	it("should accept a chat request", () => {
+		const result = parseServerMessage({
+			type: MessageType.CHAT_REQUEST,
+			requestId: "req-1",
+			stream: true,
+			data: { model: "test-model", messages: [] },
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("should reject a malformed traceparent", () => {
+		const result = parseServerMessage({
+			type: MessageType.CHAT_REQUEST,
+			requestId: "req-1",
+			data: { model: "test-model", messages: [] },
+			traceparent: "00-not-a-trace-01",
+		});
+
+		expect(result).toMatchObject({ success: false, field: "traceparent" });
+	});
+
+	it("should accept an authentication challenge", () => {
+		const result = parseServerMessage({
+			type: MessageType.AUTH_CHALLENGE,
+			nonce: "nonce-1",
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("should require a requestId on cancellation", () => {
+		const result = parseServerMessage({ type: MessageType.CANCEL_REQUEST });
+
+		expect(result).toMatchObject({ success: false, field: "requestId" });
+	});
+});
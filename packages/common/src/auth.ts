@@ -0,0 +1,75 @@
+import { createHash, createHmac } from "node:crypto";
+
+/**
+ * Client authentication
+ *
+ * On connect the server sends an AUTH_CHALLENGE with a random nonce. The
+ * client answers with an AUTH message holding the ID of its API key and an
+ * HMAC of the nonce and its client ID, so the key itself never crosses the
+ * wire. Nonces are single-use, which makes captured AUTH messages worthless.
+ *
+ * The HMAC is keyed with the hash of the secret that the server's key store
+ * holds, as the server must be able to compute it. This is deliberate: the
+ * stored hash cannot be used as an API key, but whoever can read the key
+ * store can answer challenges and register clients with any of its keys, so
+ * the store needs the same protection as the keys themselves.
+ */
+
+/**
+ * Prefix of API keys issued by the server's key store, which are shaped
+ * `<prefix>_<keyId>_<secret>`
+ */
+export const API_KEY_PREFIX = "lmsp";
+
+/**
+ * ID of the key configured through the server's API_KEY setting
+ */
+export const BOOTSTRAP_KEY_ID = "bootstrap";
+
+// The secret is base64url and may itself contain underscores
+const API_KEY_PATTERN = new RegExp(`^${API_KEY_PREFIX}_([0-9a-f]+)_(.+)$`);
+
+/**
+ * Split an API key into its ID and secret
+ *
+ * Keys without the store's shape are the bootstrap key.
+ */
+export function parseApiKey(apiKey: string): { keyId: string; secret: string } {
+	const match = API_KEY_PATTERN.exec(apiKey);
+	return match
+		? { keyId: match[1], secret: match[2] }
+		: { keyId: BOOTSTRAP_KEY_ID, secret: apiKey };
+}
+
+/**
+ * Hash a key's secret the way the server stores it
+ */
+export function hashKeySecret(secret: string): string {
+	return createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * Sign an authentication challenge
+ * @param secretHash Hash of the key's secret, from hashKeySecret
+ * @returns Hex-encoded HMAC-SHA256 of the nonce and client ID
+ */
+export function signAuthChallenge(
+	secretHash: string,
+	nonce: string,
+	clientId: string,
+): string {
+	return createHmac("sha256", secretHash)
+		.update(`${nonce}:${clientId}`)
+		.digest("hex");
+}
+
+/**
+ * WebSocket subprotocol spoken by the proxy
+ *
+ * Clients that cannot set an Authorization header on the upgrade request
+ * may offer a second subprotocol holding their API key or token, prefixed
+ * with UPGRADE_AUTH_PROTOCOL_PREFIX. The server only ever selects this one.
+ */
+export const WS_SUBPROTOCOL = "lmstudio-proxy";
+
+export const UPGRADE_AUTH_PROTOCOL_PREFIX = `${WS_SUBPROTOCOL}.auth.`;
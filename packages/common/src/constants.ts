@@ -41,7 +41,10 @@ export const HTTP_STATUS = {
 	UNAUTHORIZED: 401,
 	FORBIDDEN: 403,
 	NOT_FOUND: 404,
+	CONFLICT: 409,
+	TOO_MANY_REQUESTS: 429,
 	INTERNAL_SERVER_ERROR: 500,
+	BAD_GATEWAY: 502,
 	SERVICE_UNAVAILABLE: 503,
 	GATEWAY_TIMEOUT: 504,
 };
@@ -52,8 +55,15 @@ export const HTTP_STATUS = {
 export enum ErrorCode {
 	AUTHENTICATION_FAILED = "authentication_failed",
 	INVALID_REQUEST = "invalid_request",
+	INVALID_MESSAGE = "invalid_message",
 	PROXY_UNAVAILABLE = "proxy_unavailable",
 	LM_STUDIO_UNAVAILABLE = "lm_studio_unavailable",
+	LM_STUDIO_ERROR = "lm_studio_error",
+	CLIENT_DISCONNECTED = "client_disconnected",
+	MODEL_NOT_FOUND = "model_not_found",
+	REQUEST_TIMEOUT = "request_timeout",
+	QUEUE_FULL = "queue_full",
+	QUEUE_TIMEOUT = "queue_timeout",
 	RATE_LIMIT_EXCEEDED = "rate_limit_exceeded",
 	INTERNAL_ERROR = "internal_error",
 }
@@ -79,6 +89,8 @@ export const ERROR_MESSAGES = {
 	INVALID_API_KEY: "Invalid API key",
 	NO_CLIENTS: "No available LM Studio clients",
 	REQUEST_TIMEOUT: "Request timeout",
+	CLIENT_DISCONNECTED: "LM Studio client disconnected before responding",
 	INVALID_REQUEST: "Invalid request format",
+	INVALID_MESSAGE: "Invalid message",
 	SERVER_ERROR: "Internal server error",
 };
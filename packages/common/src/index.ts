@@ -1,5 +1,9 @@
 // Export all types and utilities
 
+export * from "./auth";
 export * from "./constants";
+export * from "./logger";
+export * from "./protocol";
+export * from "./schemas";
 export * from "./types";
 export * from "./utils";
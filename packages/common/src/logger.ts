@@ -0,0 +1,291 @@
+import { API_KEY_PREFIX } from "./auth";
+import { MessageType } from "./types";
+
+/**
+ * Structured logging shared by the server and the client
+ *
+ * Every entry is one line, JSON by default, with the component that wrote
+ * it and any correlation fields such as `requestId` and `clientId` at the
+ * top level. Prompts, completions and credentials are redacted before they
+ * are written, wherever they appear in the logged fields.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFormat = "json" | "text";
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+	debug: 0,
+	info: 1,
+	warn: 2,
+	error: 3,
+};
+
+/**
+ * How loggers write and what they redact
+ */
+export interface LoggerOptions {
+	level: string;
+	format: LogFormat;
+	// Redact prompts, completions and embeddings input
+	redactContent: boolean;
+	// Redact API keys, tokens, signatures and authorization headers
+	redactSecrets: boolean;
+	// Further field names whose values are always redacted
+	redactFields: string[];
+	// Share of debug payload dumps that are written, from 0 to 1
+	payloadSampleRate: number;
+	// Fields added to every entry, such as the client ID
+	fields?: Record<string, unknown>;
+}
+
+export interface Logger {
+	debug(message: string, ...args: any[]): void;
+	info(message: string, ...args: any[]): void;
+	warn(message: string, ...args: any[]): void;
+	error(message: string, ...args: any[]): void;
+	/**
+	 * Dump a request or response body at debug level, for a sampled share
+	 * of calls only
+	 */
+	payload(message: string, fields: Record<string, unknown>): void;
+	/**
+	 * Create a logger that adds correlation fields to every entry
+	 */
+	child(fields: Record<string, unknown>): Logger;
+}
+
+const REDACTED = "[REDACTED]";
+
+// Fields holding what users sent to or got back from a model
+const CONTENT_FIELDS = new Set([
+	"messages",
+	"prompt",
+	"input",
+	"content",
+	"text",
+	"arguments",
+	"embedding",
+	"suffix",
+]);
+
+// Fields holding credentials
+const SECRET_FIELD_PATTERN =
+	/^(authorization|cookie|set-cookie|api[-_]?key|token|access[-_]?token|refresh[-_]?token|secret|password|signature)$/i;
+
+// Credentials embedded in free text
+const SECRET_VALUE_PATTERNS = [
+	new RegExp(`${API_KEY_PREFIX}_[0-9a-f]+_[A-Za-z0-9_-]+`, "g"),
+	/eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+	/Bearer\s+[^\s"',]+/gi,
+];
+
+// Deepest nesting written before values are cut off
+const MAX_DEPTH = 8;
+
+/**
+ * Parse a log format setting, falling back to JSON
+ */
+export function parseLogFormat(value: string | undefined): LogFormat {
+	return value === "text" ? "text" : "json";
+}
+
+/**
+ * Replace credentials found in a string
+ */
+export function redactSecrets(value: string): string {
+	return SECRET_VALUE_PATTERNS.reduce(
+		(redacted, pattern) => redacted.replace(pattern, REDACTED),
+		value,
+	);
+}
+
+/**
+ * Copy a logged value into something JSON can write, redacting as configured
+ */
+function sanitize(
+	value: unknown,
+	options: LoggerOptions,
+	seen: WeakSet<object>,
+	depth: number,
+): unknown {
+	if (typeof value === "string") {
+		return options.redactSecrets ? redactSecrets(value) : value;
+	}
+
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+
+	if (value === null || typeof value !== "object") {
+		return typeof value === "function" ? undefined : value;
+	}
+
+	if (seen.has(value)) {
+		return "[Circular]";
+	}
+
+	if (depth >= MAX_DEPTH) {
+		return "[Truncated]";
+	}
+
+	// Errors carry their message and code only, never request configs or bodies
+	if (value instanceof Error) {
+		const { code, status } = value as Error & {
+			code?: unknown;
+			status?: unknown;
+		};
+		return sanitize(
+			{ name: value.name, message: value.message, code, status },
+			options,
+			seen,
+			depth,
+		);
+	}
+
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+
+	seen.add(value);
+
+	if (Array.isArray(value)) {
+		return value.map((item) => sanitize(item, options, seen, depth + 1));
+	}
+
+	const copy: Record<string, unknown> = {};
+	for (const [key, field] of Object.entries(value)) {
+		copy[key] =
+			isRedactedField(key, options) || isStreamChunkText(value, key, options)
+				? REDACTED
+				: sanitize(field, options, seen, depth + 1);
+	}
+	return copy;
+}
+
+/**
+ * Whether a field is the raw SSE text of a stream chunk, which holds
+ * completions under no field name of its own
+ */
+function isStreamChunkText(
+	value: object,
+	key: string,
+	options: LoggerOptions,
+): boolean {
+	return (
+		options.redactContent &&
+		key === "data" &&
+		(value as { type?: unknown }).type === MessageType.STREAM_CHUNK
+	);
+}
+
+function isRedactedField(key: string, options: LoggerOptions): boolean {
+	return (
+		(options.redactContent && CONTENT_FIELDS.has(key)) ||
+		(options.redactSecrets && SECRET_FIELD_PATTERN.test(key)) ||
+		options.redactFields.includes(key)
+	);
+}
+
+/**
+ * Turn the arguments of a log call into fields
+ *
+ * A single plain object is merged into the entry, so the correlation fields
+ * it holds land at the top level. Errors are logged as `error`, anything
+ * else as `args`.
+ */
+function toFields(args: unknown[]): Record<string, unknown> {
+	if (args.length === 0) {
+		return {};
+	}
+
+	const [first] = args;
+	if (args.length === 1) {
+		if (first instanceof Error) {
+			return { error: first };
+		}
+		if (first !== null && typeof first === "object" && !Array.isArray(first)) {
+			return first as Record<string, unknown>;
+		}
+	}
+
+	return { args };
+}
+
+/**
+ * Create a logger for a component
+ */
+export function createLogger(
+	component: string,
+	options: LoggerOptions,
+): Logger {
+	const threshold =
+		LOG_LEVELS[options.level.toLowerCase() as LogLevel] ?? LOG_LEVELS.info;
+
+	function write(
+		level: LogLevel,
+		message: string,
+		fields: Record<string, unknown>,
+	): void {
+		if (LOG_LEVELS[level] < threshold) {
+			return;
+		}
+
+		const sanitized = sanitize(
+			{ ...options.fields, ...fields },
+			options,
+			new WeakSet(),
+			0,
+		) as Record<string, unknown>;
+		const text = options.redactSecrets ? redactSecrets(message) : message;
+		const timestamp = new Date().toISOString();
+
+		let line: string;
+		if (options.format === "json") {
+			// Fields never replace the entry's own, callers often log a timestamp
+			const entry: Record<string, unknown> = {
+				timestamp,
+				level,
+				component,
+				message: text,
+			};
+			for (const [key, value] of Object.entries(sanitized)) {
+				if (!(key in entry)) {
+					entry[key] = value;
+				}
+			}
+			line = JSON.stringify(entry);
+		} else {
+			const rest =
+				Object.keys(sanitized).length > 0
+					? ` ${JSON.stringify(sanitized)}`
+					: "";
+			line = `[${timestamp}] [${level.toUpperCase()}] [${component}] ${text}${rest}`;
+		}
+
+		// eslint-disable-next-line no-console
+		console[level === "error" ? "error" : level === "warn" ? "warn" : "log"](
+			line,
+		);
+	}
+
+	return {
+		debug: (message, ...args) => write("debug", message, toFields(args)),
+		info: (message, ...args) => write("info", message, toFields(args)),
+		warn: (message, ...args) => write("warn", message, toFields(args)),
+		error: (message, ...args) => write("error", message, toFields(args)),
+		payload: (message, fields) => {
+			if (
+				LOG_LEVELS.debug >= threshold &&
+				Math.random() < options.payloadSampleRate
+			) {
+				write("debug", message, fields);
+			}
+		},
+		child: (fields) =>
+			createLogger(component, {
+				...options,
+				fields: { ...options.fields, ...fields },
+			}),
+	};
+}
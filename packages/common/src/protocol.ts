@@ -0,0 +1,111 @@
+/**
+ * Protocol versioning and capability negotiation
+ *
+ * Clients announce the protocol versions and capabilities they support in
+ * their AUTH message. The server answers with the negotiated version and the
+ * capabilities both sides understand, and each side only uses behaviour that
+ * made it into the negotiated set.
+ */
+
+/**
+ * Optional protocol features
+ */
+export enum Capability {
+	STREAMING = "streaming",
+	CANCELLATION = "cancellation",
+	BINARY_FRAMES = "binary_frames",
+	MODEL_REPORTING = "model_reporting",
+	DRAINING = "draining",
+}
+
+/**
+ * Protocol version spoken by this build
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Oldest protocol version this build can still talk to
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Version assumed for peers that predate protocol negotiation
+ */
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+/**
+ * Capabilities assumed for peers that predate protocol negotiation
+ */
+export const LEGACY_CAPABILITIES: Capability[] = [Capability.STREAMING];
+
+/**
+ * What one side of the connection supports
+ */
+export interface ProtocolSupport {
+	minProtocolVersion: number;
+	protocolVersion: number;
+	capabilities: readonly string[];
+}
+
+/**
+ * Outcome of protocol negotiation
+ */
+export type NegotiationResult =
+	| { success: true; protocolVersion: number; capabilities: Capability[] }
+	| { success: false; reason: string };
+
+/**
+ * Check whether a string is a capability known to this build
+ */
+export function isCapability(value: string): value is Capability {
+	return (Object.values(Capability) as string[]).includes(value);
+}
+
+/**
+ * Negotiate the protocol version and capability set for a connection
+ * @param offer What the remote peer announced
+ * @param local What this side supports
+ * @param required Capabilities this side refuses to work without
+ * @returns The highest common version and the shared capabilities, or the reason they are incompatible
+ */
+export function negotiateProtocol(
+	offer: ProtocolSupport,
+	local: ProtocolSupport,
+	required: readonly Capability[] = [],
+): NegotiationResult {
+	const protocolVersion = Math.min(
+		offer.protocolVersion,
+		local.protocolVersion,
+	);
+
+	if (protocolVersion < local.minProtocolVersion) {
+		return {
+			success: false,
+			reason: `Protocol version ${offer.protocolVersion} is no longer supported (minimum ${local.minProtocolVersion}), please upgrade the client`,
+		};
+	}
+
+	if (protocolVersion < offer.minProtocolVersion) {
+		return {
+			success: false,
+			reason: `Protocol version ${offer.minProtocolVersion} or newer is required but only ${local.protocolVersion} is supported, please upgrade the server`,
+		};
+	}
+
+	const capabilities = offer.capabilities.filter(
+		(capability): capability is Capability =>
+			isCapability(capability) && local.capabilities.includes(capability),
+	);
+
+	const missing = required.filter(
+		(capability) => !capabilities.includes(capability),
+	);
+	if (missing.length > 0) {
+		return {
+			success: false,
+			reason: `Missing required capabilities: ${missing.join(", ")}`,
+		};
+	}
+
+	return { success: true, protocolVersion, capabilities };
+}
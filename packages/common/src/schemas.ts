@@ -0,0 +1,348 @@
+import { z } from "zod";
+import { ErrorCode } from "./constants";
+import { type ClientMessage, MessageType, type ServerMessage } from "./types";
+
+/**
+ * Runtime schemas for the WebSocket protocol.
+ *
+ * Every frame exchanged between the server and an LM Studio client is
+ * validated against these schemas before it reaches any handler, so that
+ * half-formed objects are rejected at the edge instead of deep inside the
+ * controllers.
+ */
+
+const requestIdSchema = z.string().min(1);
+
+const baseFields = {
+	timestamp: z.number().optional(),
+	requestId: requestIdSchema.optional(),
+};
+
+// W3C trace context, see https://www.w3.org/TR/trace-context/
+const traceparentSchema = z
+	.string()
+	.regex(/^[0-9a-f]{2}-[0-9a-f]{32}-[0-9a-f]{16}-[0-9a-f]{2}$/);
+const tracestateSchema = z.string().max(512);
+
+const protocolVersionSchema = z.number().int().positive();
+
+// Capabilities unknown to this build are tolerated and ignored during negotiation
+const capabilitiesSchema = z.array(z.string());
+
+// Errors are reported either as a plain message or as an object carrying one
+const errorPayloadSchema = z.union([
+	z.string(),
+	z.looseObject({
+		message: z.string(),
+		code: z.enum(ErrorCode).optional(),
+		status: z.number().int().optional(),
+	}),
+]);
+
+// OpenAI-compatible response bodies, validated only as far as the proxy relies on them
+const completionBodySchema = z.looseObject({ choices: z.array(z.unknown()) });
+const listBodySchema = z.looseObject({ data: z.array(z.unknown()) });
+
+function responseSchema<
+	T extends
+		| MessageType.CHAT_RESPONSE
+		| MessageType.COMPLETION_RESPONSE
+		| MessageType.EMBEDDINGS_RESPONSE
+		| MessageType.MODELS_RESPONSE,
+>(type: T, bodySchema: z.ZodType) {
+	return z
+		.object({
+			...baseFields,
+			type: z.literal(type),
+			requestId: requestIdSchema,
+			data: bodySchema.optional(),
+			error: errorPayloadSchema.optional(),
+			stream: z.boolean().optional(),
+		})
+		.refine((message) => message.data !== undefined || message.error, {
+			message: "Response must carry either data or error",
+			path: ["data"],
+		});
+}
+
+function requestSchema<
+	T extends
+		| MessageType.CHAT_REQUEST
+		| MessageType.COMPLETION_REQUEST
+		| MessageType.EMBEDDINGS_REQUEST
+		| MessageType.MODELS_REQUEST,
+>(type: T) {
+	return z.object({
+		...baseFields,
+		type: z.literal(type),
+		requestId: requestIdSchema,
+		stream: z.boolean().optional(),
+		data: z.record(z.string(), z.unknown()).optional(),
+		traceparent: traceparentSchema.optional(),
+		tracestate: tracestateSchema.optional(),
+	});
+}
+
+export const authChallengeMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.AUTH_CHALLENGE),
+	nonce: z.string().min(1),
+});
+
+export const authMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.AUTH),
+	keyId: z.string().min(1).optional(),
+	signature: z
+		.string()
+		.regex(/^[0-9a-f]{64}$/)
+		.optional(),
+	apiKey: z.string().optional(),
+	clientId: z.string().min(1),
+	protocolVersion: protocolVersionSchema.optional(),
+	minProtocolVersion: protocolVersionSchema.optional(),
+	capabilities: capabilitiesSchema.optional(),
+	capacity: z.number().positive().optional(),
+	maxConcurrency: z.number().int().positive().optional(),
+});
+
+export const authResultMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.AUTH_RESULT),
+	success: z.boolean(),
+	token: z.string().optional(),
+	error: z.string().optional(),
+	protocolVersion: protocolVersionSchema.optional(),
+	capabilities: capabilitiesSchema.optional(),
+});
+
+export const pingMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.PING),
+});
+
+export const pongMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.PONG),
+});
+
+export const chatRequestMessageSchema = requestSchema(MessageType.CHAT_REQUEST);
+export const completionRequestMessageSchema = requestSchema(
+	MessageType.COMPLETION_REQUEST,
+);
+export const embeddingsRequestMessageSchema = requestSchema(
+	MessageType.EMBEDDINGS_REQUEST,
+);
+export const modelsRequestMessageSchema = requestSchema(
+	MessageType.MODELS_REQUEST,
+);
+
+export const cancelRequestMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.CANCEL_REQUEST),
+	requestId: requestIdSchema,
+});
+
+export const cancelAckMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.CANCEL_ACK),
+	requestId: requestIdSchema,
+	cancelled: z.boolean(),
+});
+
+export const chatResponseMessageSchema = responseSchema(
+	MessageType.CHAT_RESPONSE,
+	completionBodySchema,
+);
+export const completionResponseMessageSchema = responseSchema(
+	MessageType.COMPLETION_RESPONSE,
+	completionBodySchema,
+);
+export const embeddingsResponseMessageSchema = responseSchema(
+	MessageType.EMBEDDINGS_RESPONSE,
+	listBodySchema,
+);
+export const modelsResponseMessageSchema = responseSchema(
+	MessageType.MODELS_RESPONSE,
+	listBodySchema,
+);
+
+export const modelsUpdateMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.MODELS_UPDATE),
+	models: z.array(
+		z.object({
+			id: z.string().min(1),
+			loaded: z.boolean().optional(),
+		}),
+	),
+});
+
+export const drainingMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.DRAINING),
+});
+
+export const errorMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.ERROR),
+	error: z.string(),
+	code: z.enum(ErrorCode).optional(),
+	field: z.string().optional(),
+});
+
+export const errorResponseMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.ERROR_RESPONSE),
+	requestId: requestIdSchema,
+	error: errorPayloadSchema,
+});
+
+export const streamChunkMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.STREAM_CHUNK),
+	requestId: requestIdSchema,
+	data: z.string(),
+});
+
+export const streamEndMessageSchema = z.object({
+	...baseFields,
+	type: z.literal(MessageType.STREAM_END),
+	requestId: requestIdSchema,
+});
+
+/**
+ * Messages an LM Studio client may send to the server
+ */
+export const clientMessageSchema = z.discriminatedUnion("type", [
+	authMessageSchema,
+	pingMessageSchema,
+	pongMessageSchema,
+	chatResponseMessageSchema,
+	completionResponseMessageSchema,
+	embeddingsResponseMessageSchema,
+	modelsResponseMessageSchema,
+	errorResponseMessageSchema,
+	streamChunkMessageSchema,
+	streamEndMessageSchema,
+	cancelAckMessageSchema,
+	modelsUpdateMessageSchema,
+	drainingMessageSchema,
+	errorMessageSchema,
+]);
+
+/**
+ * Messages the server may send to an LM Studio client
+ */
+export const serverMessageSchema = z.discriminatedUnion("type", [
+	authChallengeMessageSchema,
+	authResultMessageSchema,
+	pingMessageSchema,
+	pongMessageSchema,
+	chatRequestMessageSchema,
+	completionRequestMessageSchema,
+	embeddingsRequestMessageSchema,
+	modelsRequestMessageSchema,
+	cancelRequestMessageSchema,
+	errorMessageSchema,
+	streamChunkMessageSchema,
+	streamEndMessageSchema,
+]);
+
+/**
+ * Result of validating a raw WebSocket frame
+ */
+export type MessageParseResult<T> =
+	| { success: true; message: T }
+	| {
+			success: false;
+			error: string;
+			code: ErrorCode;
+			field?: string;
+			requestId?: string;
+	  };
+
+/**
+ * Validate a raw frame against a protocol schema
+ * @param data Raw frame contents (JSON text or an already parsed value)
+ * @param schema Schema to validate against
+ * @returns The typed message, or an error naming the offending field
+ */
+function parseMessage<T>(
+	data: unknown,
+	schema: z.ZodType,
+): MessageParseResult<T> {
+	let value = data;
+
+	if (typeof data === "string") {
+		try {
+			value = JSON.parse(data);
+		} catch {
+			return {
+				success: false,
+				error: "Malformed JSON",
+				code: ErrorCode.INVALID_MESSAGE,
+			};
+		}
+	}
+
+	const result = schema.safeParse(value);
+	if (result.success) {
+		return { success: true, message: result.data as T };
+	}
+
+	// Keep the requestId when it is usable so the peer can correlate the error
+	const requestId =
+		value !== null &&
+		typeof value === "object" &&
+		"requestId" in value &&
+		typeof value.requestId === "string"
+			? value.requestId
+			: undefined;
+
+	const [issue] = result.error.issues;
+	const field = issue.path.length > 0 ? issue.path.join(".") : undefined;
+	const isUnknownType =
+		field === "type" && issue.code === "invalid_union" && "note" in issue;
+
+	let error: string;
+	if (isUnknownType) {
+		const type =
+			value !== null && typeof value === "object" && "type" in value
+				? String(value.type)
+				: undefined;
+		error = type
+			? `Unknown message type: ${type}`
+			: "Invalid message format: missing type";
+	} else {
+		error = field
+			? `Invalid message: ${field}: ${issue.message}`
+			: `Invalid message: ${issue.message}`;
+	}
+
+	return {
+		success: false,
+		error,
+		code: ErrorCode.INVALID_MESSAGE,
+		field,
+		requestId,
+	};
+}
+
+/**
+ * Validate a frame received from an LM Studio client
+ */
+export function parseClientMessage(
+	data: unknown,
+): MessageParseResult<ClientMessage> {
+	return parseMessage<ClientMessage>(data, clientMessageSchema);
+}
+
+/**
+ * Validate a frame received from the server
+ */
+export function parseServerMessage(
+	data: unknown,
+): MessageParseResult<ServerMessage> {
+	return parseMessage<ServerMessage>(data, serverMessageSchema);
+}
@@ -1,3 +1,5 @@
+import type { ErrorCode } from "./constants";
+
 // LM Studio API compatible types
 
 /**
@@ -78,6 +80,7 @@ export interface EmbeddingRequest {
 // Message types for WebSocket communication
 export enum MessageType {
 	// Authentication
+	AUTH_CHALLENGE = "auth_challenge",
 	AUTH = "auth",
 	AUTH_RESULT = "auth_result",
 	REGISTER = "register",
@@ -92,6 +95,11 @@ export enum MessageType {
 	EMBEDDINGS_REQUEST = "embeddings_request",
 	MODELS_REQUEST = "models_request",
 	CANCEL_REQUEST = "cancel_request",
+	CANCEL_ACK = "cancel_ack",
+
+	// Client state
+	MODELS_UPDATE = "models_update",
+	DRAINING = "draining",
 
 	// API responses
 	CHAT_RESPONSE = "chat_response",
@@ -115,10 +123,28 @@ export interface BaseMessage {
 }
 
 // Authentication messages
+export interface AuthChallengeMessage extends BaseMessage {
+	type: MessageType.AUTH_CHALLENGE;
+	// Single-use value the client signs to prove it holds its key
+	nonce: string;
+}
+
 export interface AuthMessage extends BaseMessage {
 	type: MessageType.AUTH;
-	apiKey: string;
+	// Challenge-response credentials, see signAuthChallenge
+	keyId?: string;
+	signature?: string;
+	// Plaintext key, only accepted when the server allows it
+	apiKey?: string;
 	clientId: string;
+	// Protocol negotiation, absent for clients that predate it
+	protocolVersion?: number;
+	minProtocolVersion?: number;
+	capabilities?: string[];
+	// Relative share of traffic the client can take, defaults to 1
+	capacity?: number;
+	// Most requests the client wants to work on at once
+	maxConcurrency?: number;
 }
 
 export interface AuthResultMessage extends BaseMessage {
@@ -126,6 +152,9 @@ export interface AuthResultMessage extends BaseMessage {
 	success: boolean;
 	token?: string;
 	error?: string;
+	// Negotiated protocol version and shared capabilities
+	protocolVersion?: number;
+	capabilities?: string[];
 }
 
 // Request messages
@@ -133,6 +162,9 @@ export interface RequestMessage extends BaseMessage {
 	requestId: string;
 	stream?: boolean;
 	data?: any;
+	// W3C trace context of the server span that dispatched the request
+	traceparent?: string;
+	tracestate?: string;
 }
 
 // Chat request message
@@ -161,6 +193,14 @@ export interface CancelRequestMessage extends BaseMessage {
 	requestId: string;
 }
 
+// Cancel acknowledgement, sent once the client has stopped working on a request
+export interface CancelAckMessage extends BaseMessage {
+	type: MessageType.CANCEL_ACK;
+	requestId: string;
+	// False when the request was unknown or had already finished
+	cancelled: boolean;
+}
+
 // Response messages
 export interface ResponseMessage extends BaseMessage {
 	requestId: string;
@@ -189,17 +229,57 @@ export interface ModelsResponseMessage extends ResponseMessage {
 	type: MessageType.MODELS_RESPONSE;
 }
 
+// A model a client can serve
+export interface ReportedModel {
+	id: string;
+	// Whether LM Studio currently holds the model in memory, when it says so
+	loaded?: boolean;
+}
+
+// Models update message, sent on connect and whenever LM Studio's list changes
+export interface ModelsUpdateMessage extends BaseMessage {
+	type: MessageType.MODELS_UPDATE;
+	models: ReportedModel[];
+}
+
+// Draining notice, sent by a client that is shutting down and only
+// finishes the requests it already has
+export interface DrainingMessage extends BaseMessage {
+	type: MessageType.DRAINING;
+}
+
+// Connection health messages
+export interface PingMessage extends BaseMessage {
+	type: MessageType.PING;
+}
+
+export interface PongMessage extends BaseMessage {
+	type: MessageType.PONG;
+}
+
 // Error message
 export interface ErrorMessage extends BaseMessage {
 	type: MessageType.ERROR;
 	error: string;
+	code?: ErrorCode;
+	// Offending field when a frame failed protocol validation
+	field?: string;
+}
+
+// Error details reported by a client for a failed request
+export interface ErrorPayload {
+	message: string;
+	code?: ErrorCode;
+	// HTTP status returned by LM Studio, when it answered at all
+	status?: number;
 }
 
 // Error response message
 export interface ErrorResponseMessage extends BaseMessage {
 	type: MessageType.ERROR_RESPONSE;
 	requestId: string;
-	error: any;
+	// Plain strings are sent by clients that predate structured errors
+	error: string | ErrorPayload;
 }
 
 // Streaming messages
@@ -217,6 +297,8 @@ export interface StreamEndMessage extends BaseMessage {
 // Union types for client and server messages
 export type ClientMessage =
 	| AuthMessage
+	| PingMessage
+	| PongMessage
 	| ChatResponseMessage
 	| CompletionResponseMessage
 	| EmbeddingsResponseMessage
@@ -224,10 +306,16 @@ export type ClientMessage =
 	| ErrorResponseMessage
 	| StreamChunkMessage
 	| StreamEndMessage
-	| BaseMessage;
+	| CancelAckMessage
+	| ModelsUpdateMessage
+	| DrainingMessage
+	| ErrorMessage;
 
 export type ServerMessage =
+	| AuthChallengeMessage
 	| AuthResultMessage
+	| PingMessage
+	| PongMessage
 	| ChatRequestMessage
 	| CompletionRequestMessage
 	| EmbeddingsRequestMessage
@@ -235,5 +323,4 @@ export type ServerMessage =
 	| CancelRequestMessage
 	| ErrorMessage
 	| StreamChunkMessage
-	| StreamEndMessage
-	| BaseMessage;
+	| StreamEndMessage;
@@ -0,0 +1,218 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Set environment variables BEFORE importing modules that use config
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "admin-clients-"));
+process.env.API_KEY = "test-api-key";
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.WS_PATH = "/ws";
+process.env.KEY_STORE_PATH = path.join(dataDir, "api-keys.json");
+process.env.AUDIT_LOG_PATH = path.join(dataDir, "audit.log");
+process.env.USAGE_LOG_PATH = path.join(dataDir, "usage.log");
+
+import { MessageType } from "@lmstudio-proxy/common";
+import request from "supertest";
+import type WebSocket from "ws";
+import { auditLog } from "../auth/audit-log";
+import {
+	connectTestClient,
+	startTestServer,
+	TEST_API_KEY,
+	type TestServer,
+} from "./helpers/test-server";
+
+describe("Admin clients", () => {
+	let server: TestServer;
+	let clientSocket: WebSocket;
+	const port = 9006;
+	const clientId = "admin-test-client";
+	// Request IDs the client received and never answered
+	const received: string[] = [];
+
+	beforeAll(async () => {
+		server = await startTestServer(port);
+		clientSocket = await connectClient(clientId, (requestId) =>
+			received.push(requestId),
+		);
+	});
+
+	afterAll(async () => {
+		fs.rmSync(dataDir, { recursive: true, force: true });
+		clientSocket.close();
+		await server.close();
+	});
+
+	// Connect a client that reports the requests it receives without
+	// answering them
+	async function connectClient(
+		id: string,
+		onRequest: (requestId: string) => void = () => {},
+	): Promise<WebSocket> {
+		const { socket } = await connectTestClient(port, id);
+
+		socket.on("message", (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+			if (message.type === MessageType.CHAT_REQUEST) {
+				onRequest(message.requestId);
+			}
+		});
+
+		return socket;
+	}
+
+	function admin(method: "get" | "post", url: string) {
+		return request(server.app)
+			[method](url)
+			.set("Authorization", `Bearer ${TEST_API_KEY}`);
+	}
+
+	function chat() {
+		return request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${TEST_API_KEY}`)
+			.send({ model: "test-model", messages: [] });
+	}
+
+	it("should drain and disconnect a client while showing its pending requests", async () => {
+		// Left unanswered until the client is disconnected
+		const pending = chat().then((response) => response);
+		while (received.length === 0) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+		}
+
+		const listed = await admin("get", "/admin/clients");
+		expect(listed.body.clients).toEqual([
+			expect.objectContaining({
+				clientId,
+				remoteAddress: expect.any(String),
+				connectedAt: expect.any(String),
+				draining: false,
+				inFlight: 1,
+				errorRate: 0,
+			}),
+		]);
+
+		const requests = await admin("get", "/admin/requests");
+		expect(requests.body.requests).toEqual([
+			expect.objectContaining({
+				requestId: received[0],
+				type: "chat",
+				stream: false,
+				clientId,
+				ageMs: expect.any(Number),
+			}),
+		]);
+
+		// Draining clients keep their requests but get no new ones
+		const drained = await admin("post", `/admin/clients/${clientId}/drain`);
+		expect(drained.status).toBe(200);
+		expect(drained.body).toMatchObject({ draining: true, inFlight: 1 });
+		expect((await chat()).status).toBe(503);
+
+		const closed = new Promise<number>((resolve) =>
+			clientSocket.once("close", (code) => resolve(code)),
+		);
+		const disconnected = await admin(
+			"post",
+			`/admin/clients/${clientId}/disconnect`,
+		);
+		expect(disconnected.status).toBe(200);
+		expect(await closed).toBe(1000);
+		expect((await pending).status).toBe(502);
+
+		expect(
+			(await auditLog.read(10)).map((entry) => entry.action).reverse(),
+		).toEqual(["client.drained", "client.disconnected"]);
+	});
+
+	it("should stop routing to a client that announces it is draining", async () => {
+		const socket = await connectClient("self-draining-client");
+		socket.send(
+			JSON.stringify({ type: MessageType.DRAINING, timestamp: Date.now() }),
+		);
+
+		let clients: { clientId: string; draining: boolean }[] = [];
+		while (!clients.some((client) => client.draining)) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			clients = (await admin("get", "/admin/clients")).body.clients;
+		}
+		expect(clients).toEqual([
+			expect.objectContaining({
+				clientId: "self-draining-client",
+				draining: true,
+			}),
+		]);
+		expect((await chat()).status).toBe(503);
+
+		socket.close();
+	});
+
+	it("should disconnect the clients of a key when it is revoked", async () => {
+		const created = await request(server.app)
+			.post("/admin/keys")
+			.set("Authorization", `Bearer ${TEST_API_KEY}`)
+			.send({ name: "backend", scopes: ["client:register"] });
+		const { socket } = await connectTestClient(
+			port,
+			"revoked-client",
+			created.body.key,
+		);
+		const closed = new Promise<number>((resolve) =>
+			socket.once("close", (code) => resolve(code)),
+		);
+
+		const revoked = await admin(
+			"post",
+			`/admin/keys/${created.body.id}/revoke`,
+		);
+
+		expect(revoked.status).toBe(200);
+		expect(await closed).toBe(1008);
+		expect(await auditLog.read(1, created.body.id)).toEqual([
+			expect.objectContaining({
+				action: "client.disconnected",
+				keyId: created.body.id,
+				details: { clientId: "revoked-client", reason: "API key revoked" },
+			}),
+		]);
+	});
+
+	it("should disconnect the clients of a key moved to another tenant", async () => {
+		const created = await request(server.app)
+			.post("/admin/keys")
+			.set("Authorization", `Bearer ${TEST_API_KEY}`)
+			.send({ name: "team-a", scopes: ["client:register"], tenant: "team-a" });
+		const { socket } = await connectTestClient(
+			port,
+			"team-a-client",
+			created.body.key,
+		);
+		const closed = new Promise<number>((resolve) =>
+			socket.once("close", (code) => resolve(code)),
+		);
+
+		const moved = await request(server.app)
+			.patch(`/admin/keys/${created.body.id}`)
+			.set("Authorization", `Bearer ${TEST_API_KEY}`)
+			.send({ tenant: "team-b" });
+
+		expect(moved.status).toBe(200);
+		expect(await closed).toBe(1008);
+		expect(await auditLog.read(1, created.body.id)).toEqual([
+			expect.objectContaining({
+				action: "client.disconnected",
+				details: {
+					clientId: "team-a-client",
+					reason: "API key moved to another tenant",
+				},
+			}),
+		]);
+	});
+
+	it("should return 404 for clients that are not connected", async () => {
+		const response = await admin("post", "/admin/clients/unknown/drain");
+
+		expect(response.status).toBe(404);
+	});
+});
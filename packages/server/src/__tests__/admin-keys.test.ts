@@ -0,0 +1,162 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Set environment variables BEFORE importing modules that use config
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "admin-keys-"));
+const adminKey = "test-admin-key";
+process.env.API_KEY = adminKey;
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.KEY_STORE_PATH = path.join(dataDir, "api-keys.json");
+process.env.AUDIT_LOG_PATH = path.join(dataDir, "audit.log");
+
+import express from "express";
+import request from "supertest";
+import { adminRouter } from "../admin";
+import { errorHandler } from "../middleware/error-handler";
+
+describe("Admin API keys", () => {
+	const app = express();
+	app.use(express.json());
+	app.use("/admin", adminRouter);
+	app.use(errorHandler);
+
+	function createKey(scopes: string[]) {
+		return request(app)
+			.post("/admin/keys")
+			.set("Authorization", `Bearer ${adminKey}`)
+			.send({ name: "test", scopes });
+	}
+
+	afterAll(() => {
+		fs.rmSync(dataDir, { recursive: true, force: true });
+	});
+
+	it("should show a created key once and never its hash", async () => {
+		const created = await createKey(["admin"]);
+
+		expect(created.status).toBe(201);
+		expect(created.body.key).toMatch(/^lmsp_/);
+		expect(created.body.secretHash).toBeUndefined();
+
+		const listed = await request(app)
+			.get("/admin/keys")
+			.set("Authorization", `Bearer ${created.body.key}`);
+
+		expect(listed.status).toBe(200);
+		const view = listed.body.keys.find(
+			(key: { id: string }) => key.id === created.body.id,
+		);
+		expect(view).toEqual(expect.objectContaining({ active: true }));
+		expect(view.key).toBeUndefined();
+		expect(view.secretHash).toBeUndefined();
+	});
+
+	it("should keep keys without the admin scope out", async () => {
+		const created = await createKey(["inference"]);
+
+		const response = await request(app)
+			.get("/admin/keys")
+			.set("Authorization", `Bearer ${created.body.key}`);
+
+		expect(response.status).toBe(403);
+	});
+
+	it("should reject invalid scopes", async () => {
+		const response = await createKey(["everything"]);
+
+		expect(response.status).toBe(400);
+		expect(response.body.error.type).toBe("invalid_request_error");
+	});
+
+	it("should annotate keys", async () => {
+		const created = await createKey(["inference"]);
+
+		const response = await request(app)
+			.patch(`/admin/keys/${created.body.id}`)
+			.set("Authorization", `Bearer ${adminKey}`)
+			.send({ description: "Used by the docs site" });
+
+		expect(response.status).toBe(200);
+		expect(response.body.description).toBe("Used by the docs site");
+		expect(response.body.scopes).toEqual(["inference"]);
+	});
+
+	it("should assign keys to tenants", async () => {
+		const created = await createKey(["client:register"]);
+		expect(created.body.tenant).toBeNull();
+
+		const moved = await request(app)
+			.patch(`/admin/keys/${created.body.id}`)
+			.set("Authorization", `Bearer ${adminKey}`)
+			.send({ tenant: "team-a" });
+		expect(moved.body.tenant).toBe("team-a");
+
+		const invalid = await request(app)
+			.patch(`/admin/keys/${created.body.id}`)
+			.set("Authorization", `Bearer ${adminKey}`)
+			.send({ tenant: "team a" });
+		expect(invalid.status).toBe(400);
+	});
+
+	it("should replace the secret when rotating", async () => {
+		const created = await createKey(["admin"]);
+
+		const rotated = await request(app)
+			.post(`/admin/keys/${created.body.id}/rotate`)
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(rotated.status).toBe(200);
+		expect(rotated.body.key).not.toBe(created.body.key);
+
+		const oldKey = await request(app)
+			.get("/admin/keys")
+			.set("Authorization", `Bearer ${created.body.key}`);
+		const newKey = await request(app)
+			.get("/admin/keys")
+			.set("Authorization", `Bearer ${rotated.body.key}`);
+
+		expect(oldKey.status).toBe(401);
+		expect(newKey.status).toBe(200);
+	});
+
+	it("should revoke keys and record every change in the audit trail", async () => {
+		const created = await createKey(["admin"]);
+
+		const revoked = await request(app)
+			.post(`/admin/keys/${created.body.id}/revoke`)
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(revoked.status).toBe(200);
+		expect(revoked.body.active).toBe(false);
+
+		const rejected = await request(app)
+			.get("/admin/keys")
+			.set("Authorization", `Bearer ${created.body.key}`);
+		expect(rejected.status).toBe(401);
+
+		const audit = await request(app)
+			.get(`/admin/audit?keyId=${created.body.id}`)
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(
+			audit.body.entries.map((entry: { action: string }) => entry.action),
+		).toEqual(["key.revoked", "key.created"]);
+		expect(audit.body.entries[0].actor).toBe("bootstrap");
+	});
+
+	it("should skip a line of the audit trail cut short by a crash", async () => {
+		await createKey(["inference"]);
+		await request(app)
+			.get("/admin/audit")
+			.set("Authorization", `Bearer ${adminKey}`);
+		fs.appendFileSync(process.env.AUDIT_LOG_PATH as string, '{"timestamp":"20');
+
+		const audit = await request(app)
+			.get("/admin/audit")
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(audit.status).toBe(200);
+		expect(audit.body.entries[0].action).toBe("key.created");
+	});
+});
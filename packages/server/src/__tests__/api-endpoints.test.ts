@@ -1,110 +1,49 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
 // Set environment variables BEFORE importing modules that use config
-const testApiKey = "test-api-key";
-process.env.API_KEY = testApiKey;
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "api-endpoints-"));
+process.env.API_KEY = "test-api-key";
 process.env.JWT_SECRET = "test-jwt-secret";
 process.env.WS_PATH = "/ws";
+process.env.USAGE_LOG_PATH = path.join(dataDir, "usage.log");
 
-import http from "node:http";
 import { MessageType } from "@lmstudio-proxy/common";
-import express from "express";
+import jwt from "jsonwebtoken";
 import request from "supertest";
-import WebSocket from "ws";
-import { apiRouter } from "../api";
-import { errorHandler } from "../middleware/error-handler";
-import { setupWebSocketServer } from "../websocket/server";
+import type WebSocket from "ws";
+import { usageStore } from "../quota/usage-store";
+import {
+	closeTestClients,
+	connectTestClient,
+	startTestServer,
+	type TestServer,
+} from "./helpers/test-server";
 
 describe("API Endpoints", () => {
-	let server: http.Server;
-	let app: express.Express;
-	let wss: WebSocket.Server;
+	let server: TestServer;
 	let clientSocket: WebSocket;
 	const port = 9001;
-	const wsServerUrl = `ws://localhost:${port}/ws`;
 	const testClientId = "test-client-123";
 	let authToken: string;
 
-	beforeAll((done) => {
-		// Create Express app
-		app = express();
-
-		// Apply middleware
-		app.use(express.json());
-
-		// Routes
-		app.use("/v1", apiRouter);
-
-		// Error handler
-		app.use(errorHandler);
+	beforeAll(async () => {
+		server = await startTestServer(port);
 
-		// Create HTTP server
-		server = http.createServer(app);
-
-		// Setup WebSocket server
-		wss = setupWebSocketServer(server);
-
-		// Start server
-		server.listen(port, () => {
-			console.log(`Test server running on port ${port}`);
-
-			// Connect and authenticate test client
-			connectTestClient((error) => {
-				if (error) {
-					done(error);
-					return;
-				}
-				done();
-			});
-		});
+		// Connect and authenticate test client
+		({ socket: clientSocket, token: authToken } = await connectTestClient(
+			port,
+			testClientId,
+		));
 	});
 
-	afterAll((done) => {
-		if (clientSocket && clientSocket.readyState === WebSocket.OPEN) {
-			clientSocket.close();
-		}
-
-		wss.close(() => {
-			server.close(done);
-		});
+	afterAll(async () => {
+		clientSocket?.close();
+		fs.rmSync(dataDir, { recursive: true, force: true });
+		await server.close();
 	});
 
-	// Helper function to connect test client
-	function connectTestClient(callback: (error?: Error) => void) {
-		clientSocket = new WebSocket(wsServerUrl);
-
-		// Handle connection open
-		clientSocket.on("open", () => {
-			// Send authentication message
-			clientSocket.send(
-				JSON.stringify({
-					type: MessageType.AUTH,
-					apiKey: testApiKey,
-					clientId: testClientId,
-					timestamp: Date.now(),
-				}),
-			);
-		});
-
-		// Handle messages from server
-		clientSocket.on("message", (data: WebSocket.RawData) => {
-			const message = JSON.parse(data.toString());
-
-			if (message.type === MessageType.AUTH_RESULT) {
-				if (!message.success) {
-					callback(new Error(`Auth failed: ${message.error}`));
-					return;
-				}
-				authToken = message.token;
-				callback();
-			}
-		});
-
-		// Handle errors
-		clientSocket.on("error", (error) => {
-			console.error("WebSocket client error:", error);
-			callback(error as Error);
-		});
-	}
-
 	// Models endpoint test
 	it("should retrieve models list", async () => {
 		// Setup client message handler for models request
@@ -137,7 +76,7 @@ describe("API Endpoints", () => {
 		});
 
 		// Make API request to models endpoint
-		const response = await request(app)
+		const response = await request(server.app)
 			.get("/v1/models")
 			.set("Authorization", `Bearer ${authToken}`);
 
@@ -193,7 +132,7 @@ describe("API Endpoints", () => {
 		});
 
 		// Make API request
-		const response = await request(app)
+		const response = await request(server.app)
 			.post("/v1/chat/completions")
 			.set("Authorization", `Bearer ${authToken}`)
 			.send({
@@ -209,5 +148,294 @@ describe("API Endpoints", () => {
 		expect(response.body.choices[0].message.content).toBe(
 			"This is a test response",
 		);
+
+		// Quota headers SDKs back off on
+		expect(response.headers["x-ratelimit-limit-requests"]).toBe("60");
+		expect(response.headers["x-ratelimit-remaining-requests"]).toBeDefined();
+		expect(response.headers["x-ratelimit-reset-requests"]).toMatch(/s$/);
+
+		// Recorded for usage reporting, estimated as LM Studio sent no usage
+		expect((await usageStore.read()).at(-1)).toMatchObject({
+			model: "test-model",
+			clientId: testClientId,
+			type: "chat",
+			stream: false,
+			outcome: "success",
+			status: 200,
+			estimated: true,
+		});
+	});
+
+	// Streaming chat completions endpoint test
+	it("should relay streamed chat completions", async () => {
+		const chunk = `data: ${JSON.stringify({
+			id: "test-chat-stream",
+			object: "chat.completion.chunk",
+			choices: [{ index: 0, delta: { content: "Hello" }, finish_reason: null }],
+		})}\n\n`;
+
+		// Setup client message handler
+		const messageHandler = (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.CHAT_REQUEST && message.stream) {
+				clientSocket.send(
+					JSON.stringify({
+						type: MessageType.STREAM_CHUNK,
+						requestId: message.requestId,
+						data: chunk,
+					}),
+				);
+				clientSocket.send(
+					JSON.stringify({
+						type: MessageType.STREAM_END,
+						requestId: message.requestId,
+					}),
+				);
+
+				// Remove this handler
+				clientSocket.off("message", messageHandler);
+			}
+		};
+		clientSocket.on("message", messageHandler);
+
+		// Make API request
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${authToken}`)
+			.send({
+				model: "test-model",
+				stream: true,
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		// Check response
+		expect(response.status).toBe(200);
+		expect(response.headers["content-type"]).toContain("text/event-stream");
+		expect(response.text).toBe(`${chunk}data: [DONE]\n\n`);
+	});
+
+	// Errors reported by the client reach the caller immediately
+	it("should return client error responses with a matching status", async () => {
+		// Setup client message handler
+		const messageHandler = (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.CHAT_REQUEST) {
+				clientSocket.send(
+					JSON.stringify({
+						type: MessageType.ERROR_RESPONSE,
+						requestId: message.requestId,
+						error: {
+							message: "LM Studio is unavailable: connect ECONNREFUSED",
+							code: "lm_studio_unavailable",
+						},
+					}),
+				);
+
+				// Remove this handler
+				clientSocket.off("message", messageHandler);
+			}
+		};
+		clientSocket.on("message", messageHandler);
+
+		// Make API request
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${authToken}`)
+			.send({
+				model: "test-model",
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		// Check response
+		expect(response.status).toBe(503);
+		expect(response.body.error).toEqual({
+			message: "LM Studio is unavailable: connect ECONNREFUSED",
+			type: "server_error",
+			code: "lm_studio_unavailable",
+		});
+	});
+
+	// Mid-stream errors end the stream with an error event
+	it("should end streams with an error event when the client fails", async () => {
+		const chunk = `data: ${JSON.stringify({
+			id: "test-chat-stream",
+			object: "chat.completion.chunk",
+			choices: [{ index: 0, delta: { content: "Hello" }, finish_reason: null }],
+		})}\n\n`;
+
+		// Setup client message handler
+		const messageHandler = (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.CHAT_REQUEST && message.stream) {
+				clientSocket.send(
+					JSON.stringify({
+						type: MessageType.STREAM_CHUNK,
+						requestId: message.requestId,
+						data: chunk,
+					}),
+				);
+				clientSocket.send(
+					JSON.stringify({
+						type: MessageType.ERROR_RESPONSE,
+						requestId: message.requestId,
+						error: {
+							message: "Model crashed",
+							code: "lm_studio_error",
+							status: 500,
+						},
+					}),
+				);
+
+				// Remove this handler
+				clientSocket.off("message", messageHandler);
+			}
+		};
+		clientSocket.on("message", messageHandler);
+
+		// Make API request
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${authToken}`)
+			.send({
+				model: "test-model",
+				stream: true,
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		// Check response
+		expect(response.status).toBe(200);
+		expect(response.text).toBe(
+			`${chunk}event: error\ndata: ${JSON.stringify({
+				error: {
+					message: "Model crashed",
+					type: "server_error",
+					code: "lm_studio_error",
+				},
+			})}\n\n`,
+		);
+	});
+
+	// Requests for models no connected client serves
+	it("should return 404 for models no client serves", async () => {
+		clientSocket.send(
+			JSON.stringify({
+				type: MessageType.MODELS_UPDATE,
+				models: [{ id: "test-model", loaded: true }],
+			}),
+		);
+
+		// Wait for the report to be processed
+		await new Promise((resolve) => setTimeout(resolve, 100));
+
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${authToken}`)
+			.send({
+				model: "missing-model",
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		expect(response.status).toBe(404);
+		expect(response.body.error.type).toBe("invalid_request_error");
+		expect(response.body.error.code).toBe("model_not_found");
+	});
+
+	it("should list the models clients reported without asking them", async () => {
+		const response = await request(server.app)
+			.get("/v1/models")
+			.set("Authorization", `Bearer ${authToken}`);
+
+		expect(response.status).toBe(200);
+		expect(response.body.data).toEqual([
+			{ id: "test-model", object: "model", owned_by: "organization_owner" },
+		]);
+	});
+
+	it("should ask each client that never reported its models for its list", async () => {
+		const sockets = await Promise.all(
+			["model-a", "model-b"].map(async (modelId) => {
+				const { socket } = await connectTestClient(port, `${modelId}-client`);
+				socket.on("message", (data: WebSocket.RawData) => {
+					const message = JSON.parse(data.toString());
+					if (message.type === MessageType.MODELS_REQUEST) {
+						socket.send(
+							JSON.stringify({
+								type: MessageType.MODELS_RESPONSE,
+								requestId: message.requestId,
+								data: {
+									object: "list",
+									data: [{ id: modelId, object: "model", owned_by: "test" }],
+								},
+							}),
+						);
+					}
+				});
+				return socket;
+			}),
+		);
+
+		const response = await request(server.app)
+			.get("/v1/models")
+			.set("Authorization", `Bearer ${authToken}`);
+		await closeTestClients(sockets);
+
+		expect(response.status).toBe(200);
+		expect(response.body.data.map((model: { id: string }) => model.id)).toEqual(
+			["test-model", "model-a", "model-b"],
+		);
+	});
+
+	it("should record streamed requests that fail before dispatch", async () => {
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${authToken}`)
+			.send({ model: "missing-model", messages: [], stream: true });
+
+		expect(response.status).toBe(404);
+		expect((await usageStore.read()).at(-1)).toMatchObject({
+			model: "missing-model",
+			stream: true,
+			outcome: "error",
+			status: 404,
+			clientId: null,
+		});
+	});
+
+	// Admin view of client traffic
+	it("should list connected clients with their in-flight counters", async () => {
+		const response = await request(server.app)
+			.get("/admin/clients")
+			.set("Authorization", `Bearer ${authToken}`);
+
+		expect(response.status).toBe(200);
+		expect(response.body.loadBalancingStrategy).toBe("first");
+		expect(response.body.clients).toEqual([
+			expect.objectContaining({
+				clientId: testClientId,
+				capacity: 1,
+				inFlight: 0,
+			}),
+		]);
+		expect(response.body.clients[0].dispatched).toBeGreaterThan(0);
+		// The client reported errors for some of them
+		expect(response.body.clients[0].failed).toBeGreaterThan(0);
+		expect(response.body.clients[0].errorRate).toBeGreaterThan(0);
+	});
+
+	it("should reject callers whose key lacks the admin scope", async () => {
+		const inferenceToken = jwt.sign(
+			{ scopes: ["inference"] },
+			"test-jwt-secret",
+		);
+
+		const response = await request(server.app)
+			.get("/admin/clients")
+			.set("Authorization", `Bearer ${inferenceToken}`);
+
+		expect(response.status).toBe(403);
+		expect(response.body.error.type).toBe("permission_error");
 	});
 });
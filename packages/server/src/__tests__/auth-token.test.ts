@@ -0,0 +1,93 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Set environment variables BEFORE importing modules that use config
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-token-"));
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.KEY_STORE_PATH = path.join(dataDir, "api-keys.json");
+
+import express from "express";
+import jwt from "jsonwebtoken";
+import request from "supertest";
+import { apiRouter } from "../api";
+import { keyStore, Scope } from "../auth/key-store";
+import { errorHandler } from "../middleware/error-handler";
+
+describe("Token issuance", () => {
+	const app = express();
+	app.use(express.json());
+	app.use("/v1", apiRouter);
+	app.use(errorHandler);
+
+	const { record, key } = keyStore.create({
+		name: "ci",
+		scopes: [Scope.INFERENCE],
+	});
+
+	function issueToken(credential: string, body: object = {}) {
+		return request(app)
+			.post("/v1/auth/token")
+			.set("Authorization", `Bearer ${credential}`)
+			.send(body);
+	}
+
+	afterAll(() => {
+		fs.rmSync(dataDir, { recursive: true, force: true });
+	});
+
+	it("should exchange an API key for a short-lived token", async () => {
+		const response = await issueToken(key, { expires_in: 60 });
+
+		expect(response.status).toBe(200);
+		expect(response.body).toEqual(
+			expect.objectContaining({
+				token_type: "Bearer",
+				expires_in: 60,
+				scopes: ["inference"],
+			}),
+		);
+
+		const claims = jwt.decode(response.body.access_token) as jwt.JwtPayload;
+		expect(claims.keyId).toBe(record.id);
+		expect((claims.exp as number) - (claims.iat as number)).toBe(60);
+
+		const models = await request(app)
+			.get("/v1/models")
+			.set("Authorization", `Bearer ${response.body.access_token}`);
+		expect(models.status).toBe(200);
+	});
+
+	it("should not issue tokens in exchange for other tokens", async () => {
+		const { body } = await issueToken(key);
+
+		const response = await issueToken(body.access_token);
+
+		expect(response.status).toBe(403);
+	});
+
+	it("should not grant scopes the key lacks", async () => {
+		const response = await issueToken(key, { scopes: ["admin"] });
+
+		expect(response.status).toBe(403);
+		expect(response.body.error.type).toBe("permission_error");
+	});
+
+	it("should refuse lifetimes over the maximum", async () => {
+		const response = await issueToken(key, { expires_in: 7 * 24 * 3600 });
+
+		expect(response.status).toBe(400);
+	});
+
+	it("should limit token holders to the models the token was issued for", async () => {
+		const { body } = await issueToken(key, { models: ["qwen2.5-coder-*"] });
+
+		const response = await request(app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${body.access_token}`)
+			.send({ model: "llama-3-70b", messages: [] });
+
+		expect(response.status).toBe(403);
+		expect(response.body.error.code).toBe("model_not_allowed");
+	});
+});
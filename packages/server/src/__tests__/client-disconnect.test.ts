@@ -0,0 +1,137 @@
+// Set environment variables BEFORE importing modules that use config
+process.env.API_KEY = "test-api-key";
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.WS_PATH = "/ws";
+
+import { MessageType } from "@lmstudio-proxy/common";
+import request from "supertest";
+import type WebSocket from "ws";
+import {
+	closeTestClients,
+	connectTestClient,
+	startTestServer,
+	type TestServer,
+} from "./helpers/test-server";
+
+describe("Client Disconnects", () => {
+	let server: TestServer;
+	const port = 9002;
+	const sockets: WebSocket[] = [];
+	let clientCount = 0;
+
+	beforeAll(async () => {
+		server = await startTestServer(port);
+	});
+
+	afterEach(async () => {
+		// Wait for the server to see every test client go away
+		await closeTestClients(sockets.splice(0));
+	});
+
+	afterAll(async () => {
+		await server.close();
+	});
+
+	// Connect and authenticate a test client
+	async function connectClient(): Promise<{
+		socket: WebSocket;
+		token: string;
+	}> {
+		clientCount++;
+		const client = await connectTestClient(port, `test-client-${clientCount}`);
+		sockets.push(client.socket);
+		return client;
+	}
+
+	// Close the connection as soon as a request of the given type arrives
+	function closeOnRequest(socket: WebSocket, type: MessageType): void {
+		socket.on("message", (data: WebSocket.RawData) => {
+			if (JSON.parse(data.toString()).type === type) {
+				socket.terminate();
+			}
+		});
+	}
+
+	it("should retry non-streaming requests on another client", async () => {
+		const first = await connectClient();
+		const second = await connectClient();
+
+		closeOnRequest(first.socket, MessageType.CHAT_REQUEST);
+		second.socket.on("message", (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.CHAT_REQUEST) {
+				second.socket.send(
+					JSON.stringify({
+						type: MessageType.CHAT_RESPONSE,
+						requestId: message.requestId,
+						data: {
+							id: "test-chat-retry",
+							object: "chat.completion",
+							choices: [
+								{
+									index: 0,
+									message: { role: "assistant", content: "Retried" },
+									finish_reason: "stop",
+								},
+							],
+						},
+					}),
+				);
+			}
+		});
+
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${first.token}`)
+			.send({
+				model: "test-model",
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		expect(response.status).toBe(200);
+		expect(response.body.choices[0].message.content).toBe("Retried");
+	});
+
+	it("should fail with 502 when no other client can take the request", async () => {
+		const { socket, token } = await connectClient();
+		closeOnRequest(socket, MessageType.CHAT_REQUEST);
+
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${token}`)
+			.send({
+				model: "test-model",
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		expect(response.status).toBe(502);
+		expect(response.body.error.code).toBe("client_disconnected");
+	});
+
+	it("should fail streaming requests instead of retrying them", async () => {
+		const first = await connectClient();
+		const second = await connectClient();
+		const retried = jest.fn();
+
+		closeOnRequest(first.socket, MessageType.CHAT_REQUEST);
+		second.socket.on("message", (data: WebSocket.RawData) => {
+			if (JSON.parse(data.toString()).type === MessageType.CHAT_REQUEST) {
+				retried();
+			}
+		});
+
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${first.token}`)
+			.send({
+				model: "test-model",
+				stream: true,
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		expect(response.status).toBe(502);
+		expect(response.body.error.code).toBe("client_disconnected");
+		expect(retried).not.toHaveBeenCalled();
+	});
+});
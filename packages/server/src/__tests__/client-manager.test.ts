@@ -0,0 +1,135 @@
+import type { ReportedModel } from "@lmstudio-proxy/common";
+import WebSocket from "ws";
+import { ClientManager } from "../websocket/client-manager";
+import type { ExtendedWebSocket } from "../websocket/types";
+import { createFakeClient } from "./helpers/fake-client";
+
+function createClient(
+	manager: ClientManager,
+	clientId: string,
+	models?: ReportedModel[],
+	tenant: string | null = null,
+): ExtendedWebSocket {
+	const ws = createFakeClient(clientId, { tenant });
+
+	manager.addClient(clientId, ws);
+	if (models) {
+		manager.updateModels(ws, models);
+	}
+	return ws;
+}
+
+describe("ClientManager", () => {
+	it("should route requests to a client that serves the model", () => {
+		const manager = new ClientManager();
+		createClient(manager, "client-a", [{ id: "llama-3-8b", loaded: true }]);
+		const qwen = createClient(manager, "client-b", [
+			{ id: "qwen2.5-7b", loaded: true },
+		]);
+
+		expect(manager.findAvailableClient("qwen2.5-7b")).toBe(qwen);
+	});
+
+	it("should prefer clients that have the model loaded", () => {
+		const manager = new ClientManager();
+		createClient(manager, "client-a", [{ id: "qwen2.5-7b", loaded: false }]);
+		const loaded = createClient(manager, "client-b", [
+			{ id: "qwen2.5-7b", loaded: true },
+		]);
+
+		expect(manager.findAvailableClient("qwen2.5-7b")).toBe(loaded);
+	});
+
+	it("should fall back to clients that never reported their models", () => {
+		const manager = new ClientManager();
+		createClient(manager, "client-a", [{ id: "llama-3-8b", loaded: true }]);
+		const legacy = createClient(manager, "client-b");
+
+		expect(manager.findAvailableClient("qwen2.5-7b")).toBe(legacy);
+	});
+
+	it("should find no client when none serves the model", () => {
+		const manager = new ClientManager();
+		const llama = createClient(manager, "client-a", [
+			{ id: "llama-3-8b", loaded: true },
+		]);
+
+		expect(manager.findAvailableClient("qwen2.5-7b")).toBeUndefined();
+		expect(manager.findAvailableClient()).toBe(llama);
+	});
+
+	it("should skip connections that are no longer open", () => {
+		const manager = new ClientManager();
+		const closing = createClient(manager, "client-a");
+		Object.assign(closing, { readyState: WebSocket.CLOSING });
+
+		expect(manager.findAvailableClient()).toBeUndefined();
+	});
+
+	it("should only route a tenant's requests to its own clients and the shared pool", () => {
+		const manager = new ClientManager();
+		const teamA = createClient(manager, "client-a", undefined, "team-a");
+		createClient(manager, "client-b", undefined, "team-b");
+
+		expect(manager.findAvailableClient(undefined, false, "team-a")).toBe(teamA);
+		expect(
+			manager.findAvailableClient(undefined, false, "team-c"),
+		).toBeUndefined();
+		expect(manager.findAvailableClient()).toBeUndefined();
+
+		const shared = createClient(manager, "client-c");
+		expect(manager.findAvailableClient(undefined, false, "team-c")).toBe(
+			shared,
+		);
+		expect(manager.findAvailableClient()).toBe(shared);
+	});
+
+	it("should only let the same key and tenant replace a client's connection", () => {
+		const manager = new ClientManager();
+		const connect = (keyId: string, tenant: string | null) =>
+			createFakeClient("workstation", { keyId, tenant });
+		const original = connect("key-a", "team-a");
+		manager.addClient("workstation", original);
+
+		expect(manager.addClient("workstation", connect("key-b", "team-b"))).toBe(
+			false,
+		);
+		expect(manager.getClient("workstation")).toBe(original);
+		expect(original.close).not.toHaveBeenCalled();
+
+		const reconnected = connect("key-a", "team-a");
+		expect(manager.addClient("workstation", reconnected)).toBe(true);
+		expect(manager.getClient("workstation")).toBe(reconnected);
+		expect(original.close).toHaveBeenCalledWith(
+			1000,
+			"Replaced by new connection",
+		);
+	});
+
+	it("should list the models of every client serving a tenant once", () => {
+		const manager = new ClientManager();
+		createClient(manager, "client-a", [{ id: "llama-3-8b", loaded: false }]);
+		createClient(manager, "client-b", [
+			{ id: "llama-3-8b", loaded: true },
+			{ id: "qwen2.5-7b", loaded: false },
+		]);
+		createClient(manager, "client-c", [{ id: "mistral-7b" }], "team-a");
+		const unreported = createClient(manager, "client-d", undefined, "team-a");
+
+		expect(manager.getReportedModels()).toEqual({
+			models: [
+				{ id: "llama-3-8b", loaded: true },
+				{ id: "qwen2.5-7b", loaded: false },
+			],
+			unreported: [],
+		});
+		expect(manager.getReportedModels("team-a")).toEqual({
+			models: [
+				{ id: "llama-3-8b", loaded: true },
+				{ id: "mistral-7b" },
+				{ id: "qwen2.5-7b", loaded: false },
+			],
+			unreported: [unreported],
+		});
+	});
+});
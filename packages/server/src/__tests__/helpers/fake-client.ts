@@ -0,0 +1,62 @@
+import { type Capability, PROTOCOL_VERSION } from "@lmstudio-proxy/common";
+import WebSocket from "ws";
+import type { ClientStats, ExtendedWebSocket } from "../../websocket/types";
+
+/**
+ * Fields of a fake client that differ from a freshly connected one
+ */
+export type FakeClientFields = Partial<Omit<ExtendedWebSocket, "stats">> & {
+	stats?: Partial<ClientStats>;
+};
+
+/**
+ * Client connection that is open but sends nothing, for tests of the code
+ * that tracks and picks clients
+ *
+ * `close` and `send` are mocks. Tests may change `readyState` to see how
+ * closing connections are treated.
+ */
+export function createFakeClient(
+	clientId: string,
+	{ stats, ...fields }: FakeClientFields = {},
+): ExtendedWebSocket {
+	// A socket without a peer, which the ws constructor cannot make
+	const socket: WebSocket = Object.create(WebSocket.prototype);
+	const ws = Object.assign(socket, {
+		isAlive: true,
+		remoteAddress: "127.0.0.1",
+		connectedAt: Date.now(),
+		pingSentAt: null,
+		pingRttMs: null,
+		isAuthenticated: false,
+		authNonce: null,
+		upgradeAuth: null,
+		clientId,
+		keyId: null,
+		tenant: null,
+		protocolVersion: PROTOCOL_VERSION,
+		capabilities: new Set<Capability>(),
+		models: null,
+		capacity: 1,
+		maxConcurrency: 0,
+		draining: false,
+		stats: {
+			inFlight: 0,
+			dispatched: 0,
+			latencyEwmaMs: null,
+			misdirectedResponses: 0,
+			failed: 0,
+			...stats,
+		},
+		close: jest.fn(),
+		send: jest.fn(),
+	});
+
+	// WebSocket only has a getter for it
+	Object.defineProperty(ws, "readyState", {
+		value: WebSocket.OPEN,
+		writable: true,
+	});
+
+	return Object.assign(ws, fields);
+}
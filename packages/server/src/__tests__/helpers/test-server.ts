@@ -0,0 +1,135 @@
+import http from "node:http";
+import {
+	hashKeySecret,
+	MessageType,
+	parseApiKey,
+	signAuthChallenge,
+} from "@lmstudio-proxy/common";
+import express from "express";
+import WebSocket from "ws";
+import { adminRouter } from "../../admin";
+import { apiRouter } from "../../api";
+import { errorHandler } from "../../middleware/error-handler";
+import { setupWebSocketServer } from "../../websocket/server";
+
+/**
+ * Server with the API, the admin API and the WebSocket endpoint, for tests
+ * that need LM Studio clients connected
+ *
+ * Test files set `API_KEY` to TEST_API_KEY and `WS_PATH` to `/ws` before
+ * importing this module, as the routers read the config on import.
+ */
+
+// Bootstrap key the test clients register with
+export const TEST_API_KEY = "test-api-key";
+
+export interface TestServer {
+	app: express.Express;
+	port: number;
+	close(): Promise<void>;
+}
+
+/**
+ * A connected client the server accepted
+ */
+export interface TestClient {
+	socket: WebSocket;
+	clientId: string;
+	// Session token the server issued
+	token: string;
+}
+
+/**
+ * Start a test server on a port
+ */
+export function startTestServer(port: number): Promise<TestServer> {
+	const app = express();
+	app.use(express.json());
+	app.use("/v1", apiRouter);
+	app.use("/admin", adminRouter);
+	app.use(errorHandler);
+
+	const server = http.createServer(app);
+	const wss = setupWebSocketServer(server);
+
+	return new Promise((resolve) => {
+		server.listen(port, () =>
+			resolve({
+				app,
+				port,
+				close: () =>
+					new Promise((done) => {
+						wss.close(() => {
+							server.close(() => done());
+						});
+					}),
+			}),
+		);
+	});
+}
+
+/**
+ * Connect a client and answer the server's challenge by signing its nonce
+ * with an API key, the bootstrap key unless another is given
+ * @returns The client, once the server accepted it
+ */
+export function connectTestClient(
+	port: number,
+	clientId: string,
+	apiKey = TEST_API_KEY,
+): Promise<TestClient> {
+	const { keyId, secret } = parseApiKey(apiKey);
+
+	return new Promise((resolve, reject) => {
+		const socket = new WebSocket(`ws://localhost:${port}/ws`);
+
+		socket.on("message", (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.AUTH_CHALLENGE) {
+				socket.send(
+					JSON.stringify({
+						type: MessageType.AUTH,
+						keyId,
+						signature: signAuthChallenge(
+							hashKeySecret(secret),
+							message.nonce,
+							clientId,
+						),
+						clientId,
+						timestamp: Date.now(),
+					}),
+				);
+			}
+
+			if (message.type === MessageType.AUTH_RESULT) {
+				if (message.success) {
+					resolve({ socket, clientId, token: message.token });
+				} else {
+					reject(new Error(`Auth failed: ${message.error}`));
+				}
+			}
+		});
+
+		socket.on("error", reject);
+	});
+}
+
+/**
+ * Close client connections and wait for the server to see them go away
+ */
+export async function closeTestClients(sockets: WebSocket[]): Promise<void> {
+	await Promise.all(
+		sockets.map(
+			(socket) =>
+				new Promise<void>((resolve) => {
+					if (socket.readyState === WebSocket.CLOSED) {
+						resolve();
+						return;
+					}
+					socket.once("close", () => resolve());
+					socket.close();
+				}),
+		),
+	);
+}
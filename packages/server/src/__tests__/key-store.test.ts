@@ -0,0 +1,67 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { KeyStore, Scope } from "../auth/key-store";
+
+describe("KeyStore", () => {
+	let dir: string;
+	let filePath: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "key-store-"));
+		filePath = path.join(dir, "keys.json");
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("should verify created keys and keep only their hash", () => {
+		const store = new KeyStore(filePath);
+		const { record, key } = store.create({
+			name: "my-app",
+			scopes: [Scope.INFERENCE],
+		});
+
+		expect(store.verify(key)).toEqual(record);
+		expect(store.verify(`${key}x`)).toBeUndefined();
+		expect(fs.readFileSync(filePath, "utf8")).not.toContain(key.split("_")[2]);
+	});
+
+	it("should load keys saved by an earlier instance", () => {
+		const { key } = new KeyStore(filePath).create({
+			name: "client",
+			scopes: [Scope.CLIENT_REGISTER],
+		});
+
+		expect(new KeyStore(filePath).verify(key)?.scopes).toEqual([
+			Scope.CLIENT_REGISTER,
+		]);
+	});
+
+	it("should reject revoked and expired keys", () => {
+		const store = new KeyStore(filePath);
+		const revoked = store.create({ name: "revoked", scopes: [Scope.ADMIN] });
+		const expired = store.create({
+			name: "expired",
+			scopes: [Scope.ADMIN],
+			expiresAt: new Date(Date.now() - 1000).toISOString(),
+		});
+
+		store.revoke(revoked.record.id);
+
+		expect(store.verify(revoked.key)).toBeUndefined();
+		expect(store.verify(expired.key)).toBeUndefined();
+		expect(store.isActive(revoked.record.id)).toBe(false);
+		expect(store.list()).toHaveLength(2);
+	});
+
+	it("should accept the bootstrap key with every scope", () => {
+		const store = new KeyStore(filePath, "bootstrap-secret");
+
+		expect(store.verify("bootstrap-secret")?.scopes).toEqual(
+			Object.values(Scope),
+		);
+		expect(fs.existsSync(filePath)).toBe(false);
+	});
+});
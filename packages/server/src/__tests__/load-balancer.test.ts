@@ -0,0 +1,69 @@
+import {
+	LoadBalancer,
+	LoadBalancingStrategy,
+} from "../websocket/load-balancer";
+import type { ClientStats, ExtendedWebSocket } from "../websocket/types";
+import { createFakeClient } from "./helpers/fake-client";
+
+function createClient(
+	clientId: string,
+	stats: Partial<ClientStats> = {},
+	capacity = 1,
+): ExtendedWebSocket {
+	return createFakeClient(clientId, { stats, capacity });
+}
+
+describe("LoadBalancer", () => {
+	it("should pick the first client by default", () => {
+		const balancer = new LoadBalancer(LoadBalancingStrategy.FIRST);
+		const clients = [createClient("a"), createClient("b")];
+
+		expect(balancer.select(clients)).toBe(clients[0]);
+		expect(balancer.select(clients)).toBe(clients[0]);
+	});
+
+	it("should rotate through clients round-robin", () => {
+		const balancer = new LoadBalancer(LoadBalancingStrategy.ROUND_ROBIN);
+		const clients = [createClient("a"), createClient("b"), createClient("c")];
+
+		const picked = [1, 2, 3, 4].map(() => balancer.select(clients)?.clientId);
+		expect(picked).toEqual(["a", "b", "c", "a"]);
+	});
+
+	it("should pick the client with the fewest requests in flight", () => {
+		const balancer = new LoadBalancer(LoadBalancingStrategy.LEAST_OUTSTANDING);
+		const clients = [
+			createClient("a", { inFlight: 3 }),
+			createClient("b", { inFlight: 1 }),
+		];
+
+		expect(balancer.select(clients)?.clientId).toBe("b");
+	});
+
+	it("should weigh requests in flight by declared capacity", () => {
+		const balancer = new LoadBalancer(LoadBalancingStrategy.WEIGHTED);
+		const clients = [
+			createClient("small", { inFlight: 1 }, 1),
+			createClient("large", { inFlight: 2 }, 4),
+		];
+
+		expect(balancer.select(clients)?.clientId).toBe("large");
+	});
+
+	it("should prefer unmeasured clients, then the fastest", () => {
+		const balancer = new LoadBalancer(LoadBalancingStrategy.LATENCY);
+		const slow = createClient("slow", { latencyEwmaMs: 900 });
+		const fast = createClient("fast", { latencyEwmaMs: 150 });
+
+		expect(balancer.select([slow, fast, createClient("new")])?.clientId).toBe(
+			"new",
+		);
+		expect(balancer.select([slow, fast])?.clientId).toBe("fast");
+	});
+
+	it("should select nothing without candidates", () => {
+		const balancer = new LoadBalancer(LoadBalancingStrategy.ROUND_ROBIN);
+
+		expect(balancer.select([])).toBeUndefined();
+	});
+});
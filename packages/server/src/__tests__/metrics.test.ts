@@ -0,0 +1,78 @@
+// Set environment variables BEFORE importing modules that use config
+const metricsToken = "test-metrics-token";
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.METRICS_TOKEN = metricsToken;
+
+import express from "express";
+import request from "supertest";
+import { metricsHandler } from "../metrics/endpoint";
+import { observeRequests } from "../metrics/metrics";
+import { errorHandler } from "../middleware/error-handler";
+import { ClientManager } from "../websocket/client-manager";
+import { createFakeClient } from "./helpers/fake-client";
+
+describe("Metrics", () => {
+	const app = express();
+	const router = express.Router();
+	router.use(observeRequests(["/chat/completions"]));
+	router.post("/chat/completions", (_req, res) => {
+		res.json({ ok: true });
+	});
+	router.use((_req, res) => {
+		res.status(404).json({});
+	});
+	app.use(express.json());
+	app.use("/v1", router);
+	app.get("/metrics", metricsHandler);
+	app.use(errorHandler);
+
+	function scrape() {
+		return request(app)
+			.get("/metrics")
+			.set("Authorization", `Bearer ${metricsToken}`);
+	}
+
+	it("should refuse scrapes without the metrics token", async () => {
+		const response = await request(app).get("/metrics");
+
+		expect(response.status).toBe(401);
+	});
+
+	it("should count requests by route, model and status", async () => {
+		await request(app)
+			.post("/v1/chat/completions")
+			.send({ model: "test-model", messages: [] });
+		await request(app).post("/v1/made-up").send({ model: "made-up-model" });
+
+		const response = await scrape();
+
+		expect(response.status).toBe(200);
+		expect(response.text).toContain(
+			'lmstudio_proxy_http_requests_total{route="/v1/chat/completions",model="test-model",status="200"} 1',
+		);
+		// Neither the path nor the model of refused requests become labels
+		expect(response.text).toContain(
+			'lmstudio_proxy_http_requests_total{route="other",model="unknown",status="404"} 1',
+		);
+		expect(response.text).toContain(
+			"lmstudio_proxy_http_request_duration_seconds_bucket",
+		);
+	});
+
+	it("should track connected clients and reconnects", async () => {
+		const manager = new ClientManager();
+		const connect = () => createFakeClient("client-a");
+
+		const first = connect();
+		manager.addClient("client-a", first);
+		manager.removeClient("client-a", first);
+		manager.addClient("client-a", connect());
+
+		const response = await scrape();
+
+		expect(response.text).toContain("lmstudio_proxy_connected_clients 1");
+		expect(response.text).toContain(
+			"lmstudio_proxy_websocket_reconnects_total 1",
+		);
+	});
+});
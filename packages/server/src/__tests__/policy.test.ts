@@ -0,0 +1,140 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Set environment variables BEFORE importing modules that use config
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "policy-"));
+process.env.KEY_STORE_PATH = path.join(dataDir, "api-keys.json");
+process.env.USAGE_LOG_PATH = path.join(dataDir, "usage.log");
+process.env.API_KEY = "test-api-key";
+process.env.JWT_SECRET = "test-jwt-secret";
+
+import express, { type Request } from "express";
+import request from "supertest";
+import { apiRouter } from "../api";
+import { keyStore, Scope } from "../auth/key-store";
+import { enforcePolicy } from "../auth/policy";
+import { errorHandler } from "../middleware/error-handler";
+import { quotaTracker } from "../quota/quota-tracker";
+import type { ApiError } from "../utils/error";
+
+describe("enforcePolicy", () => {
+	const { record } = keyStore.create({
+		name: "coding",
+		scopes: [Scope.INFERENCE],
+		policy: {
+			models: ["qwen2.5-coder-*"],
+			maxTokens: 1024,
+			minTemperature: 0,
+			maxTemperature: 1,
+			allowStreaming: false,
+		},
+	});
+
+	function createRequest(body: Record<string, unknown>): Request {
+		return {
+			user: { keyId: record.id, scopes: record.scopes },
+			body,
+		} as unknown as Request;
+	}
+
+	function violationOf(body: Record<string, unknown>): ApiError {
+		try {
+			enforcePolicy(createRequest(body), "chat");
+		} catch (error) {
+			return error as ApiError;
+		}
+		throw new Error("Expected a policy violation");
+	}
+
+	afterAll(() => {
+		fs.rmSync(dataDir, { recursive: true, force: true });
+	});
+
+	it("should let requests within the policy through", () => {
+		const req = createRequest({ model: "qwen2.5-coder-7b", max_tokens: 512 });
+
+		expect(enforcePolicy(req, "chat")).toBe(false);
+		expect(req.body.max_tokens).toBe(512);
+	});
+
+	it("should refuse models outside the allowlist with 403", () => {
+		const error = violationOf({ model: "llama-3-70b" });
+
+		expect(error.statusCode).toBe(403);
+		expect(error.type).toBe("permission_error");
+		expect(error.code).toBe("model_not_allowed");
+	});
+
+	it("should require a model when the key has an allowlist", () => {
+		expect(violationOf({}).statusCode).toBe(400);
+	});
+
+	it("should refuse parameters outside the policy with 400", () => {
+		const model = "qwen2.5-coder-7b";
+
+		expect(violationOf({ model, max_tokens: 32768 }).statusCode).toBe(400);
+		expect(violationOf({ model, temperature: 1.5 }).code).toBe(
+			"policy_violation",
+		);
+	});
+
+	it("should refuse limited parameters that are not numbers", () => {
+		const model = "qwen2.5-coder-7b";
+
+		const temperature = violationOf({ model, temperature: "5" });
+		expect(temperature.statusCode).toBe(400);
+		expect(temperature.message).toContain("'temperature'");
+		expect(violationOf({ model, max_tokens: "lots" }).message).toContain(
+			"'max_tokens'",
+		);
+	});
+
+	it("should cap max_tokens and switch streaming off", () => {
+		const req = createRequest({ model: "qwen2.5-coder-7b", stream: true });
+
+		expect(enforcePolicy(req, "chat")).toBe(false);
+		expect(req.body).toEqual(
+			expect.objectContaining({ max_tokens: 1024, stream: false }),
+		);
+	});
+
+	it("should leave requests from keys without a policy alone", () => {
+		const req = {
+			user: { keyId: "bootstrap", scopes: [] },
+			body: { model: "anything", stream: true },
+		} as unknown as Request;
+
+		expect(enforcePolicy(req, "chat")).toBe(true);
+	});
+});
+
+describe("Streaming policy", () => {
+	const app = express();
+	app.use(express.json());
+	app.use("/v1", apiRouter);
+	app.use(errorHandler);
+
+	it("should only take a stream slot for requests that still stream", async () => {
+		const { key } = keyStore.create({
+			name: "no-streaming",
+			scopes: [Scope.INFERENCE],
+			policy: { allowStreaming: false },
+		});
+		const acquireStream = jest.spyOn(quotaTracker, "acquireStream");
+
+		await request(app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${key}`)
+			.send({ model: "test-model", messages: [], stream: true });
+		expect(acquireStream).not.toHaveBeenCalled();
+
+		await request(app)
+			.post("/v1/chat/completions")
+			.set("Authorization", "Bearer test-api-key")
+			.send({ model: "test-model", messages: [], stream: true });
+		expect(acquireStream).toHaveBeenCalledTimes(1);
+
+		acquireStream.mockRestore();
+	});
+});
@@ -0,0 +1,83 @@
+import { type QuotaLimits, QuotaTracker } from "../quota/quota-tracker";
+
+const limits: QuotaLimits = {
+	requestsPerMinute: 2,
+	tokensPerDay: 100,
+	concurrentStreams: 1,
+};
+
+describe("QuotaTracker", () => {
+	it("should refuse requests over the per-minute limit until the window resets", () => {
+		const tracker = new QuotaTracker();
+		const start = Date.UTC(2026, 0, 1, 12);
+
+		expect(tracker.consumeRequest("key", limits, start).requests).toEqual({
+			limit: 2,
+			remaining: 1,
+			resetMs: 60000,
+		});
+		expect(tracker.consumeRequest("key", limits, start + 1000).exceeded).toBe(
+			undefined,
+		);
+
+		const refused = tracker.consumeRequest("key", limits, start + 2000);
+		expect(refused.exceeded).toBe("requests");
+		expect(refused.requests?.resetMs).toBe(58000);
+
+		expect(
+			tracker.consumeRequest("key", limits, start + 60000).exceeded,
+		).toBeUndefined();
+	});
+
+	it("should count keys separately", () => {
+		const tracker = new QuotaTracker();
+		tracker.consumeRequest("a", limits);
+		tracker.consumeRequest("a", limits);
+
+		expect(tracker.consumeRequest("b", limits).exceeded).toBeUndefined();
+	});
+
+	it("should refuse requests once the daily token budget is spent", () => {
+		const tracker = new QuotaTracker();
+		const now = Date.UTC(2026, 0, 1, 18);
+
+		tracker.recordTokens("key", 60, now);
+		expect(tracker.consumeRequest("key", limits, now).tokens?.remaining).toBe(
+			40,
+		);
+
+		tracker.recordTokens("key", 60, now);
+		const refused = tracker.consumeRequest("key", limits, now + 1000);
+		expect(refused.exceeded).toBe("tokens");
+		expect(refused.tokens?.resetMs).toBe(6 * 60 * 60 * 1000 - 1000);
+
+		// Budgets start over at midnight UTC
+		expect(
+			tracker.consumeRequest("key", limits, Date.UTC(2026, 0, 2)).exceeded,
+		).toBeUndefined();
+	});
+
+	it("should limit concurrent streams", () => {
+		const tracker = new QuotaTracker();
+
+		expect(tracker.acquireStream("key", limits)).toBe(true);
+		expect(tracker.acquireStream("key", limits)).toBe(false);
+
+		tracker.releaseStream("key");
+		expect(tracker.acquireStream("key", limits)).toBe(true);
+	});
+
+	it("should treat 0 as unlimited", () => {
+		const tracker = new QuotaTracker();
+		const unlimited = {
+			requestsPerMinute: 0,
+			tokensPerDay: 0,
+			concurrentStreams: 0,
+		};
+
+		tracker.recordTokens("key", 1_000_000);
+		expect(tracker.consumeRequest("key", unlimited)).toEqual({});
+		expect(tracker.acquireStream("key", unlimited)).toBe(true);
+		expect(tracker.acquireStream("key", unlimited)).toBe(true);
+	});
+});
@@ -0,0 +1,61 @@
+// Set environment variables BEFORE importing modules that use config
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.READY_REQUIRED_MODELS = "qwen2.5-7b";
+
+import express from "express";
+import request from "supertest";
+import { healthHandler, readinessHandler } from "../health/endpoint";
+import { clientManager } from "../websocket/server";
+import { createFakeClient } from "./helpers/fake-client";
+
+describe("Readiness", () => {
+	const app = express();
+	app.get("/health", healthHandler);
+	app.get("/ready", readinessHandler);
+
+	function connectClient(clientId: string, models: string[]): void {
+		const ws = createFakeClient(clientId, { tenant: "team-a" });
+
+		clientManager.addClient(clientId, ws);
+		clientManager.updateModels(
+			ws,
+			models.map((id) => ({ id, loaded: false })),
+		);
+	}
+
+	afterEach(() => {
+		for (const clientId of [...clientManager.getAllClients().keys()]) {
+			clientManager.removeClient(clientId);
+		}
+	});
+
+	it("should not be ready without clients, while staying alive", async () => {
+		const ready = await request(app).get("/ready");
+
+		expect(ready.status).toBe(503);
+		expect(ready.body).toMatchObject({ status: "not_ready", clients: 0 });
+		expect((await request(app).get("/health")).status).toBe(200);
+	});
+
+	it("should not be ready until a client serves every required model", async () => {
+		connectClient("client-a", ["llama-3-8b"]);
+
+		const missing = await request(app).get("/ready");
+		expect(missing.status).toBe(503);
+		expect(missing.body).toMatchObject({
+			clients: 1,
+			missingModels: ["qwen2.5-7b"],
+		});
+
+		// Clients of any tenant count, whether or not the model is loaded
+		connectClient("client-b", ["qwen2.5-7b"]);
+
+		const ready = await request(app).get("/ready");
+		expect(ready.status).toBe(200);
+		expect(ready.body).toMatchObject({
+			status: "ready",
+			clients: 2,
+			missingModels: [],
+		});
+	});
+});
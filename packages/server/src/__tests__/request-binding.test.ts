@@ -0,0 +1,135 @@
+// Set environment variables BEFORE importing modules that use config
+process.env.API_KEY = "test-api-key";
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.WS_PATH = "/ws";
+process.env.CLIENT_MAX_MISDIRECTED_RESPONSES = "2";
+
+import { MessageType } from "@lmstudio-proxy/common";
+import request from "supertest";
+import type WebSocket from "ws";
+import {
+	closeTestClients,
+	connectTestClient,
+	startTestServer,
+	TEST_API_KEY,
+	type TestClient,
+	type TestServer,
+} from "./helpers/test-server";
+
+describe("Request binding", () => {
+	let server: TestServer;
+	const port = 9004;
+	const sockets: WebSocket[] = [];
+	let clientCount = 0;
+
+	beforeAll(async () => {
+		server = await startTestServer(port);
+	});
+
+	afterEach(async () => {
+		// Wait for the server to see every test client go away
+		await closeTestClients(sockets.splice(0));
+	});
+
+	afterAll(async () => {
+		await server.close();
+	});
+
+	// Connect and authenticate a test client
+	async function connectClient(): Promise<TestClient> {
+		clientCount++;
+		const client = await connectTestClient(port, `test-client-${clientCount}`);
+		sockets.push(client.socket);
+		return client;
+	}
+
+	function chatResponse(requestId: string, content: string): string {
+		return JSON.stringify({
+			type: MessageType.CHAT_RESPONSE,
+			requestId,
+			data: {
+				id: `test-chat-${content}`,
+				object: "chat.completion",
+				choices: [
+					{
+						index: 0,
+						message: { role: "assistant", content },
+						finish_reason: "stop",
+					},
+				],
+			},
+		});
+	}
+
+	// Let one client answer chat requests after the other tried to answer
+	// them first, `forgeries` times each
+	function answerAfterForgery(
+		clients: { socket: WebSocket }[],
+		forgeries: number,
+	): void {
+		for (const { socket } of clients) {
+			socket.on("message", (data: WebSocket.RawData) => {
+				const message = JSON.parse(data.toString());
+				if (message.type !== MessageType.CHAT_REQUEST) {
+					return;
+				}
+
+				const other = clients.find((client) => client.socket !== socket);
+				for (let i = 0; i < forgeries; i++) {
+					other?.socket.send(chatResponse(message.requestId, "Forged"));
+				}
+				setTimeout(() => {
+					socket.send(chatResponse(message.requestId, "Genuine"));
+				}, 50);
+			});
+		}
+	}
+
+	function sendChat() {
+		return request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${TEST_API_KEY}`)
+			.send({
+				model: "test-model",
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+	}
+
+	it("should only accept responses from the client a request was sent to", async () => {
+		const clients = [await connectClient(), await connectClient()];
+		answerAfterForgery(clients, 1);
+
+		const response = await sendChat();
+
+		expect(response.status).toBe(200);
+		expect(response.body.choices[0].message.content).toBe("Genuine");
+
+		// The forgery is counted against the client that sent it
+		const listing = await request(server.app)
+			.get("/admin/clients")
+			.set("Authorization", `Bearer ${TEST_API_KEY}`);
+		const counts = listing.body.clients
+			.map(
+				(client: { misdirectedResponses: number }) =>
+					client.misdirectedResponses,
+			)
+			.sort();
+		expect(counts).toEqual([0, 1]);
+	});
+
+	it("should disconnect clients that keep answering others' requests", async () => {
+		const clients = [await connectClient(), await connectClient()];
+		const closes = clients.map(
+			({ socket }) =>
+				new Promise<number>((resolve) => {
+					socket.once("close", (code) => resolve(code));
+				}),
+		);
+		answerAfterForgery(clients, 2);
+
+		const response = await sendChat();
+
+		expect(response.status).toBe(200);
+		expect(await Promise.race(closes)).toBe(1008);
+	});
+});
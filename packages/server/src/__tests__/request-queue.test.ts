@@ -0,0 +1,124 @@
+import type { ApiError } from "../utils/error";
+import { ClientManager } from "../websocket/client-manager";
+import { RequestQueue } from "../websocket/request-queue";
+import { RequestRegistry } from "../websocket/request-registry";
+import type { ExtendedWebSocket } from "../websocket/types";
+import { createFakeClient } from "./helpers/fake-client";
+
+function createClient(
+	manager: ClientManager,
+	clientId: string,
+	maxConcurrency: number,
+): ExtendedWebSocket {
+	const ws = createFakeClient(clientId, { maxConcurrency });
+
+	manager.addClient(clientId, ws);
+	return ws;
+}
+
+describe("RequestQueue", () => {
+	let manager: ClientManager;
+	let registry: RequestRegistry;
+	let queue: RequestQueue;
+	let nextRequestId = 0;
+
+	// Take a slot on the client the way forwarded requests do
+	function occupy(client: ExtendedWebSocket): string {
+		const requestId = `req-${++nextRequestId}`;
+		registry.register({
+			requestId,
+			type: "chat",
+			client,
+			timeoutMs: 60000,
+			handler: { stream: false, onResponse: jest.fn(), onError: jest.fn() },
+			onTimeout: jest.fn(),
+			onDisconnect: jest.fn(),
+		});
+		return requestId;
+	}
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		manager = new ClientManager();
+		registry = new RequestRegistry();
+		queue = new RequestQueue(manager, registry, {
+			maxLength: 2,
+			timeoutMs: 1000,
+		});
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("should assign requests right away while a client has a free slot", () => {
+		const client = createClient(manager, "client-a", 1);
+		const onAssigned = jest.fn();
+
+		expect(queue.enqueue({ onAssigned, onRejected: jest.fn() })).toBe(false);
+		expect(onAssigned).toHaveBeenCalledWith(client);
+	});
+
+	it("should hold requests until a slot frees up, in arrival order", () => {
+		const client = createClient(manager, "client-a", 1);
+		const busy = occupy(client);
+		const assigned: string[] = [];
+
+		const first = {
+			onAssigned: () => {
+				assigned.push("first");
+				occupy(client);
+			},
+			onRejected: jest.fn(),
+		};
+		const second = {
+			onAssigned: () => assigned.push("second"),
+			onRejected: jest.fn(),
+		};
+
+		expect(queue.enqueue(first)).toBe(true);
+		expect(queue.enqueue(second)).toBe(true);
+		expect(queue.position(second)).toBe(2);
+
+		registry.complete(busy);
+
+		expect(assigned).toEqual(["first"]);
+		expect(queue.position(second)).toBe(1);
+	});
+
+	it("should reject requests with 429 once the queue is full", () => {
+		occupy(createClient(manager, "client-a", 1));
+		const onRejected = jest.fn();
+
+		queue.enqueue({ onAssigned: jest.fn(), onRejected: jest.fn() });
+		queue.enqueue({ onAssigned: jest.fn(), onRejected: jest.fn() });
+		queue.enqueue({ onAssigned: jest.fn(), onRejected });
+
+		const error: ApiError = onRejected.mock.calls[0][0];
+		expect(error.statusCode).toBe(429);
+		expect(error.retryAfter).toBeGreaterThan(0);
+	});
+
+	it("should reject requests with 503 after waiting too long", () => {
+		occupy(createClient(manager, "client-a", 1));
+		const entry = { onAssigned: jest.fn(), onRejected: jest.fn() };
+
+		queue.enqueue(entry);
+		jest.advanceTimersByTime(1000);
+
+		expect(entry.onRejected.mock.calls[0][0].statusCode).toBe(503);
+		expect(queue.getLength()).toBe(0);
+	});
+
+	it("should not assign cancelled requests", () => {
+		const client = createClient(manager, "client-a", 1);
+		const busy = occupy(client);
+		const entry = { onAssigned: jest.fn(), onRejected: jest.fn() };
+
+		queue.enqueue(entry);
+		queue.cancel(entry);
+		registry.complete(busy);
+
+		expect(entry.onAssigned).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,223 @@
+import { RequestRegistry } from "../websocket/request-registry";
+import { createFakeClient } from "./helpers/fake-client";
+
+function createHandler() {
+	return { stream: false as const, onResponse: jest.fn(), onError: jest.fn() };
+}
+
+describe("RequestRegistry", () => {
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("should record the owning client and deadline", () => {
+		const registry = new RequestRegistry();
+		const now = Date.now();
+
+		const request = registry.register({
+			requestId: "req-1",
+			type: "chat",
+			client: createFakeClient("client-a"),
+			timeoutMs: 1000,
+			handler: createHandler(),
+			onTimeout: jest.fn(),
+			onDisconnect: jest.fn(),
+		});
+
+		expect(request.clientId).toBe("client-a");
+		expect(request.deadline).toBeGreaterThanOrEqual(now + 1000);
+		expect(registry.get("req-1")).toBe(request);
+	});
+
+	it("should reject duplicate request IDs", () => {
+		const registry = new RequestRegistry();
+		const options = {
+			requestId: "req-1",
+			type: "chat" as const,
+			client: createFakeClient("client-a"),
+			timeoutMs: 1000,
+			handler: createHandler(),
+			onTimeout: jest.fn(),
+			onDisconnect: jest.fn(),
+		};
+
+		registry.register(options);
+
+		expect(() => registry.register(options)).toThrow("already registered");
+	});
+
+	it("should remove requests and invoke onTimeout once the deadline passes", () => {
+		const registry = new RequestRegistry();
+		const onTimeout = jest.fn();
+
+		registry.register({
+			requestId: "req-1",
+			type: "embeddings",
+			client: createFakeClient("client-a"),
+			timeoutMs: 1000,
+			handler: createHandler(),
+			onTimeout,
+			onDisconnect: jest.fn(),
+		});
+
+		jest.advanceTimersByTime(1000);
+
+		expect(onTimeout).toHaveBeenCalledTimes(1);
+		expect(registry.has("req-1")).toBe(false);
+	});
+
+	it("should not time out completed requests", () => {
+		const registry = new RequestRegistry();
+		const onTimeout = jest.fn();
+
+		registry.register({
+			requestId: "req-1",
+			type: "models",
+			client: createFakeClient("client-a"),
+			timeoutMs: 1000,
+			handler: createHandler(),
+			onTimeout,
+			onDisconnect: jest.fn(),
+		});
+
+		expect(registry.complete("req-1")?.requestId).toBe("req-1");
+		expect(registry.complete("req-1")).toBeUndefined();
+
+		jest.advanceTimersByTime(1000);
+		expect(onTimeout).not.toHaveBeenCalled();
+	});
+
+	it("should list requests by owning client", () => {
+		const registry = new RequestRegistry();
+
+		for (const [requestId, clientId] of [
+			["req-1", "client-a"],
+			["req-2", "client-b"],
+			["req-3", "client-a"],
+		]) {
+			registry.register({
+				requestId,
+				type: "chat",
+				client: createFakeClient(clientId),
+				timeoutMs: 1000,
+				handler: createHandler(),
+				onTimeout: jest.fn(),
+				onDisconnect: jest.fn(),
+			});
+		}
+
+		expect(
+			registry.getByClient("client-a").map((request) => request.requestId),
+		).toEqual(["req-1", "req-3"]);
+		expect(registry.getCount()).toBe(3);
+	});
+
+	it("should hand requests of a closed connection to onDisconnect", () => {
+		const registry = new RequestRegistry();
+		const closed = createFakeClient("client-a");
+		const replacement = createFakeClient("client-a");
+		const onDisconnect = jest.fn();
+		const onTimeout = jest.fn();
+
+		registry.register({
+			requestId: "req-1",
+			type: "chat",
+			client: closed,
+			timeoutMs: 1000,
+			handler: createHandler(),
+			onTimeout,
+			onDisconnect,
+		});
+		registry.register({
+			requestId: "req-2",
+			type: "chat",
+			client: replacement,
+			timeoutMs: 1000,
+			handler: createHandler(),
+			onTimeout,
+			onDisconnect,
+		});
+
+		expect(registry.handleDisconnect(closed)).toBe(1);
+		expect(onDisconnect).toHaveBeenCalledTimes(1);
+		expect(onDisconnect.mock.calls[0][0].requestId).toBe("req-1");
+		expect(registry.has("req-1")).toBe(false);
+		expect(registry.has("req-2")).toBe(true);
+
+		jest.advanceTimersByTime(1000);
+		expect(onTimeout).toHaveBeenCalledTimes(1);
+	});
+
+	it("should count in-flight requests per client", () => {
+		const registry = new RequestRegistry();
+		const client = createFakeClient("client-a");
+
+		for (const requestId of ["req-1", "req-2"]) {
+			registry.register({
+				requestId,
+				type: "chat",
+				client,
+				timeoutMs: 1000,
+				handler: createHandler(),
+				onTimeout: jest.fn(),
+				onDisconnect: jest.fn(),
+			});
+		}
+		registry.complete("req-1");
+
+		expect(client.stats).toMatchObject({ inFlight: 1, dispatched: 2 });
+
+		jest.advanceTimersByTime(1000);
+		expect(client.stats.inFlight).toBe(0);
+	});
+
+	it("should measure time to first token once per request", () => {
+		const registry = new RequestRegistry();
+		const client = createFakeClient("client-a");
+
+		registry.register({
+			requestId: "req-1",
+			type: "chat",
+			client,
+			timeoutMs: 1000,
+			handler: createHandler(),
+			onTimeout: jest.fn(),
+			onDisconnect: jest.fn(),
+		});
+
+		jest.advanceTimersByTime(200);
+		registry.recordFirstResponse("req-1");
+		jest.advanceTimersByTime(300);
+		registry.recordFirstResponse("req-1");
+
+		expect(client.stats.latencyEwmaMs).toBe(200);
+	});
+
+	it("should count failures and timeouts as slow samples", () => {
+		const registry = new RequestRegistry();
+		const client = createFakeClient("client-a");
+		const register = (requestId: string) =>
+			registry.register({
+				requestId,
+				type: "chat",
+				client,
+				timeoutMs: 1000,
+				handler: createHandler(),
+				onTimeout: jest.fn(),
+				onDisconnect: jest.fn(),
+			});
+
+		register("req-1");
+		jest.advanceTimersByTime(10);
+		registry.fail("req-1");
+		expect(client.stats.latencyEwmaMs).toBe(1000);
+
+		register("req-2");
+		jest.advanceTimersByTime(1000);
+		expect(client.stats.latencyEwmaMs).toBe(1000);
+	});
+});
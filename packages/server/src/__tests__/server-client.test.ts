@@ -5,7 +5,14 @@ process.env.JWT_SECRET = "test-jwt-secret";
 process.env.WS_PATH = "/ws";
 
 import http from "node:http";
-import { MessageType } from "@lmstudio-proxy/common";
+import {
+	Capability,
+	ErrorCode,
+	hashKeySecret,
+	MessageType,
+	PROTOCOL_VERSION,
+	signAuthChallenge,
+} from "@lmstudio-proxy/common";
 import express from "express";
 import WebSocket from "ws";
 import { setupWebSocketServer } from "../websocket/server";
@@ -17,6 +24,13 @@ describe("Server-Client Communication", () => {
 	const port = 9000;
 	const serverUrl = `ws://localhost:${port}/ws`;
 	const testClientId = "test-client-123";
+	// Authentication frame sent by the first client, for replaying
+	let signedAuth = "";
+
+	// Sign a challenge nonce the way clients do, with the bootstrap key
+	function sign(nonce: string, clientId: string, apiKey = testApiKey): string {
+		return signAuthChallenge(hashKeySecret(apiKey), nonce, clientId);
+	}
 
 	beforeAll((done) => {
 		// Create HTTP server
@@ -47,23 +61,22 @@ describe("Server-Client Communication", () => {
 		// Create client WebSocket
 		clientSocket = new WebSocket(serverUrl);
 
-		// Handle connection open
-		clientSocket.on("open", () => {
-			// Send authentication message
-			clientSocket.send(
-				JSON.stringify({
-					type: MessageType.AUTH,
-					apiKey: testApiKey,
-					clientId: testClientId,
-					timestamp: Date.now(),
-				}),
-			);
-		});
-
 		// Handle messages from server
 		clientSocket.on("message", (data: WebSocket.RawData) => {
 			const message = JSON.parse(data.toString());
 
+			// Answer the challenge sent on connect
+			if (message.type === MessageType.AUTH_CHALLENGE) {
+				signedAuth = JSON.stringify({
+					type: MessageType.AUTH,
+					keyId: "bootstrap",
+					signature: sign(message.nonce, testClientId),
+					clientId: testClientId,
+					timestamp: Date.now(),
+				});
+				clientSocket.send(signedAuth);
+			}
+
 			if (message.type === MessageType.AUTH_RESULT) {
 				if (!message.success) {
 					done(new Error(`Auth failed: ${message.error}`));
@@ -85,23 +98,23 @@ describe("Server-Client Communication", () => {
 		// Create client WebSocket
 		const badClient = new WebSocket(serverUrl);
 
-		// Handle connection open
-		badClient.on("open", () => {
-			// Send authentication message with invalid API key
-			badClient.send(
-				JSON.stringify({
-					type: MessageType.AUTH,
-					apiKey: "invalid-key",
-					clientId: "bad-client",
-					timestamp: Date.now(),
-				}),
-			);
-		});
-
 		// Handle messages from server
 		badClient.on("message", (data: WebSocket.RawData) => {
 			const message = JSON.parse(data.toString());
 
+			// Sign the challenge with the wrong key
+			if (message.type === MessageType.AUTH_CHALLENGE) {
+				badClient.send(
+					JSON.stringify({
+						type: MessageType.AUTH,
+						keyId: "bootstrap",
+						signature: sign(message.nonce, "bad-client", "invalid-key"),
+						clientId: "bad-client",
+						timestamp: Date.now(),
+					}),
+				);
+			}
+
 			if (message.type === MessageType.AUTH_RESULT) {
 				expect(message.success).toBe(false);
 				expect(message.error).toBeDefined();
@@ -118,6 +131,93 @@ describe("Server-Client Communication", () => {
 		});
 	});
 
+	it("should reject a replayed authentication message", (done) => {
+		const replayClient = new WebSocket(serverUrl);
+
+		replayClient.on("message", (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			// The signature was made for another connection's nonce
+			if (message.type === MessageType.AUTH_CHALLENGE) {
+				replayClient.send(signedAuth);
+			}
+
+			if (message.type === MessageType.AUTH_RESULT) {
+				expect(message.success).toBe(false);
+				replayClient.close();
+				done();
+			}
+		});
+
+		replayClient.on("error", (error) => {
+			done(error);
+		});
+	});
+
+	it("should reject a plaintext API key unless configured", (done) => {
+		const plaintextClient = new WebSocket(serverUrl);
+
+		plaintextClient.on("message", (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.AUTH_CHALLENGE) {
+				plaintextClient.send(
+					JSON.stringify({
+						type: MessageType.AUTH,
+						apiKey: testApiKey,
+						clientId: "plaintext-client",
+						timestamp: Date.now(),
+					}),
+				);
+			}
+
+			if (message.type === MessageType.AUTH_RESULT) {
+				expect(message.success).toBe(false);
+				plaintextClient.close();
+				done();
+			}
+		});
+
+		plaintextClient.on("error", (error) => {
+			done(error);
+		});
+	});
+
+	it("should reject a client that requires a newer protocol version", (done) => {
+		const futureClient = new WebSocket(serverUrl);
+
+		futureClient.on("message", (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.AUTH_CHALLENGE) {
+				futureClient.send(
+					JSON.stringify({
+						type: MessageType.AUTH,
+						keyId: "bootstrap",
+						signature: sign(message.nonce, "future-client"),
+						clientId: "future-client",
+						protocolVersion: PROTOCOL_VERSION + 2,
+						minProtocolVersion: PROTOCOL_VERSION + 1,
+						capabilities: [Capability.STREAMING],
+						timestamp: Date.now(),
+					}),
+				);
+			}
+
+			if (message.type === MessageType.AUTH_RESULT) {
+				expect(message.success).toBe(false);
+				expect(message.error).toContain("please upgrade the server");
+
+				futureClient.close();
+				done();
+			}
+		});
+
+		futureClient.on("error", (error) => {
+			done(error);
+		});
+	});
+
 	it("should handle ping-pong messages", (done) => {
 		// Ensure we have an authenticated client
 		if (!clientSocket || clientSocket.readyState !== WebSocket.OPEN) {
@@ -147,4 +247,34 @@ describe("Server-Client Communication", () => {
 		// Add message listener
 		clientSocket.on("message", messageHandler);
 	});
+
+	it("should reject invalid frames with an error naming the field", (done) => {
+		if (!clientSocket || clientSocket.readyState !== WebSocket.OPEN) {
+			done(new Error("Client not connected and authenticated"));
+			return;
+		}
+
+		const messageHandler = (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.ERROR) {
+				clientSocket.off("message", messageHandler);
+				expect(message.code).toBe(ErrorCode.INVALID_MESSAGE);
+				expect(message.field).toBe("data");
+				expect(message.requestId).toBe("req-invalid");
+				done();
+			}
+		};
+
+		clientSocket.on("message", messageHandler);
+
+		// Stream chunks must carry string data
+		clientSocket.send(
+			JSON.stringify({
+				type: MessageType.STREAM_CHUNK,
+				requestId: "req-invalid",
+				data: { choices: [] },
+			}),
+		);
+	});
 });
@@ -0,0 +1,135 @@
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+
+// Set environment variables BEFORE importing modules that use config
+process.env.API_KEY = "test-api-key";
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.WS_PATH = "/ws";
+process.env.OTEL_EXPORTER_OTLP_ENDPOINT = "http://collector:4318/";
+
+// Stand-in for the OTLP collector, keeping what would have been exported
+const mockCollector: { urls: string[]; spans: ReadableSpan[] } = {
+	urls: [],
+	spans: [],
+};
+jest.mock("@opentelemetry/exporter-trace-otlp-http", () => ({
+	OTLPTraceExporter: class {
+		constructor(options: { url: string }) {
+			mockCollector.urls.push(options.url);
+		}
+
+		export(
+			spans: ReadableSpan[],
+			callback: (result: { code: number }) => void,
+		): void {
+			mockCollector.spans.push(...spans);
+			callback({ code: 0 });
+		}
+
+		shutdown(): Promise<void> {
+			return Promise.resolve();
+		}
+	},
+}));
+
+import { MessageType } from "@lmstudio-proxy/common";
+import request from "supertest";
+import type WebSocket from "ws";
+import { shutdownTracing } from "../utils/tracing";
+import {
+	connectTestClient,
+	startTestServer,
+	TEST_API_KEY,
+	type TestServer,
+} from "./helpers/test-server";
+
+describe("Tracing", () => {
+	let server: TestServer;
+	let clientSocket: WebSocket;
+	const port = 9005;
+	const clientId = "traced-client";
+
+	beforeAll(async () => {
+		server = await startTestServer(port);
+	});
+
+	afterAll(async () => {
+		clientSocket?.close();
+		await server.close();
+	});
+
+	// Connect a client that answers chat requests and reports the request
+	// messages it received
+	async function connectClient(
+		onRequest: (message: Record<string, unknown>) => void,
+	): Promise<void> {
+		({ socket: clientSocket } = await connectTestClient(port, clientId));
+
+		clientSocket.on("message", (data: WebSocket.RawData) => {
+			const message = JSON.parse(data.toString());
+
+			if (message.type === MessageType.CHAT_REQUEST) {
+				onRequest(message);
+				clientSocket.send(
+					JSON.stringify({
+						type: MessageType.CHAT_RESPONSE,
+						requestId: message.requestId,
+						data: {
+							id: "test-chat",
+							object: "chat.completion",
+							choices: [
+								{
+									index: 0,
+									message: { role: "assistant", content: "Traced" },
+									finish_reason: "stop",
+								},
+							],
+						},
+					}),
+				);
+			}
+		});
+	}
+
+	it("should continue the caller's trace across the WebSocket hop", async () => {
+		const traceId = "0af7651916cd43dd8448eb211c80319c";
+		const callerSpanId = "b7ad6b7169203331";
+		const received: Record<string, unknown>[] = [];
+		await connectClient((message) => received.push(message));
+
+		const response = await request(server.app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${TEST_API_KEY}`)
+			.set("traceparent", `00-${traceId}-${callerSpanId}-01`)
+			.send({
+				model: "test-model",
+				messages: [{ role: "user", content: "Hello, world!" }],
+			});
+
+		expect(response.status).toBe(200);
+		expect(received).toHaveLength(1);
+		const [, messageTraceId, dispatchSpanId] = String(
+			received[0].traceparent,
+		).split("-");
+		expect(messageTraceId).toBe(traceId);
+
+		// Shutting down exports every span still buffered
+		await shutdownTracing();
+
+		expect(mockCollector.urls).toEqual(["http://collector:4318/v1/traces"]);
+		const exported = (name: string) => {
+			const span = mockCollector.spans.find((span) => span.name === name);
+			return {
+				traceId: span?.spanContext().traceId,
+				spanId: span?.spanContext().spanId,
+				parentSpanId: span?.parentSpanContext?.spanId,
+			};
+		};
+		const httpSpan = exported("POST /v1/chat/completions");
+		expect(httpSpan).toMatchObject({ traceId, parentSpanId: callerSpanId });
+		expect(exported("dispatch chat")).toEqual({
+			traceId,
+			spanId: dispatchSpanId,
+			parentSpanId: httpSpan.spanId,
+		});
+	});
+});
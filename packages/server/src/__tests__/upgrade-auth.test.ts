@@ -0,0 +1,160 @@
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+
+// Set environment variables BEFORE importing modules that use config
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "upgrade-auth-"));
+const testApiKey = "test-api-key";
+process.env.API_KEY = testApiKey;
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.WS_PATH = "/ws";
+process.env.KEY_STORE_PATH = path.join(dataDir, "api-keys.json");
+process.env.MAX_PENDING_CONNECTIONS_PER_IP = "2";
+
+import {
+	MessageType,
+	UPGRADE_AUTH_PROTOCOL_PREFIX,
+	WS_SUBPROTOCOL,
+} from "@lmstudio-proxy/common";
+import express from "express";
+import WebSocket from "ws";
+import { keyStore, Scope } from "../auth/key-store";
+import { setupWebSocketServer } from "../websocket/server";
+
+describe("WebSocket upgrade authentication", () => {
+	let server: http.Server;
+	let wss: WebSocket.Server;
+	const port = 9003;
+	const serverUrl = `ws://localhost:${port}/ws`;
+	const sockets: WebSocket[] = [];
+
+	beforeAll((done) => {
+		server = http.createServer(express());
+		wss = setupWebSocketServer(server);
+		server.listen(port, done);
+	});
+
+	afterEach(async () => {
+		// Wait for the server to see every test client go away
+		await Promise.all(
+			sockets.splice(0).map(
+				(socket) =>
+					new Promise<void>((resolve) => {
+						if (socket.readyState === WebSocket.CLOSED) {
+							resolve();
+							return;
+						}
+						socket.once("close", () => resolve());
+						socket.close();
+					}),
+			),
+		);
+	});
+
+	afterAll((done) => {
+		wss.close(() => {
+			server.close(done);
+		});
+	});
+
+	// Open a connection, resolving once it is open or with the HTTP error
+	function connect(
+		options: { protocols?: string[]; headers?: Record<string, string> } = {},
+	): Promise<WebSocket> {
+		return new Promise((resolve, reject) => {
+			const socket = new WebSocket(serverUrl, options.protocols, {
+				headers: options.headers,
+			});
+			sockets.push(socket);
+			socket.on("open", () => resolve(socket));
+			socket.on("error", reject);
+		});
+	}
+
+	// Authenticate without answering the challenge and wait for the result
+	function register(
+		socket: WebSocket,
+		clientId: string,
+	): Promise<{ success: boolean; error?: string }> {
+		return new Promise((resolve) => {
+			socket.on("message", (data: WebSocket.RawData) => {
+				const message = JSON.parse(data.toString());
+
+				if (message.type === MessageType.AUTH_RESULT) {
+					resolve(message);
+				}
+			});
+
+			socket.send(
+				JSON.stringify({
+					type: MessageType.AUTH,
+					clientId,
+					timestamp: Date.now(),
+				}),
+			);
+		});
+	}
+
+	it("should accept a key in the Authorization header", async () => {
+		const socket = await connect({
+			headers: { Authorization: `Bearer ${testApiKey}` },
+		});
+
+		expect(await register(socket, "header-client")).toMatchObject({
+			success: true,
+		});
+	});
+
+	it("should accept a key in an auth subprotocol", async () => {
+		const socket = await connect({
+			protocols: [
+				WS_SUBPROTOCOL,
+				`${UPGRADE_AUTH_PROTOCOL_PREFIX}${testApiKey}`,
+			],
+		});
+
+		// The credential is never echoed back
+		expect(socket.protocol).toBe(WS_SUBPROTOCOL);
+		expect(await register(socket, "subprotocol-client")).toMatchObject({
+			success: true,
+		});
+	});
+
+	it("should refuse invalid credentials before the socket exists", async () => {
+		await expect(
+			connect({ headers: { Authorization: "Bearer invalid-key" } }),
+		).rejects.toThrow("Unexpected server response: 401");
+	});
+
+	it("should refuse keys that may not register clients", async () => {
+		const { key } = keyStore.create({
+			name: "inference only",
+			scopes: [Scope.INFERENCE],
+		});
+
+		await expect(
+			connect({ headers: { Authorization: `Bearer ${key}` } }),
+		).rejects.toThrow("Unexpected server response: 403");
+	});
+
+	it("should cap the connections an IP may hold before authenticating", async () => {
+		await connect();
+		await connect();
+
+		await expect(connect()).rejects.toThrow("Unexpected server response: 429");
+
+		// Authenticated upgrades do not count against the cap
+		await expect(
+			connect({ headers: { Authorization: `Bearer ${testApiKey}` } }),
+		).resolves.toBeInstanceOf(WebSocket);
+	});
+
+	it("should refuse unsigned clients that brought no credentials", async () => {
+		const socket = await connect();
+
+		expect(await register(socket, "unsigned-client")).toMatchObject({
+			success: false,
+		});
+	});
+});
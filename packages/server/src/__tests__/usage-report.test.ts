@@ -0,0 +1,210 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Set environment variables BEFORE importing modules that use config
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-report-"));
+const adminKey = "test-admin-key";
+process.env.API_KEY = adminKey;
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.KEY_STORE_PATH = path.join(dataDir, "api-keys.json");
+process.env.USAGE_LOG_PATH = path.join(dataDir, "usage.log");
+
+import express from "express";
+import request from "supertest";
+import { apiRouter } from "../api";
+import { keyStore, Scope } from "../auth/key-store";
+import { errorHandler } from "../middleware/error-handler";
+import { quotaTracker } from "../quota/quota-tracker";
+import { type UsageRecord, usageStore } from "../quota/usage-store";
+
+describe("Usage reporting", () => {
+	const app = express();
+	app.use(express.json());
+	app.use("/v1", apiRouter);
+	app.use(errorHandler);
+
+	const alice = keyStore.create({ name: "alice", scopes: [Scope.INFERENCE] });
+	const bob = keyStore.create({ name: "bob", scopes: [Scope.INFERENCE] });
+
+	// Record a request at the given time
+	function recordAt(
+		timestamp: string,
+		entry: Partial<Omit<UsageRecord, "timestamp">>,
+	): void {
+		jest.setSystemTime(new Date(timestamp));
+		usageStore.record({
+			requestId: `req-${timestamp}`,
+			keyId: alice.record.id,
+			tenant: null,
+			model: "test-model",
+			clientId: "client-1",
+			type: "chat",
+			stream: false,
+			outcome: "success",
+			status: 200,
+			latencyMs: 100,
+			promptTokens: 10,
+			completionTokens: 5,
+			totalTokens: 15,
+			estimated: false,
+			...entry,
+		});
+	}
+
+	beforeAll(() => {
+		jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+		recordAt("2026-03-01T09:15:00Z", {});
+		recordAt("2026-03-01T09:45:00Z", {
+			stream: true,
+			outcome: "cancelled",
+			latencyMs: 300,
+			promptTokens: 20,
+			completionTokens: 2,
+			totalTokens: 22,
+			estimated: true,
+		});
+		recordAt("2026-03-01T10:05:00Z", {
+			clientId: null,
+			outcome: "error",
+			status: 503,
+			promptTokens: 0,
+			completionTokens: 0,
+			totalTokens: 0,
+		});
+		recordAt("2026-03-02T08:00:00Z", { keyId: bob.record.id, model: "other" });
+		jest.useRealTimers();
+	});
+
+	afterAll(() => {
+		fs.rmSync(dataDir, { recursive: true, force: true });
+	});
+
+	it("should sum up a key's usage per bucket, model and client", async () => {
+		const response = await request(app)
+			.get("/v1/usage?bucket=hour")
+			.set("Authorization", `Bearer ${alice.key}`);
+
+		expect(response.status).toBe(200);
+		expect(response.body.data).toEqual([
+			expect.objectContaining({
+				bucket_start: "2026-03-01T09:00:00.000Z",
+				key_id: alice.record.id,
+				client_id: "client-1",
+				requests: 2,
+				cancelled: 1,
+				prompt_tokens: 30,
+				total_tokens: 37,
+				estimated_requests: 1,
+				average_latency_ms: 200,
+			}),
+			expect.objectContaining({
+				bucket_start: "2026-03-01T10:00:00.000Z",
+				client_id: null,
+				requests: 1,
+				failed: 1,
+			}),
+		]);
+	});
+
+	it("should filter by time range and model", async () => {
+		const response = await request(app)
+			.get("/v1/usage")
+			.query({ start: "2026-03-02", model: "other" })
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(response.status).toBe(200);
+		expect(response.body.data).toEqual([
+			expect.objectContaining({
+				bucket_start: "2026-03-02T00:00:00.000Z",
+				key_id: bob.record.id,
+				requests: 1,
+			}),
+		]);
+	});
+
+	it("should keep other keys' usage from keys without the admin scope", async () => {
+		const response = await request(app)
+			.get("/v1/usage")
+			.query({ key_id: bob.record.id })
+			.set("Authorization", `Bearer ${alice.key}`);
+
+		expect(response.status).toBe(403);
+	});
+
+	it("should export the summaries as CSV", async () => {
+		const response = await request(app)
+			.get("/v1/usage?format=csv&bucket=month")
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(response.status).toBe(200);
+		expect(response.headers["content-type"]).toMatch(/^text\/csv/);
+		expect(response.headers["content-disposition"]).toContain(
+			"usage-month.csv",
+		);
+		const lines = response.text.trim().split("\n");
+		expect(lines[0]).toBe(
+			"bucket_start,key_id,tenant,model,client_id,requests,failed,cancelled,prompt_tokens,completion_tokens,total_tokens,estimated_requests,average_latency_ms",
+		);
+		expect(lines).toHaveLength(4);
+		expect(lines[3]).toBe(
+			`2026-03-01T00:00:00.000Z,${bob.record.id},,other,client-1,1,0,0,10,5,15,0,100`,
+		);
+	});
+
+	it("should keep model names from running as spreadsheet formulas", async () => {
+		jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+		recordAt("2026-04-01T09:00:00Z", { model: '=HYPERLINK("http://evil")' });
+		jest.useRealTimers();
+
+		const response = await request(app)
+			.get("/v1/usage?format=csv")
+			.query({ start: "2026-04-01" })
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(response.text.trim().split("\n")[1]).toContain(
+			`,"'=HYPERLINK(""http://evil"")",`,
+		);
+	});
+
+	it("should report usage to keys whose token budget is used up", async () => {
+		const spent = keyStore.create({
+			name: "spent",
+			scopes: [Scope.INFERENCE],
+			quotas: { tokensPerDay: 10 },
+		});
+		quotaTracker.recordTokens(spent.record.id, 10);
+
+		const chat = await request(app)
+			.post("/v1/chat/completions")
+			.set("Authorization", `Bearer ${spent.key}`)
+			.send({ model: "test-model", messages: [] });
+		const usage = await request(app)
+			.get("/v1/usage")
+			.set("Authorization", `Bearer ${spent.key}`);
+
+		expect(chat.status).toBe(429);
+		expect(usage.status).toBe(200);
+	});
+
+	it("should reject unknown buckets", async () => {
+		const response = await request(app)
+			.get("/v1/usage?bucket=week")
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(response.status).toBe(400);
+		expect(response.body.error.type).toBe("invalid_request_error");
+	});
+
+	it("should skip a line cut short by a crash", async () => {
+		await usageStore.read();
+		fs.appendFileSync(process.env.USAGE_LOG_PATH as string, '{"timestamp":"20');
+
+		const response = await request(app)
+			.get("/v1/usage?bucket=month")
+			.set("Authorization", `Bearer ${adminKey}`);
+
+		expect(response.status).toBe(200);
+		expect(response.body.data).not.toHaveLength(0);
+	});
+});
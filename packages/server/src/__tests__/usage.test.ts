@@ -0,0 +1,66 @@
+import { StreamUsageCollector, usageFromResponse } from "../quota/usage";
+
+const chatRequest = {
+	model: "test-model",
+	messages: [{ role: "user", content: "Say hello to the world" }],
+};
+
+describe("usage", () => {
+	it("should use the usage LM Studio reported", () => {
+		expect(
+			usageFromResponse(chatRequest, {
+				choices: [{ message: { content: "Hello world" } }],
+				usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+			}),
+		).toEqual({
+			promptTokens: 12,
+			completionTokens: 3,
+			totalTokens: 15,
+			estimated: false,
+		});
+	});
+
+	it("should estimate usage from the text when none was reported", () => {
+		expect(
+			usageFromResponse(chatRequest, {
+				choices: [{ message: { content: "Hello world" } }],
+			}),
+		).toEqual({
+			promptTokens: 6,
+			completionTokens: 3,
+			totalTokens: 9,
+			estimated: true,
+		});
+	});
+
+	it("should estimate streamed usage from events split across chunks", () => {
+		const collector = new StreamUsageCollector(chatRequest);
+
+		collector.push(
+			'data: {"choices":[{"delta":{"content":"Hello "}}]}\n\ndata: {"choi',
+		);
+		collector.push('ces":[{"delta":{"content":"world"}}]}\n\ndata: [DONE]\n\n');
+
+		expect(collector.finish()).toEqual({
+			promptTokens: 6,
+			completionTokens: 3,
+			totalTokens: 9,
+			estimated: true,
+		});
+	});
+
+	it("should prefer usage reported in the final stream event", () => {
+		const collector = new StreamUsageCollector(chatRequest);
+
+		collector.push('data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n');
+		collector.push(
+			'data: {"choices":[],"usage":{"prompt_tokens":10,"completion_tokens":1,"total_tokens":11}}\n\n',
+		);
+
+		expect(collector.finish()?.totalTokens).toBe(11);
+	});
+
+	it("should report nothing for streams without output", () => {
+		expect(new StreamUsageCollector(chatRequest).finish()).toBeUndefined();
+	});
+});
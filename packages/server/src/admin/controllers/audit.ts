@@ -0,0 +1,29 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { Request, Response } from "express";
+import { auditLog } from "../../auth/audit-log";
+import { ApiError } from "../../utils/error";
+
+// Entries returned when no limit is given
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Handle audit trail requests, newest first and optionally for a single key
+ */
+export async function listAuditHandler(
+	req: Request,
+	res: Response,
+): Promise<void> {
+	const limit = Number(req.query.limit ?? DEFAULT_LIMIT);
+	if (!Number.isInteger(limit) || limit < 1) {
+		throw new ApiError(
+			HTTP_STATUS.BAD_REQUEST,
+			"'limit' must be a positive integer",
+			"invalid_request_error",
+		);
+	}
+
+	const keyId =
+		typeof req.query.keyId === "string" ? req.query.keyId : undefined;
+
+	res.json({ entries: await auditLog.read(limit, keyId) });
+}
@@ -0,0 +1,103 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { Request, Response } from "express";
+import { auditLog } from "../../auth/audit-log";
+import { ApiError } from "../../utils/error";
+import { clientManager, requestQueue } from "../../websocket/server";
+import type { ExtendedWebSocket } from "../../websocket/types";
+
+/**
+ * Look up the connected client named in the route
+ */
+function findClient(req: Request): ExtendedWebSocket {
+	const ws = clientManager.getClient(String(req.params.clientId));
+	if (!ws) {
+		throw new ApiError(
+			HTTP_STATUS.NOT_FOUND,
+			`Client '${req.params.clientId}' is not connected`,
+			"invalid_request_error",
+		);
+	}
+	return ws;
+}
+
+// API key that made an admin request, for the audit trail
+function actor(req: Request): string {
+	return req.user?.keyId ?? "unknown";
+}
+
+function toClientView(ws: ExtendedWebSocket) {
+	// Requests that finished, whether answered, failed or cancelled
+	const finished = ws.stats.dispatched - ws.stats.inFlight;
+
+	return {
+		clientId: ws.clientId,
+		tenant: ws.tenant,
+		remoteAddress: ws.remoteAddress,
+		connectedAt: new Date(ws.connectedAt).toISOString(),
+		protocolVersion: ws.protocolVersion,
+		capabilities: [...ws.capabilities],
+		capacity: ws.capacity,
+		maxConcurrency: ws.maxConcurrency,
+		draining: ws.draining,
+		inFlight: ws.stats.inFlight,
+		dispatched: ws.stats.dispatched,
+		failed: ws.stats.failed,
+		errorRate: finished > 0 ? ws.stats.failed / finished : 0,
+		misdirectedResponses: ws.stats.misdirectedResponses,
+		latencyEwmaMs:
+			ws.stats.latencyEwmaMs === null
+				? null
+				: Math.round(ws.stats.latencyEwmaMs),
+		pingRttMs: ws.pingRttMs,
+		models: ws.models ? [...ws.models.values()] : null,
+	};
+}
+
+/**
+ * Handle list clients requests
+ * Shows the counters the load balancer bases its decisions on
+ */
+export function listClientsHandler(_req: Request, res: Response): void {
+	const clients = [...clientManager.getAllClients().values()].map(toClientView);
+
+	res.json({
+		loadBalancingStrategy: clientManager.getLoadBalancingStrategy(),
+		queueLength: requestQueue.getLength(),
+		clients,
+	});
+}
+
+/**
+ * Handle drain requests, after which a client is given no new requests
+ * but finishes those it has
+ */
+export function drainClientHandler(req: Request, res: Response): void {
+	const ws = findClient(req);
+	clientManager.drainClient(ws.clientId);
+	auditLog.record({
+		action: "client.drained",
+		actor: actor(req),
+		keyId: ws.keyId ?? undefined,
+		details: { clientId: ws.clientId },
+	});
+
+	res.json(toClientView(ws));
+}
+
+/**
+ * Handle disconnect requests
+ * Requests in flight on the client fail or are retried elsewhere, and the
+ * client may reconnect unless its key is revoked
+ */
+export function disconnectClientHandler(req: Request, res: Response): void {
+	const ws = findClient(req);
+	ws.close(1000, "Disconnected by an administrator");
+	auditLog.record({
+		action: "client.disconnected",
+		actor: actor(req),
+		keyId: ws.keyId ?? undefined,
+		details: { clientId: ws.clientId },
+	});
+
+	res.json(toClientView(ws));
+}
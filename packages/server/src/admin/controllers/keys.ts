@@ -0,0 +1,336 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { Request, Response } from "express";
+import { auditLog } from "../../auth/audit-log";
+import {
+	type ApiKeyRecord,
+	type IssuedKey,
+	isScope,
+	isTenantName,
+	keyStore,
+	Scope,
+	type UpdateKeyOptions,
+} from "../../auth/key-store";
+import type { KeyPolicy } from "../../auth/policy";
+import type { QuotaLimits } from "../../quota/quota-tracker";
+import { ApiError } from "../../utils/error";
+import { clientManager } from "../../websocket/server";
+
+// Limits a key may override
+const QUOTA_NAMES: (keyof QuotaLimits)[] = [
+	"requestsPerMinute",
+	"tokensPerDay",
+	"concurrentStreams",
+];
+
+/**
+ * Shape a key for responses, leaving out its secret hash
+ */
+function toKeyView(record: ApiKeyRecord) {
+	const { secretHash: _secretHash, ...view } = record;
+	return { ...view, active: keyStore.isActive(record.id) };
+}
+
+function invalid(message: string): ApiError {
+	return new ApiError(
+		HTTP_STATUS.BAD_REQUEST,
+		message,
+		"invalid_request_error",
+	);
+}
+
+/**
+ * Validate a key's quota overrides, where null restores the defaults
+ */
+function parseQuotas(quotas: unknown): Partial<QuotaLimits> | null {
+	if (quotas === null) {
+		return null;
+	}
+
+	if (typeof quotas !== "object" || Array.isArray(quotas)) {
+		throw invalid("'quotas' must be an object or null");
+	}
+
+	const parsed: Partial<QuotaLimits> = {};
+	for (const [name, value] of Object.entries(quotas)) {
+		if (!QUOTA_NAMES.includes(name as keyof QuotaLimits)) {
+			throw invalid(`'quotas' may only contain: ${QUOTA_NAMES.join(", ")}`);
+		}
+		if (!Number.isInteger(value) || (value as number) < 0) {
+			throw invalid(`'quotas.${name}' must be 0 or a positive integer`);
+		}
+		parsed[name as keyof QuotaLimits] = value as number;
+	}
+	return parsed;
+}
+
+/**
+ * Validate a key's policy, where null lifts all restrictions
+ */
+function parsePolicy(policy: unknown): KeyPolicy | null {
+	if (policy === null) {
+		return null;
+	}
+
+	if (typeof policy !== "object" || Array.isArray(policy)) {
+		throw invalid("'policy' must be an object or null");
+	}
+
+	const { models, maxTokens, minTemperature, maxTemperature, allowStreaming } =
+		policy as Record<string, unknown>;
+	const parsed: KeyPolicy = {};
+
+	if (models !== undefined) {
+		if (
+			!Array.isArray(models) ||
+			!models.every((model) => typeof model === "string" && model !== "")
+		) {
+			throw invalid("'policy.models' must be a list of model IDs or patterns");
+		}
+		parsed.models = models;
+	}
+
+	if (maxTokens !== undefined) {
+		if (!Number.isInteger(maxTokens) || (maxTokens as number) < 1) {
+			throw invalid("'policy.maxTokens' must be a positive integer");
+		}
+		parsed.maxTokens = maxTokens as number;
+	}
+
+	for (const [name, value] of [
+		["minTemperature", minTemperature],
+		["maxTemperature", maxTemperature],
+	] as const) {
+		if (value === undefined) continue;
+		if (typeof value !== "number" || value < 0) {
+			throw invalid(`'policy.${name}' must be a number of 0 or more`);
+		}
+		parsed[name] = value;
+	}
+
+	if (
+		parsed.minTemperature !== undefined &&
+		parsed.maxTemperature !== undefined &&
+		parsed.minTemperature > parsed.maxTemperature
+	) {
+		throw invalid("'policy.minTemperature' may not exceed 'maxTemperature'");
+	}
+
+	if (allowStreaming !== undefined) {
+		if (typeof allowStreaming !== "boolean") {
+			throw invalid("'policy.allowStreaming' must be a boolean");
+		}
+		parsed.allowStreaming = allowStreaming;
+	}
+
+	return parsed;
+}
+
+/**
+ * Validate the fields of a create or update request body
+ * @param partial Whether fields may be left out, as when updating
+ */
+function parseKeyOptions(body: unknown, partial: boolean): UpdateKeyOptions {
+	if (!body || typeof body !== "object") {
+		throw invalid("Request body must be a JSON object");
+	}
+
+	const { name, scopes, description, quotas, policy, tenant, expiresAt } =
+		body as Record<string, unknown>;
+	const options: UpdateKeyOptions = {};
+
+	if (name !== undefined || !partial) {
+		if (typeof name !== "string" || name.trim() === "") {
+			throw invalid("'name' must be a non-empty string");
+		}
+		options.name = name.trim();
+	}
+
+	if (scopes !== undefined || !partial) {
+		if (
+			!Array.isArray(scopes) ||
+			scopes.length === 0 ||
+			!scopes.every((scope) => typeof scope === "string" && isScope(scope))
+		) {
+			throw invalid(
+				"'scopes' must be a non-empty list of: inference, client:register, admin",
+			);
+		}
+		options.scopes = scopes as Scope[];
+	}
+
+	if (description !== undefined) {
+		if (description !== null && typeof description !== "string") {
+			throw invalid("'description' must be a string or null");
+		}
+		options.description = description;
+	}
+
+	if (quotas !== undefined) {
+		options.quotas = parseQuotas(quotas);
+	}
+
+	if (policy !== undefined) {
+		options.policy = parsePolicy(policy);
+	}
+
+	if (tenant !== undefined) {
+		if (
+			tenant !== null &&
+			(typeof tenant !== "string" || !isTenantName(tenant))
+		) {
+			throw invalid(
+				"'tenant' must be null or up to 64 letters, digits, '-' and '_'",
+			);
+		}
+		options.tenant = tenant;
+	}
+
+	if (expiresAt !== undefined) {
+		if (
+			expiresAt !== null &&
+			(typeof expiresAt !== "string" || Number.isNaN(Date.parse(expiresAt)))
+		) {
+			throw invalid("'expiresAt' must be an ISO date or null");
+		}
+		options.expiresAt = expiresAt && new Date(expiresAt).toISOString();
+	}
+
+	return options;
+}
+
+/**
+ * Look up the key named in the route
+ */
+function findKey(req: Request): ApiKeyRecord {
+	const record = keyStore.get(String(req.params.id));
+	if (!record) {
+		throw new ApiError(
+			HTTP_STATUS.NOT_FOUND,
+			`API key '${req.params.id}' not found`,
+			"invalid_request_error",
+		);
+	}
+	return record;
+}
+
+// API key that made an admin request, for the audit trail
+function actor(req: Request): string {
+	return req.user?.keyId ?? "unknown";
+}
+
+/**
+ * Close the connections of LM Studio clients that registered with a key,
+ * recording each in the audit trail
+ * @param reason Why, also sent to the clients as the close reason
+ */
+function disconnectClients(req: Request, keyId: string, reason: string): void {
+	for (const clientId of clientManager.disconnectKey(keyId, reason)) {
+		auditLog.record({
+			action: "client.disconnected",
+			actor: actor(req),
+			keyId,
+			details: { clientId, reason },
+		});
+	}
+}
+
+/**
+ * Handle list keys requests
+ */
+export function listKeysHandler(_req: Request, res: Response): void {
+	res.json({ keys: keyStore.list().map(toKeyView) });
+}
+
+/**
+ * Handle get key requests
+ */
+export function getKeyHandler(req: Request, res: Response): void {
+	res.json(toKeyView(findKey(req)));
+}
+
+/**
+ * Handle create key requests
+ * The full key is part of this response only
+ */
+export function createKeyHandler(req: Request, res: Response): void {
+	const options = parseKeyOptions(req.body, false);
+	const { record, key } = keyStore.create({
+		...options,
+		name: options.name as string,
+		scopes: options.scopes as Scope[],
+	});
+
+	auditLog.record({
+		action: "key.created",
+		actor: actor(req),
+		keyId: record.id,
+		details: {
+			name: record.name,
+			scopes: record.scopes,
+			tenant: record.tenant,
+		},
+	});
+
+	res.status(201).json({ ...toKeyView(record), key });
+}
+
+/**
+ * Handle update key requests, used to rename, rescope, annotate or move keys
+ * between tenants
+ */
+export function updateKeyHandler(req: Request, res: Response): void {
+	const { id, tenant } = findKey(req);
+	const options = parseKeyOptions(req.body, true);
+	const record = keyStore.update(id, options) as ApiKeyRecord;
+
+	auditLog.record({
+		action: "key.updated",
+		actor: actor(req),
+		keyId: id,
+		details: { ...options },
+	});
+
+	if (!record.scopes.includes(Scope.CLIENT_REGISTER)) {
+		disconnectClients(req, id, "API key lost the client:register scope");
+	} else if (record.tenant !== tenant) {
+		// Clients took their tenant from the key when they connected
+		disconnectClients(req, id, "API key moved to another tenant");
+	}
+
+	res.json(toKeyView(record));
+}
+
+/**
+ * Handle rotate key requests
+ * The old secret stops working and the new one is part of this response only
+ */
+export function rotateKeyHandler(req: Request, res: Response): void {
+	const { id, revokedAt } = findKey(req);
+	if (revokedAt) {
+		throw new ApiError(
+			HTTP_STATUS.CONFLICT,
+			`API key '${id}' is revoked and cannot be rotated`,
+			"invalid_request_error",
+		);
+	}
+
+	const { record, key } = keyStore.rotate(id) as IssuedKey;
+
+	auditLog.record({ action: "key.rotated", actor: actor(req), keyId: id });
+	disconnectClients(req, id, "API key rotated");
+
+	res.json({ ...toKeyView(record), key });
+}
+
+/**
+ * Handle revoke key requests
+ */
+export function revokeKeyHandler(req: Request, res: Response): void {
+	const { id } = findKey(req);
+	const record = keyStore.revoke(id) as ApiKeyRecord;
+
+	auditLog.record({ action: "key.revoked", actor: actor(req), keyId: id });
+	disconnectClients(req, id, "API key revoked");
+
+	res.json(toKeyView(record));
+}
@@ -0,0 +1,24 @@
+import type { Request, Response } from "express";
+import { requestRegistry } from "../../websocket/request-registry";
+
+/**
+ * Handle pending request listings, showing what every client is working
+ * on, oldest first
+ */
+export function listRequestsHandler(_req: Request, res: Response): void {
+	const now = Date.now();
+	const requests = requestRegistry
+		.getAll()
+		.sort((a, b) => a.createdAt - b.createdAt)
+		.map((request) => ({
+			requestId: request.requestId,
+			type: request.type,
+			stream: request.handler.stream,
+			clientId: request.clientId,
+			ageMs: now - request.createdAt,
+			timeoutInMs: Math.max(request.deadline - now, 0),
+			answering: request.firstResponseAt !== null,
+		}));
+
+	res.json({ count: requests.length, requests });
+}
@@ -0,0 +1,21 @@
+import express from "express";
+import { Scope } from "../auth/key-store";
+import { authMiddleware, requireScope } from "../middleware/auth";
+import auditRoutes from "./routes/audit";
+import clientsRoutes from "./routes/clients";
+import keysRoutes from "./routes/keys";
+import requestsRoutes from "./routes/requests";
+
+const router = express.Router();
+
+// Apply authentication to all admin routes
+router.use(authMiddleware);
+router.use(requireScope(Scope.ADMIN));
+
+// Mount route handlers
+router.use("/clients", clientsRoutes);
+router.use("/requests", requestsRoutes);
+router.use("/keys", keysRoutes);
+router.use("/audit", auditRoutes);
+
+export const adminRouter = router;
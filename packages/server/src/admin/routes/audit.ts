@@ -0,0 +1,9 @@
+import express from "express";
+import { listAuditHandler } from "../controllers/audit";
+
+const router = express.Router();
+
+// Read the audit trail of key changes
+router.get("/", listAuditHandler);
+
+export default router;
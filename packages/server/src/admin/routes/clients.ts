@@ -0,0 +1,17 @@
+import express from "express";
+import {
+	disconnectClientHandler,
+	drainClientHandler,
+	listClientsHandler,
+} from "../controllers/clients";
+
+const router = express.Router();
+
+// List connected clients and their traffic
+router.get("/", listClientsHandler);
+
+// Stop routing to a client, or drop its connection
+router.post("/:clientId/drain", drainClientHandler);
+router.post("/:clientId/disconnect", disconnectClientHandler);
+
+export default router;
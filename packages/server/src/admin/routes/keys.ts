@@ -0,0 +1,25 @@
+import express from "express";
+import {
+	createKeyHandler,
+	getKeyHandler,
+	listKeysHandler,
+	revokeKeyHandler,
+	rotateKeyHandler,
+	updateKeyHandler,
+} from "../controllers/keys";
+
+const router = express.Router();
+
+// List and create keys
+router.get("/", listKeysHandler);
+router.post("/", createKeyHandler);
+
+// Inspect and annotate a single key
+router.get("/:id", getKeyHandler);
+router.patch("/:id", updateKeyHandler);
+
+// Replace a key's secret or disable it for good
+router.post("/:id/rotate", rotateKeyHandler);
+router.post("/:id/revoke", revokeKeyHandler);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from "express";
+import { listRequestsHandler } from "../controllers/requests";
+
+const router = express.Router();
+
+// List requests dispatched to clients and not yet answered
+router.get("/", listRequestsHandler);
+
+export default router;
@@ -0,0 +1,104 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { isScope, type Scope } from "../../auth/key-store";
+import { config } from "../../config";
+import { ApiError } from "../../utils/error";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger("auth-controller");
+
+function invalid(message: string): ApiError {
+	return new ApiError(
+		HTTP_STATUS.BAD_REQUEST,
+		message,
+		"invalid_request_error",
+	);
+}
+
+/**
+ * Handle token requests, exchanging an API key for a short-lived JWT
+ *
+ * The token may be narrowed to fewer scopes and models than the key and is
+ * counted against the key's quotas. It stops working early when the key is
+ * revoked or rotated.
+ */
+export function issueTokenHandler(req: Request, res: Response): void {
+	const user = req.user;
+	if (!user?.keyId || user.viaToken) {
+		// Tokens must not be able to extend their own lifetime
+		throw new ApiError(
+			HTTP_STATUS.FORBIDDEN,
+			"Tokens can only be issued in exchange for an API key",
+			"permission_error",
+		);
+	}
+
+	const body = (req.body ?? {}) as Record<string, unknown>;
+
+	let scopes: Scope[] = user.scopes;
+	if (body.scopes !== undefined) {
+		if (
+			!Array.isArray(body.scopes) ||
+			body.scopes.length === 0 ||
+			!body.scopes.every((scope) => typeof scope === "string" && isScope(scope))
+		) {
+			throw invalid(
+				"'scopes' must be a non-empty list of: inference, client:register, admin",
+			);
+		}
+
+		const missing = body.scopes.filter((scope) => !user.scopes.includes(scope));
+		if (missing.length > 0) {
+			throw new ApiError(
+				HTTP_STATUS.FORBIDDEN,
+				`This API key does not have the scopes: ${missing.join(", ")}`,
+				"permission_error",
+			);
+		}
+		scopes = body.scopes;
+	}
+
+	let models: string[] | undefined;
+	if (body.models !== undefined) {
+		if (
+			!Array.isArray(body.models) ||
+			!body.models.every((model) => typeof model === "string" && model !== "")
+		) {
+			throw invalid("'models' must be a list of model IDs or patterns");
+		}
+		models = body.models;
+	}
+
+	const expiresIn = body.expires_in ?? config.tokenDefaultTtlSeconds;
+	if (
+		!Number.isInteger(expiresIn) ||
+		(expiresIn as number) < 1 ||
+		(expiresIn as number) > config.tokenMaxTtlSeconds
+	) {
+		throw invalid(
+			`'expires_in' must be between 1 and ${config.tokenMaxTtlSeconds} seconds`,
+		);
+	}
+
+	// The key ID doubles as the quota identity of the token's requests
+	const token = jwt.sign(
+		{ keyId: user.keyId, scopes, ...(models ? { models } : {}) },
+		config.jwtSecret,
+		{ expiresIn: expiresIn as number },
+	);
+
+	logger.info(`Issued token for API key ${user.keyId}`, {
+		scopes,
+		models,
+		expiresIn,
+	});
+
+	res.json({
+		access_token: token,
+		token_type: "Bearer",
+		expires_in: expiresIn,
+		scopes,
+		models: models ?? null,
+	});
+}
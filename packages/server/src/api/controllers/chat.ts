@@ -1,17 +1,7 @@
-import { MessageType } from "@lmstudio-proxy/common";
 import type { NextFunction, Request, Response } from "express";
-import { v4 as uuidv4 } from "uuid";
-import { ApiError } from "../../utils/error";
-import { createLogger } from "../../utils/logger";
-import { clientManager } from "../../websocket/server";
-
-const logger = createLogger("chat-controller");
-
-// Track pending requests
-const pendingRequests = new Map<string, any>();
-
-// Export pendingRequests for use in other modules
-export { pendingRequests };
+import { enforcePolicy } from "../../auth/policy";
+import { acquireStreamSlot, recordUsage } from "../../middleware/quota";
+import { forwardRequest, forwardStreamRequest } from "../forward";
 
 /**
  * Handle chat completion requests (non-streaming)
@@ -21,52 +11,21 @@ export async function chatCompletionHandler(
 	res: Response,
 	next: NextFunction,
 ): Promise<void> {
-	const requestId = uuidv4();
-
 	try {
-		// Find an available client to handle the request
-		const client = clientManager.findAvailableClient(req.body.model);
-
-		if (!client) {
-			throw new ApiError(503, "No available LM Studio clients");
-		}
-
-		// Create a promise that will be resolved when the response is received
-		const responsePromise = new Promise((resolve, reject) => {
-			// Store the request handlers
-			pendingRequests.set(requestId, {
-				resolve,
-				reject,
-				type: "chat",
-				handler: processChatResponse,
-				timeout: setTimeout(() => {
-					pendingRequests.delete(requestId);
-					reject(new ApiError(504, "Request timeout"));
-				}, 60000), // 60 second timeout
-			});
-		});
-
-		// Forward the request to the LM Studio client
-		client.send(
-			JSON.stringify({
-				type: MessageType.CHAT_REQUEST,
-				requestId,
-				data: req.body,
-			}),
+		enforcePolicy(req, "chat");
+
+		// Forward the request and wait for the response
+		const response = await forwardRequest(
+			"chat",
+			req.body,
+			60000, // 60 second timeout
+			req.user?.tenant ?? null,
+			(result) => recordUsage(req, result),
 		);
 
-		// Wait for the response
-		const response = await responsePromise;
-
 		// Send the response back to the client
 		res.json(response);
 	} catch (error) {
-		// Clean up if there was an error
-		if (pendingRequests.has(requestId)) {
-			const { timeout } = pendingRequests.get(requestId);
-			clearTimeout(timeout);
-			pendingRequests.delete(requestId);
-		}
 		next(error);
 	}
 }
@@ -79,144 +38,24 @@ export async function chatCompletionStreamHandler(
 	res: Response,
 	next: NextFunction,
 ): Promise<void> {
-	const requestId = uuidv4();
-
 	try {
-		// Find an available client to handle the request
-		const client = clientManager.findAvailableClient(req.body.model);
-
-		if (!client) {
-			throw new ApiError(503, "No available LM Studio clients");
+		// Keys that may not stream get a regular response
+		if (!enforcePolicy(req, "chat")) {
+			return chatCompletionHandler(req, res, next);
 		}
 
-		// Set up SSE response headers
-		res.setHeader("Content-Type", "text/event-stream");
-		res.setHeader("Cache-Control", "no-cache");
-		res.setHeader("Connection", "keep-alive");
-
-		// Create a stream handler
-		const handleStream = (chunk: any) => {
-			// Format chunk as SSE data
-			res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+		acquireStreamSlot(req, res);
 
-			// If this is the final chunk, end the response
-			if (chunk.choices?.[0].finish_reason) {
-				res.write("data: [DONE]\n\n");
-				res.end();
-				return true;
-			}
-			return false;
-		};
-
-		// Store the request handlers
-		pendingRequests.set(requestId, {
-			handleStream,
-			type: "chat",
-			handler: processChatResponse,
-			timeout: setTimeout(() => {
-				pendingRequests.delete(requestId);
-				res.write("data: [ERROR] Request timeout\n\n");
-				res.end();
-			}, 300000), // 5 minute timeout for streaming
-		});
-
-		// Forward the request to the LM Studio client
-		client.send(
-			JSON.stringify({
-				type: MessageType.CHAT_REQUEST,
-				requestId,
-				stream: true,
-				data: req.body,
-			}),
+		// Relay the stream back to the caller
+		forwardStreamRequest(
+			res,
+			"chat",
+			req.body,
+			300000, // 5 minute timeout for streaming
+			req.user?.tenant ?? null,
+			(result) => recordUsage(req, result),
 		);
-
-		// Handle client disconnect
-		req.on("close", () => {
-			if (pendingRequests.has(requestId)) {
-				const { timeout } = pendingRequests.get(requestId);
-				clearTimeout(timeout);
-				pendingRequests.delete(requestId);
-
-				// Notify client to stop processing
-				client.send(
-					JSON.stringify({
-						type: MessageType.CANCEL_REQUEST,
-						requestId,
-					}),
-				);
-			}
-		});
 	} catch (error) {
-		// Clean up if there was an error
-		if (pendingRequests.has(requestId)) {
-			const { timeout } = pendingRequests.get(requestId);
-			clearTimeout(timeout);
-			pendingRequests.delete(requestId);
-		}
 		next(error);
 	}
 }
-
-/**
- * Process incoming chat completion response
- * This is called from the message handler when a response is received
- */
-export function processChatResponse(message: any): void {
-	const { requestId, data, error, stream, streamEnd } = message;
-
-	logger.debug(`Processing chat response for request ${requestId}`, {
-		requestId,
-		hasData: !!data,
-		hasError: !!error,
-		isStream: !!stream,
-		isStreamEnd: !!streamEnd,
-		timestamp: new Date().toISOString(),
-	});
-
-	if (!pendingRequests.has(requestId)) {
-		logger.warn(`Received response for unknown request: ${requestId}`);
-		return;
-	}
-
-	const request = pendingRequests.get(requestId);
-
-	if (error) {
-		// Handle error response
-		if (stream) {
-			request.handleStream({ error: error.message || "Unknown error" });
-			clearTimeout(request.timeout);
-			pendingRequests.delete(requestId);
-		} else {
-			request.reject(new ApiError(500, error.message || "Unknown error"));
-			clearTimeout(request.timeout);
-			pendingRequests.delete(requestId);
-		}
-		return;
-	}
-
-	if (streamEnd) {
-		// Handle stream end - send final message and clean up
-		logger.debug(`Processing stream end for request ${requestId}`);
-		request.handleStream({
-			id: `chatcmpl-${requestId}`,
-			choices: [{ finish_reason: "stop" }],
-		});
-		clearTimeout(request.timeout);
-		pendingRequests.delete(requestId);
-		return;
-	}
-
-	if (stream) {
-		// Handle streaming response chunk
-		const done = request.handleStream(data);
-		if (done) {
-			clearTimeout(request.timeout);
-			pendingRequests.delete(requestId);
-		}
-	} else {
-		// Handle complete response
-		request.resolve(data);
-		clearTimeout(request.timeout);
-		pendingRequests.delete(requestId);
-	}
-}
@@ -1,43 +1,80 @@
-import { MessageType } from "@lmstudio-proxy/common";
 import type { NextFunction, Request, Response } from "express";
-import { v4 as uuidv4 } from "uuid";
-import { ApiError } from "../../utils/error";
+import { hasModelAllowlist, isModelAllowed } from "../../auth/policy";
 import { createLogger } from "../../utils/logger";
 import { clientManager } from "../../websocket/server";
+import type { ExtendedWebSocket } from "../../websocket/types";
+import { requestModels } from "../forward";
 
 const logger = createLogger("models-controller");
 
-// Track pending requests
-const pendingRequests = new Map<string, any>();
+// Models lists of clients that do not report their models, cached for a
+// short time per client
+const modelsCache: Map<string, { models: ModelEntry[]; expiry: number }> =
+	new Map();
+const CACHE_TTL_MS = 60000; // 1 minute
 
-// Export pendingRequests for use in other modules
-export { pendingRequests };
+// Entry of a models list, as LM Studio sends them
+interface ModelEntry {
+	id: string;
+	object?: string;
+	[field: string]: unknown;
+}
 
-// Cache models list for a short time to avoid frequent requests
-let modelsCache: any = null;
-let modelsCacheExpiry = 0;
-const CACHE_TTL_MS = 60000; // 1 minute
+/**
+ * Leave out the models the caller's key may not use
+ */
+function filterAllowedModels(req: Request, models: ModelEntry[]): ModelEntry[] {
+	if (!hasModelAllowlist(req)) {
+		return models;
+	}
+
+	return models.filter((model) => isModelAllowed(req, model.id));
+}
+
+/**
+ * Ask a client that never reported its models for its list
+ * Clients that fail to answer are left out of the listing.
+ */
+async function fetchUnreportedModels(
+	client: ExtendedWebSocket,
+): Promise<ModelEntry[]> {
+	const now = Date.now();
+	const cached = modelsCache.get(client.clientId);
+	if (cached && cached.expiry > now) {
+		logger.debug(`Returning cached models list of client ${client.clientId}`);
+		return cached.models;
+	}
+
+	let list: { data?: ModelEntry[] };
+	try {
+		list = (await requestModels(client, 10000)) as typeof list; // 10 second timeout
+	} catch (error) {
+		logger.warn(`Failed to list the models of client ${client.clientId}`, {
+			error,
+		});
+		return [];
+	}
+
+	const models = Array.isArray(list?.data) ? list.data : [];
+	modelsCache.set(client.clientId, { models, expiry: now + CACHE_TTL_MS });
+	return models;
+}
 
 /**
  * Handle list models requests
+ *
+ * Lists every model the clients serving the caller's tenant reported, and
+ * asks each client that never reported its models for its list.
  */
 export async function listModelsHandler(
-	_req: Request,
+	req: Request,
 	res: Response,
 	next: NextFunction,
 ): Promise<void> {
 	try {
-		// Check cache first
-		const now = Date.now();
-		if (modelsCache && modelsCacheExpiry > now) {
-			logger.debug("Returning cached models list");
-			res.json(modelsCache);
-			return;
-		}
-
-		const client = clientManager.findAvailableClient();
+		const tenant = req.user?.tenant ?? null;
 
-		if (!client) {
+		if (!clientManager.findAvailableClient(undefined, false, tenant)) {
 			// If no clients are available, return a default response
 			res.json({
 				object: "list",
@@ -47,67 +84,26 @@ export async function listModelsHandler(
 			return;
 		}
 
-		const requestId = uuidv4();
-
-		// Create a promise that will be resolved when the response is received
-		const responsePromise = new Promise((resolve, reject) => {
-			// Store the request handlers
-			pendingRequests.set(requestId, {
-				resolve,
-				reject,
-				timeout: setTimeout(() => {
-					pendingRequests.delete(requestId);
-					reject(new ApiError(504, "Request timeout"));
-				}, 10000), // 10 second timeout
-			});
-		});
-
-		// Forward the request to the LM Studio client
-		client.send(
-			JSON.stringify({
-				type: MessageType.MODELS_REQUEST,
-				requestId,
-			}),
+		const { models, unreported } = clientManager.getReportedModels(tenant);
+		const entries = new Map<string, ModelEntry>(
+			models.map((model) => [
+				model.id,
+				{ id: model.id, object: "model", owned_by: "organization_owner" },
+			]),
 		);
 
-		// Wait for the response
-		const response = await responsePromise;
-
-		// Cache the response
-		modelsCache = response;
-		modelsCacheExpiry = now + CACHE_TTL_MS;
+		const lists = await Promise.all(unreported.map(fetchUnreportedModels));
+		for (const model of lists.flat()) {
+			if (!entries.has(model.id)) {
+				entries.set(model.id, model);
+			}
+		}
 
-		// Send the response back to the client
-		res.json(response);
+		res.json({
+			object: "list",
+			data: filterAllowedModels(req, [...entries.values()]),
+		});
 	} catch (error) {
 		next(error);
 	}
 }
-
-/**
- * Process incoming models response
- * This is called from the message handler when a response is received
- */
-export function processModelsResponse(message: any): void {
-	const { requestId, data, error } = message;
-
-	if (!pendingRequests.has(requestId)) {
-		logger.warn(`Received response for unknown request: ${requestId}`);
-		return;
-	}
-
-	const request = pendingRequests.get(requestId);
-
-	if (error) {
-		// Handle error response
-		request.reject(new ApiError(500, error.message || "Unknown error"));
-		clearTimeout(request.timeout);
-		pendingRequests.delete(requestId);
-		return;
-	}
-
-	// Handle successful response
-	request.resolve(data);
-	clearTimeout(request.timeout);
-	pendingRequests.delete(requestId);
-}
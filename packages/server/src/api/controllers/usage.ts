@@ -0,0 +1,163 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { Request, Response } from "express";
+import { Scope } from "../../auth/key-store";
+import {
+	USAGE_BUCKETS,
+	type UsageBucket,
+	type UsageFilter,
+	type UsageSummary,
+	usageStore,
+} from "../../quota/usage-store";
+import { ApiError } from "../../utils/error";
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS = [
+	"bucket_start",
+	"key_id",
+	"tenant",
+	"model",
+	"client_id",
+	"requests",
+	"failed",
+	"cancelled",
+	"prompt_tokens",
+	"completion_tokens",
+	"total_tokens",
+	"estimated_requests",
+	"average_latency_ms",
+] as const;
+
+type UsageRow = Record<(typeof CSV_COLUMNS)[number], string | number | null>;
+
+function invalid(message: string): ApiError {
+	return new ApiError(
+		HTTP_STATUS.BAD_REQUEST,
+		message,
+		"invalid_request_error",
+	);
+}
+
+function stringParam(req: Request, name: string): string | undefined {
+	const value = req.query[name];
+	if (value === undefined) {
+		return undefined;
+	}
+	if (typeof value !== "string" || value === "") {
+		throw invalid(`'${name}' must be a single value`);
+	}
+	return value;
+}
+
+function timeParam(req: Request, name: string): Date | undefined {
+	const value = stringParam(req, name);
+	if (value === undefined) {
+		return undefined;
+	}
+
+	const time = new Date(value);
+	if (Number.isNaN(time.getTime())) {
+		throw invalid(`'${name}' must be an ISO 8601 date or time`);
+	}
+	return time;
+}
+
+function toRow(summary: UsageSummary): UsageRow {
+	return {
+		bucket_start: summary.bucketStart,
+		key_id: summary.keyId,
+		tenant: summary.tenant,
+		model: summary.model,
+		client_id: summary.clientId,
+		requests: summary.requests,
+		failed: summary.failed,
+		cancelled: summary.cancelled,
+		prompt_tokens: summary.promptTokens,
+		completion_tokens: summary.completionTokens,
+		total_tokens: summary.totalTokens,
+		estimated_requests: summary.estimatedRequests,
+		average_latency_ms: summary.averageLatencyMs,
+	};
+}
+
+// Leading characters spreadsheets read as the start of a formula
+const CSV_FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV cell, and keep spreadsheets from evaluating caller-chosen
+ * text such as model names as a formula
+ */
+function csvField(value: string | number | null): string {
+	let text = value === null ? "" : String(value);
+	if (typeof value === "string" && CSV_FORMULA_PATTERN.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Handle usage requests, summing up tokens, outcomes and latency per time
+ * bucket, key, model and client
+ *
+ * Keys see their own usage, admin keys that of every key. `format=csv`
+ * returns the same rows as a CSV download for chargeback.
+ */
+export async function usageHandler(req: Request, res: Response): Promise<void> {
+	const user = req.user;
+	const isAdmin = user?.scopes.includes(Scope.ADMIN) ?? false;
+
+	const filter: UsageFilter = {
+		keyId: stringParam(req, "key_id"),
+		model: stringParam(req, "model"),
+		clientId: stringParam(req, "client_id"),
+		from: timeParam(req, "start"),
+		to: timeParam(req, "end"),
+	};
+
+	if (!isAdmin) {
+		if (!user?.keyId) {
+			throw new ApiError(
+				HTTP_STATUS.FORBIDDEN,
+				"Usage is only reported for API keys",
+				"permission_error",
+			);
+		}
+		if (filter.keyId !== undefined && filter.keyId !== user.keyId) {
+			throw new ApiError(
+				HTTP_STATUS.FORBIDDEN,
+				"Only admin keys may see the usage of other keys",
+				"permission_error",
+			);
+		}
+		filter.keyId = user.keyId;
+	}
+
+	const bucket = stringParam(req, "bucket") ?? "day";
+	if (!USAGE_BUCKETS.includes(bucket as UsageBucket)) {
+		throw invalid(`'bucket' must be one of: ${USAGE_BUCKETS.join(", ")}`);
+	}
+
+	const format = stringParam(req, "format") ?? "json";
+	if (format !== "json" && format !== "csv") {
+		throw invalid("'format' must be json or csv");
+	}
+
+	const rows = (await usageStore.summarize(filter, bucket as UsageBucket)).map(
+		toRow,
+	);
+
+	if (format === "csv") {
+		const lines = [
+			CSV_COLUMNS.join(","),
+			...rows.map((row) =>
+				CSV_COLUMNS.map((column) => csvField(row[column])).join(","),
+			),
+		];
+		res
+			.type("text/csv")
+			.attachment(`usage-${bucket}.csv`)
+			.send(`${lines.join("\n")}\n`);
+		return;
+	}
+
+	res.json({ object: "list", bucket, data: rows });
+}
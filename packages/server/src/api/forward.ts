@@ -0,0 +1,577 @@
+import {
+	Capability,
+	createMessage,
+	ERROR_MESSAGES,
+	ErrorCode,
+	HTTP_STATUS,
+	MessageType,
+	type RequestMessage,
+} from "@lmstudio-proxy/common";
+import { context, type Span } from "@opentelemetry/api";
+import type { Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import {
+	relayedBytes,
+	streamTimeToFirstToken,
+	streamTokensPerSecond,
+} from "../metrics/metrics";
+import {
+	StreamUsageCollector,
+	type TokenUsage,
+	usageFromResponse,
+} from "../quota/usage";
+import type { UsageOutcome } from "../quota/usage-store";
+import { ApiError, errorBody } from "../utils/error";
+import { createLogger } from "../utils/logger";
+import { endSpan, startDispatchSpan, traceCarrier } from "../utils/tracing";
+import { sendCancelRequest } from "../websocket/cancellation";
+import type { QueueEntry } from "../websocket/request-queue";
+import {
+	type RequestType,
+	requestRegistry,
+} from "../websocket/request-registry";
+import { clientManager, requestQueue } from "../websocket/server";
+import type { ExtendedWebSocket } from "../websocket/types";
+
+const logger = createLogger("forward");
+
+// How often a non-streaming request is re-dispatched after its client disconnects
+const DISCONNECT_RETRIES = 1;
+
+// Interval of the SSE comments sent to streaming callers waiting in the queue
+const QUEUE_KEEPALIVE_INTERVAL_MS = 5000;
+
+// WebSocket message used to dispatch each request type
+const REQUEST_MESSAGE_TYPES: Record<RequestType, MessageType> = {
+	chat: MessageType.CHAT_REQUEST,
+	completion: MessageType.COMPLETION_REQUEST,
+	embeddings: MessageType.EMBEDDINGS_REQUEST,
+	models: MessageType.MODELS_REQUEST,
+};
+
+/**
+ * How a forwarded request ended
+ */
+export interface ForwardResult {
+	requestId: string;
+	type: RequestType;
+	stream: boolean;
+	model: string | null;
+	// Client that served the request, null when none was assigned
+	clientId: string | null;
+	outcome: UsageOutcome;
+	// HTTP status the caller got
+	status: number;
+	// Time from arrival to the last byte, including the wait in the queue
+	latencyMs: number;
+	// Tokens used, unless the request never produced any output
+	usage?: TokenUsage;
+}
+
+/**
+ * Find a client to handle a request
+ * @throws ApiError when no client is available or none serves the model
+ */
+function selectClient(
+	modelId: string | undefined,
+	tenant: string | null,
+): ExtendedWebSocket {
+	const client = clientManager.findAvailableClient(modelId, false, tenant);
+
+	if (client) {
+		return client;
+	}
+
+	// Clients are connected, they just do not serve this model
+	if (modelId && clientManager.findAvailableClient(undefined, false, tenant)) {
+		throw new ApiError(
+			HTTP_STATUS.NOT_FOUND,
+			`The model '${modelId}' is not served by any connected client`,
+			"invalid_request_error",
+			ErrorCode.MODEL_NOT_FOUND,
+		);
+	}
+
+	throw new ApiError(503, ERROR_MESSAGES.NO_CLIENTS);
+}
+
+/**
+ * Error returned when a client does not answer before the deadline
+ */
+function requestTimeoutError(): ApiError {
+	return new ApiError(
+		HTTP_STATUS.GATEWAY_TIMEOUT,
+		ERROR_MESSAGES.REQUEST_TIMEOUT,
+		"server_error",
+		ErrorCode.REQUEST_TIMEOUT,
+	);
+}
+
+/**
+ * Error returned when a client disconnects before answering
+ */
+function clientDisconnectedError(): ApiError {
+	return new ApiError(
+		HTTP_STATUS.BAD_GATEWAY,
+		ERROR_MESSAGES.CLIENT_DISCONNECTED,
+		"server_error",
+		ErrorCode.CLIENT_DISCONNECTED,
+	);
+}
+
+/**
+ * Get the model a request body asks for
+ */
+function requestedModel(data: unknown): string | undefined {
+	return data !== null &&
+		typeof data === "object" &&
+		"model" in data &&
+		typeof data.model === "string"
+		? data.model
+		: undefined;
+}
+
+/**
+ * Terminate a streaming response with an error
+ *
+ * Before the first chunk the caller still gets a regular JSON error with the
+ * matching HTTP status, afterwards a final `error` event ends the stream.
+ */
+function failStream(res: Response, error: Error): void {
+	const apiError =
+		error instanceof ApiError
+			? error
+			: new ApiError(HTTP_STATUS.BAD_GATEWAY, error.message, "server_error");
+
+	if (!res.headersSent) {
+		// Replaces the event-stream content type set up front
+		if (apiError.retryAfter !== undefined) {
+			res.setHeader("Retry-After", String(apiError.retryAfter));
+		}
+		res.status(apiError.statusCode).type("json").json(errorBody(apiError));
+		return;
+	}
+
+	res.write(`event: error\ndata: ${JSON.stringify(errorBody(apiError))}\n\n`);
+	res.end();
+}
+
+/**
+ * HTTP status a failed request is answered with
+ */
+function errorStatus(error: unknown): number {
+	return error instanceof ApiError
+		? error.statusCode
+		: HTTP_STATUS.INTERNAL_SERVER_ERROR;
+}
+
+/**
+ * Send a request message to a client
+ * @param span Span of the dispatch, which the client continues
+ */
+function dispatch(
+	client: ExtendedWebSocket,
+	type: RequestType,
+	requestId: string,
+	data: unknown,
+	stream: boolean,
+	span: Span,
+): void {
+	const message = JSON.stringify(
+		createMessage<RequestMessage>(REQUEST_MESSAGE_TYPES[type], {
+			requestId,
+			data,
+			...(stream ? { stream } : {}),
+			...traceCarrier(span),
+		}),
+	);
+
+	client.send(message);
+	relayedBytes.inc(
+		{ client_id: client.clientId, direction: "out" },
+		Buffer.byteLength(message),
+	);
+}
+
+/**
+ * Forward a non-streaming request to a client and wait for its response
+ *
+ * None of the forwarded endpoints change state in LM Studio, so a request
+ * whose client disconnects before answering is retried once on another client.
+ *
+ * @param tenant Tenant of the caller, which decides the clients it may use
+ * @param onFinish Called once the request succeeded or failed, with the
+ * tokens it used
+ */
+export function forwardRequest(
+	type: RequestType,
+	data: unknown,
+	timeoutMs: number,
+	tenant: string | null,
+	onFinish?: (result: ForwardResult) => void,
+): Promise<unknown> {
+	const requestId = uuidv4();
+	const modelId = requestedModel(data);
+	// Dispatches continue the trace of the API request, even from the queue
+	const parent = context.active();
+	const receivedAt = Date.now();
+	let servedBy: ExtendedWebSocket | undefined;
+	let deadline: number | undefined;
+
+	const finish = (status: number, usage?: TokenUsage) =>
+		onFinish?.({
+			requestId,
+			type,
+			stream: false,
+			model: modelId ?? null,
+			clientId: servedBy?.clientId ?? null,
+			outcome: status < HTTP_STATUS.BAD_REQUEST ? "success" : "error",
+			status,
+			latencyMs: Date.now() - receivedAt,
+			usage,
+		});
+
+	return new Promise((resolve, reject) => {
+		const attempt = (target: ExtendedWebSocket, retriesLeft: number) => {
+			// Retries keep the deadline of the first dispatch
+			deadline ??= Date.now() + timeoutMs;
+			servedBy = target;
+
+			const span = startDispatchSpan(
+				type,
+				requestId,
+				target.clientId,
+				modelId,
+				parent,
+			);
+			const fail = (error: Error) => {
+				endSpan(span, error);
+				reject(error);
+			};
+
+			requestRegistry.register({
+				requestId,
+				type,
+				client: target,
+				timeoutMs: Math.max(deadline - Date.now(), 0),
+				handler: {
+					stream: false,
+					onResponse: (response) => {
+						endSpan(span);
+						resolve(response);
+					},
+					onError: fail,
+				},
+				onTimeout: () => {
+					sendCancelRequest(target, requestId);
+					fail(requestTimeoutError());
+				},
+				onDisconnect: () => {
+					endSpan(span, clientDisconnectedError());
+					if (
+						retriesLeft === 0 ||
+						!clientManager.findAvailableClient(modelId, false, tenant)
+					) {
+						reject(clientDisconnectedError());
+						return;
+					}
+
+					logger.info(`Retrying ${type} request ${requestId}`, {
+						disconnectedClientId: target.clientId,
+					});
+					requestQueue.enqueue({
+						modelId,
+						tenant,
+						onAssigned: (next) => attempt(next, retriesLeft - 1),
+						onRejected: reject,
+					});
+				},
+			});
+
+			logger.debug(`Forwarding ${type} request ${requestId}`, {
+				clientId: target.clientId,
+			});
+
+			try {
+				dispatch(target, type, requestId, data, false, span);
+			} catch (error) {
+				requestRegistry.complete(requestId);
+				fail(error as Error);
+			}
+		};
+
+		// Fail right away when waiting could never help
+		selectClient(modelId, tenant);
+
+		requestQueue.enqueue({
+			modelId,
+			tenant,
+			onAssigned: (client) => attempt(client, DISCONNECT_RETRIES),
+			onRejected: reject,
+		});
+	}).then(
+		(response) => {
+			finish(HTTP_STATUS.OK, usageFromResponse(data, response));
+			return response;
+		},
+		(error) => {
+			finish(errorStatus(error));
+			throw error;
+		},
+	);
+}
+
+/**
+ * Ask a client for its models list
+ *
+ * Listing models is cheap, so the request skips the queue instead of
+ * waiting behind generations, and it is not retried elsewhere as another
+ * client's list would be a different one.
+ */
+export function requestModels(
+	client: ExtendedWebSocket,
+	timeoutMs: number,
+): Promise<unknown> {
+	const requestId = uuidv4();
+	const span = startDispatchSpan(
+		"models",
+		requestId,
+		client.clientId,
+		undefined,
+		context.active(),
+	);
+
+	return new Promise((resolve, reject) => {
+		const fail = (error: Error) => {
+			endSpan(span, error);
+			reject(error);
+		};
+
+		requestRegistry.register({
+			requestId,
+			type: "models",
+			client,
+			timeoutMs,
+			handler: {
+				stream: false,
+				onResponse: (response) => {
+					endSpan(span);
+					resolve(response);
+				},
+				onError: fail,
+			},
+			onTimeout: () => {
+				sendCancelRequest(client, requestId);
+				fail(requestTimeoutError());
+			},
+			onDisconnect: () => fail(clientDisconnectedError()),
+		});
+
+		logger.debug(`Requesting models from client ${client.clientId}`, {
+			requestId,
+		});
+
+		try {
+			dispatch(client, "models", requestId, undefined, false, span);
+		} catch (error) {
+			requestRegistry.complete(requestId);
+			fail(error as Error);
+		}
+	});
+}
+
+/**
+ * Forward a streaming request to a client and relay its chunks as
+ * server-sent events
+ *
+ * While the request waits in the queue the caller receives SSE comments
+ * with its position, which also keep the connection alive.
+ *
+ * @param tenant Tenant of the caller, which decides the clients it may use
+ * @param onFinish Called once the stream is over, with the tokens it used
+ */
+export function forwardStreamRequest(
+	res: Response,
+	type: RequestType,
+	data: unknown,
+	timeoutMs: number,
+	tenant: string | null,
+	onFinish?: (result: ForwardResult) => void,
+): void {
+	const requestId = uuidv4();
+	const modelId = requestedModel(data);
+	const parent = context.active();
+	const receivedAt = Date.now();
+	let client: ExtendedWebSocket | undefined;
+	let span: Span | undefined;
+	let keepalive: NodeJS.Timeout | undefined;
+	// Streams the caller closes before they end count as cancelled
+	let outcome: UsageOutcome = "cancelled";
+
+	const finish = (status: number, used?: TokenUsage) =>
+		onFinish?.({
+			requestId,
+			type,
+			stream: true,
+			model: modelId ?? null,
+			clientId: client?.clientId ?? null,
+			outcome,
+			status,
+			latencyMs: Date.now() - receivedAt,
+			usage: used,
+		});
+
+	// Fail right away when waiting could never help, reported like the
+	// failures of non-streaming requests
+	try {
+		selectClient(modelId, tenant);
+	} catch (error) {
+		outcome = "error";
+		finish(errorStatus(error));
+		throw error;
+	}
+
+	// Set up SSE response headers
+	res.setHeader("Content-Type", "text/event-stream");
+	res.setHeader("Cache-Control", "no-cache");
+	res.setHeader("Connection", "keep-alive");
+
+	// Chunks are LM Studio's own SSE events, relayed verbatim
+	let sawDone = false;
+	const usage = new StreamUsageCollector(data);
+	const model = modelId ?? "unknown";
+	let dispatchedAt = 0;
+	let firstChunkAt: number | undefined;
+
+	const start = (target: ExtendedWebSocket) => {
+		clearInterval(keepalive);
+		client = target;
+		dispatchedAt = Date.now();
+
+		const dispatchSpan = startDispatchSpan(
+			type,
+			requestId,
+			target.clientId,
+			modelId,
+			parent,
+		);
+		span = dispatchSpan;
+		const fail = (error: Error) => {
+			outcome = "error";
+			endSpan(dispatchSpan, error);
+			failStream(res, error);
+		};
+
+		requestRegistry.register({
+			requestId,
+			type,
+			client: target,
+			timeoutMs,
+			handler: {
+				stream: true,
+				onChunk: (chunk) => {
+					if (firstChunkAt === undefined) {
+						firstChunkAt = Date.now();
+						streamTimeToFirstToken.observe(
+							{ model },
+							(firstChunkAt - dispatchedAt) / 1000,
+						);
+						dispatchSpan.addEvent("first_chunk");
+					}
+					sawDone = sawDone || chunk.includes("data: [DONE]");
+					usage.push(chunk);
+					res.write(chunk);
+				},
+				onEnd: () => {
+					if (!sawDone) {
+						res.write("data: [DONE]\n\n");
+					}
+					outcome = "success";
+					endSpan(dispatchSpan);
+					res.end();
+				},
+				onError: fail,
+			},
+			onTimeout: () => {
+				sendCancelRequest(target, requestId);
+				fail(requestTimeoutError());
+			},
+			// Part of the stream may already be delivered, so it is never retried
+			onDisconnect: () => fail(clientDisconnectedError()),
+		});
+
+		logger.debug(`Forwarding streaming ${type} request ${requestId}`, {
+			clientId: target.clientId,
+		});
+
+		// Clients that did not negotiate streaming answer with a single
+		// response, which is relayed as one event
+		const streaming = target.capabilities.has(Capability.STREAMING);
+		if (!streaming) {
+			logger.info(
+				`Client ${target.clientId} does not support streaming - falling back to non-streaming`,
+			);
+		}
+
+		try {
+			dispatch(
+				target,
+				type,
+				requestId,
+				streaming ? data : { ...(data as object), stream: false },
+				streaming,
+				dispatchSpan,
+			);
+		} catch (error) {
+			requestRegistry.complete(requestId);
+			fail(error as Error);
+		}
+	};
+
+	const entry: QueueEntry = {
+		modelId,
+		tenant,
+		onAssigned: start,
+		onRejected: (error) => {
+			clearInterval(keepalive);
+			outcome = "error";
+			failStream(res, error);
+		},
+	};
+
+	// Handle caller disconnect before the stream finished, and count the
+	// tokens of streams that ended either way
+	res.on("close", () => {
+		clearInterval(keepalive);
+
+		const used = usage.finish();
+		finish(res.statusCode, used);
+
+		if (used) {
+			const seconds =
+				firstChunkAt === undefined ? 0 : (Date.now() - firstChunkAt) / 1000;
+			if (seconds > 0 && used.completionTokens > 0) {
+				streamTokensPerSecond.observe(
+					{ model },
+					used.completionTokens / seconds,
+				);
+			}
+		}
+
+		requestQueue.cancel(entry);
+		if (client && requestRegistry.complete(requestId)) {
+			sendCancelRequest(client, requestId);
+			if (span) {
+				span.addEvent("cancelled");
+				endSpan(span);
+			}
+		}
+	});
+
+	if (requestQueue.enqueue(entry)) {
+		const reportPosition = () =>
+			res.write(`: queued, position ${requestQueue.position(entry)}\n\n`);
+		reportPosition();
+		keepalive = setInterval(reportPosition, QUEUE_KEEPALIVE_INTERVAL_MS);
+	}
+}
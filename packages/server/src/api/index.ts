@@ -1,18 +1,47 @@
 import express from "express";
-import { authMiddleware } from "../middleware/auth";
-import { rateLimiter } from "../middleware/rate-limiter";
+import { Scope } from "../auth/key-store";
+import { observeRequests } from "../metrics/metrics";
+import { authMiddleware, requireScope } from "../middleware/auth";
+import { quotaMiddleware } from "../middleware/quota";
+import { traceRequests } from "../middleware/tracing";
 import { createLogger } from "../utils/logger";
+import authRoutes from "./routes/auth";
 import chatRoutes from "./routes/chat";
 import completionsRoutes from "./routes/completions";
 import embeddingsRoutes from "./routes/embeddings";
 import modelsRoutes from "./routes/models";
+import usageRoutes from "./routes/usage";
 
 const logger = createLogger("api-router");
 const router = express.Router();
 
-// Apply authentication and rate limiting to all API routes
+// Routes named in metrics and traces
+const ROUTES = [
+	"/auth/token",
+	"/chat/completions",
+	"/completions",
+	"/embeddings",
+	"/models",
+	"/usage",
+];
+
+// Count and trace every API request, including those refused below
+router.use(observeRequests(ROUTES));
+router.use(traceRequests(ROUTES));
+
+// Apply authentication to all API routes
 router.use(authMiddleware);
-router.use(rateLimiter);
+
+// Keys of any scope may exchange themselves for a token, even once their
+// quota is used up
+router.use("/auth", authRoutes);
+
+// Keys of any scope may see their own usage
+router.use("/usage", usageRoutes);
+
+// Everything else is inference, subject to per-key quotas
+router.use(requireScope(Scope.INFERENCE));
+router.use(quotaMiddleware);
 
 // Mount route handlers
 router.use("/chat", chatRoutes);
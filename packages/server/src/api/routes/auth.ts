@@ -0,0 +1,9 @@
+import express from "express";
+import { issueTokenHandler } from "../controllers/auth";
+
+const router = express.Router();
+
+// Exchange an API key for a short-lived token
+router.post("/token", issueTokenHandler);
+
+export default router;
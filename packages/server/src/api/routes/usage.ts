@@ -0,0 +1,9 @@
+import express from "express";
+import { usageHandler } from "../controllers/usage";
+
+const router = express.Router();
+
+// Usage per time bucket, key, model and client, as JSON or CSV
+router.get("/", usageHandler);
+
+export default router;
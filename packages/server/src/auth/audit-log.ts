@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("audit-log");
+
+/**
+ * A change recorded in the audit trail
+ */
+export interface AuditEntry {
+	timestamp: string;
+	// What happened, e.g. `key.created`
+	action: string;
+	// API key that made the change, or `cli` for the keys command
+	actor: string;
+	// API key the change applies to
+	keyId?: string;
+	details?: Record<string, unknown>;
+}
+
+/**
+ * Append-only audit trail, stored as one JSON entry per line
+ *
+ * Writes and reads never block the event loop. Lines that cannot be parsed,
+ * such as one cut short by a crash, are skipped.
+ */
+export class AuditLog {
+	// Pending appends, chained so entries land in the order they were made
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(private filePath: string) {}
+
+	/**
+	 * Append an entry to the trail, in the background
+	 * Failed writes are logged, never thrown
+	 */
+	public record(entry: Omit<AuditEntry, "timestamp">): AuditEntry {
+		const stamped: AuditEntry = {
+			timestamp: new Date().toISOString(),
+			...entry,
+		};
+		const line = `${JSON.stringify(stamped)}\n`;
+
+		this.writes = this.writes
+			.then(async () => {
+				await fs.promises.mkdir(path.dirname(this.filePath), {
+					recursive: true,
+				});
+				await fs.promises.appendFile(this.filePath, line, { mode: 0o600 });
+			})
+			.catch((error) => {
+				logger.error(`Failed to record audit entry ${entry.action}`, error);
+			});
+		logger.info(`Audit: ${entry.action} by ${entry.actor}`, {
+			keyId: entry.keyId,
+		});
+
+		return stamped;
+	}
+
+	/**
+	 * Read the most recent entries, newest first
+	 * Entries recorded before the call are always included.
+	 * @param keyId Only return entries about this key
+	 */
+	public async read(limit: number, keyId?: string): Promise<AuditEntry[]> {
+		await this.writes;
+
+		try {
+			await fs.promises.access(this.filePath);
+		} catch {
+			return [];
+		}
+
+		const entries: AuditEntry[] = [];
+		let skipped = 0;
+		const lines = readline.createInterface({
+			input: fs.createReadStream(this.filePath, "utf8"),
+			crlfDelay: Number.POSITIVE_INFINITY,
+		});
+
+		for await (const line of lines) {
+			if (!line) {
+				continue;
+			}
+
+			let entry: AuditEntry;
+			try {
+				entry = JSON.parse(line) as AuditEntry;
+			} catch {
+				skipped++;
+				continue;
+			}
+
+			if (keyId === undefined || entry.keyId === keyId) {
+				entries.push(entry);
+			}
+		}
+
+		if (skipped > 0) {
+			logger.warn(`Skipped ${skipped} unreadable lines in ${this.filePath}`);
+		}
+
+		return entries.reverse().slice(0, limit);
+	}
+}
+
+export const auditLog = new AuditLog(config.auditLogPath);
@@ -0,0 +1,391 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import {
+	API_KEY_PREFIX,
+	BOOTSTRAP_KEY_ID,
+	hashKeySecret,
+	parseApiKey,
+	signAuthChallenge,
+} from "@lmstudio-proxy/common";
+import { config } from "../config";
+import type { QuotaLimits } from "../quota/quota-tracker";
+import { createLogger } from "../utils/logger";
+import type { KeyPolicy } from "./policy";
+
+const logger = createLogger("key-store");
+
+/**
+ * What an API key may be used for
+ */
+export enum Scope {
+	// Calling the OpenAI-compatible /v1 API
+	INFERENCE = "inference",
+	// Connecting an LM Studio client over WebSocket
+	CLIENT_REGISTER = "client:register",
+	// Managing the proxy through /admin
+	ADMIN = "admin",
+}
+
+/**
+ * A stored API key
+ */
+export interface ApiKeyRecord {
+	id: string;
+	name: string;
+	scopes: Scope[];
+	// Keys are high-entropy random values, so a plain SHA-256 is sufficient
+	secretHash: string;
+	// Free-form note about who the key is for
+	description: string | null;
+	// Limits that differ from the configured defaults
+	quotas: Partial<QuotaLimits> | null;
+	// Models and request parameters the key is restricted to
+	policy: KeyPolicy | null;
+	// Team the key belongs to; its requests are only served by the team's own
+	// clients and the shared pool, and clients it registers serve only the team
+	tenant: string | null;
+	createdAt: string;
+	rotatedAt: string | null;
+	expiresAt: string | null;
+	revokedAt: string | null;
+}
+
+/**
+ * Options for creating an API key
+ */
+export interface CreateKeyOptions {
+	name: string;
+	scopes: Scope[];
+	description?: string | null;
+	quotas?: Partial<QuotaLimits> | null;
+	policy?: KeyPolicy | null;
+	tenant?: string | null;
+	expiresAt?: string | null;
+}
+
+/**
+ * Fields of an API key that can be changed after it is created
+ */
+export type UpdateKeyOptions = Partial<CreateKeyOptions>;
+
+/**
+ * A key record together with its full key, which only exists at issue time
+ */
+export interface IssuedKey {
+	record: ApiKeyRecord;
+	key: string;
+}
+
+/**
+ * Check whether a string can name a tenant
+ */
+export function isTenantName(value: string): boolean {
+	return /^[a-z0-9][a-z0-9_-]{0,63}$/i.test(value);
+}
+
+/**
+ * Check whether a string is a known scope
+ */
+export function isScope(value: string): value is Scope {
+	return (Object.values(Scope) as string[]).includes(value);
+}
+
+function hashesMatch(a: string, b: string): boolean {
+	const left = Buffer.from(a, "hex");
+	const right = Buffer.from(b, "hex");
+	return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * File-backed store of named, scoped API keys
+ *
+ * Only hashes of the secrets are persisted; the full key is returned once,
+ * when it is created.
+ */
+export class KeyStore {
+	private keys: Map<string, ApiKeyRecord> = new Map();
+	private bootstrapHash: string | null;
+
+	/**
+	 * @param filePath JSON file holding the keys, created on first write
+	 * @param bootstrapKey Key with every scope that is not stored in the file
+	 */
+	constructor(
+		private filePath: string,
+		bootstrapKey?: string,
+	) {
+		this.bootstrapHash = bootstrapKey ? hashKeySecret(bootstrapKey) : null;
+		this.load();
+	}
+
+	/**
+	 * Create a key
+	 * @returns The stored record and the full key, which is not kept
+	 */
+	public create(options: CreateKeyOptions): IssuedKey {
+		const id = randomBytes(6).toString("hex");
+		const secret = randomBytes(32).toString("base64url");
+
+		const record: ApiKeyRecord = {
+			id,
+			name: options.name,
+			scopes: [...new Set(options.scopes)],
+			secretHash: hashKeySecret(secret),
+			description: options.description ?? null,
+			quotas: options.quotas ?? null,
+			policy: options.policy ?? null,
+			tenant: options.tenant ?? null,
+			createdAt: new Date().toISOString(),
+			rotatedAt: null,
+			expiresAt: options.expiresAt ?? null,
+			revokedAt: null,
+		};
+
+		this.keys.set(id, record);
+		this.save();
+		logger.info(`Created API key ${id} (${record.name})`, {
+			scopes: record.scopes,
+		});
+
+		return { record, key: `${API_KEY_PREFIX}_${id}_${secret}` };
+	}
+
+	/**
+	 * Change a key's name, scopes, description, quotas, policy, tenant or expiry
+	 * @returns The updated record, or undefined if there is no such key
+	 */
+	public update(
+		id: string,
+		options: UpdateKeyOptions,
+	): ApiKeyRecord | undefined {
+		const record = this.keys.get(id);
+		if (!record) {
+			return undefined;
+		}
+
+		if (options.name !== undefined) record.name = options.name;
+		if (options.scopes !== undefined)
+			record.scopes = [...new Set(options.scopes)];
+		if (options.description !== undefined)
+			record.description = options.description;
+		if (options.quotas !== undefined) record.quotas = options.quotas;
+		if (options.policy !== undefined) record.policy = options.policy;
+		if (options.tenant !== undefined) record.tenant = options.tenant;
+		if (options.expiresAt !== undefined) record.expiresAt = options.expiresAt;
+
+		this.save();
+		logger.info(`Updated API key ${id} (${record.name})`);
+		return record;
+	}
+
+	/**
+	 * Replace a key's secret, keeping its ID and settings
+	 * @returns The record and new full key, or undefined if there is no such key
+	 */
+	public rotate(id: string): IssuedKey | undefined {
+		const record = this.keys.get(id);
+		if (!record) {
+			return undefined;
+		}
+
+		const secret = randomBytes(32).toString("base64url");
+		record.secretHash = hashKeySecret(secret);
+		record.rotatedAt = new Date().toISOString();
+
+		this.save();
+		logger.info(`Rotated API key ${id} (${record.name})`);
+		return { record, key: `${API_KEY_PREFIX}_${id}_${secret}` };
+	}
+
+	/**
+	 * Look up the key a caller presented
+	 * @returns The key's record, unless it is unknown, revoked or expired
+	 */
+	public verify(key: string): ApiKeyRecord | undefined {
+		const bootstrap = this.bootstrapRecord();
+		if (bootstrap && hashesMatch(hashKeySecret(key), bootstrap.secretHash)) {
+			return bootstrap;
+		}
+
+		const { keyId, secret } = parseApiKey(key);
+		const record = this.keys.get(keyId);
+		if (!record || !hashesMatch(hashKeySecret(secret), record.secretHash)) {
+			return undefined;
+		}
+
+		if (!this.isActive(keyId)) {
+			logger.warn(`Rejected revoked or expired API key ${keyId}`);
+			return undefined;
+		}
+
+		return record;
+	}
+
+	/**
+	 * Look up the key that signed an authentication challenge
+	 * Challenges are signed with the stored secret hash, so reading this
+	 * store is enough to register clients; see signAuthChallenge
+	 * @returns The key's record, unless the signature does not match or the
+	 * key is unknown, revoked or expired
+	 */
+	public verifySignature(
+		keyId: string,
+		nonce: string,
+		clientId: string,
+		signature: string,
+	): ApiKeyRecord | undefined {
+		const record = this.find(keyId);
+		if (!record) {
+			return undefined;
+		}
+
+		const expected = signAuthChallenge(record.secretHash, nonce, clientId);
+		if (!hashesMatch(signature, expected)) {
+			return undefined;
+		}
+
+		if (!this.isActive(keyId)) {
+			logger.warn(`Rejected revoked or expired API key ${keyId}`);
+			return undefined;
+		}
+
+		return record;
+	}
+
+	/**
+	 * Check whether a key exists and is neither revoked nor expired
+	 * @param issuedAt When a token derived from the key was issued, in ms;
+	 * tokens issued before the key was rotated are no longer valid
+	 */
+	public isActive(id: string, issuedAt?: number): boolean {
+		if (id === BOOTSTRAP_KEY_ID) {
+			return this.bootstrapHash !== null;
+		}
+
+		const record = this.keys.get(id);
+		if (!record || record.revokedAt) {
+			return false;
+		}
+
+		if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) {
+			return false;
+		}
+
+		return (
+			issuedAt === undefined ||
+			!record.rotatedAt ||
+			issuedAt > Date.parse(record.rotatedAt)
+		);
+	}
+
+	/**
+	 * Revoke a key so it can no longer be used
+	 * @returns The revoked record, or undefined if there is no such key
+	 */
+	public revoke(id: string): ApiKeyRecord | undefined {
+		const record = this.keys.get(id);
+		if (!record) {
+			return undefined;
+		}
+
+		record.revokedAt ??= new Date().toISOString();
+		this.save();
+		logger.info(`Revoked API key ${id} (${record.name})`);
+		return record;
+	}
+
+	/**
+	 * Get a key by ID
+	 */
+	public get(id: string): ApiKeyRecord | undefined {
+		return this.keys.get(id);
+	}
+
+	/**
+	 * Get a key by ID, including the bootstrap key, which is not stored
+	 */
+	public find(id: string): ApiKeyRecord | undefined {
+		return id === BOOTSTRAP_KEY_ID ? this.bootstrapRecord() : this.keys.get(id);
+	}
+
+	/**
+	 * Get all stored keys, including revoked and expired ones
+	 */
+	public list(): ApiKeyRecord[] {
+		return [...this.keys.values()];
+	}
+
+	/**
+	 * Get the record of the key configured through API_KEY, if any
+	 */
+	private bootstrapRecord(): ApiKeyRecord | undefined {
+		if (!this.bootstrapHash) {
+			return undefined;
+		}
+
+		return {
+			id: BOOTSTRAP_KEY_ID,
+			name: "API_KEY",
+			scopes: Object.values(Scope),
+			secretHash: this.bootstrapHash,
+			description: null,
+			quotas: null,
+			policy: null,
+			tenant: null,
+			createdAt: new Date(0).toISOString(),
+			rotatedAt: null,
+			expiresAt: null,
+			revokedAt: null,
+		};
+	}
+
+	/**
+	 * Read the keys from disk, starting empty when there is no file yet
+	 */
+	private load(): void {
+		if (!fs.existsSync(this.filePath)) {
+			logger.debug(`No key store at ${this.filePath}, starting empty`);
+			return;
+		}
+
+		const contents = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as {
+			keys: ApiKeyRecord[];
+		};
+		this.keys = new Map(
+			contents.keys.map((record) => [
+				record.id,
+				// Fill in fields added after the file was written
+				{
+					...record,
+					description: record.description ?? null,
+					quotas: record.quotas ?? null,
+					policy: record.policy ?? null,
+					tenant: record.tenant ?? null,
+					rotatedAt: record.rotatedAt ?? null,
+				},
+			]),
+		);
+		logger.info(`Loaded ${this.keys.size} API keys from ${this.filePath}`);
+	}
+
+	/**
+	 * Write the keys to disk, replacing the file atomically
+	 */
+	private save(): void {
+		fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+		const tempPath = `${this.filePath}.tmp`;
+		fs.writeFileSync(
+			tempPath,
+			`${JSON.stringify({ keys: this.list() }, null, 2)}\n`,
+			{ mode: 0o600 },
+		);
+		fs.renameSync(tempPath, this.filePath);
+	}
+}
+
+export const keyStore = new KeyStore(
+	config.keyStorePath,
+	config.apiKey || undefined,
+);
@@ -0,0 +1,182 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { Request } from "express";
+import { ApiError } from "../utils/error";
+import { createLogger } from "../utils/logger";
+import type { RequestType } from "../websocket/request-registry";
+import { keyStore } from "./key-store";
+
+const logger = createLogger("policy");
+
+/**
+ * Restrictions on what requests an API key may make
+ */
+export interface KeyPolicy {
+	// Model IDs the key may use, where `*` matches any run of characters
+	models?: string[];
+	// Largest `max_tokens` the key may request, also applied when none is given
+	maxTokens?: number;
+	minTemperature?: number;
+	maxTemperature?: number;
+	// False turns streaming requests into regular ones
+	allowStreaming?: boolean;
+}
+
+// Error codes of policy violations
+const MODEL_NOT_ALLOWED = "model_not_allowed";
+const POLICY_VIOLATION = "policy_violation";
+
+/**
+ * Check whether a model ID matches an allowlist entry
+ */
+function matchesModel(pattern: string, modelId: string): boolean {
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	return new RegExp(`^${source}$`).test(modelId);
+}
+
+/**
+ * Get the policy of the key a request was made with
+ */
+function policyFor(req: Request): KeyPolicy | undefined {
+	const keyId = req.user?.keyId;
+	return (keyId && keyStore.get(keyId)?.policy) || undefined;
+}
+
+/**
+ * Get the allowlists that apply to a request: its key's, and that of the
+ * token it was made with
+ */
+function modelAllowlists(req: Request): string[][] {
+	return [policyFor(req)?.models, req.user?.models].filter(
+		(models): models is string[] => models !== undefined,
+	);
+}
+
+/**
+ * Check whether a request may only use some models
+ */
+export function hasModelAllowlist(req: Request): boolean {
+	return modelAllowlists(req).length > 0;
+}
+
+/**
+ * Check whether a request may use a model
+ */
+export function isModelAllowed(req: Request, modelId: string): boolean {
+	return modelAllowlists(req).every((models) =>
+		models.some((pattern) => matchesModel(pattern, modelId)),
+	);
+}
+
+function violation(message: string, param: string): ApiError {
+	logger.warn(`Policy violation on ${param}: ${message}`);
+	return new ApiError(
+		HTTP_STATUS.BAD_REQUEST,
+		message,
+		"invalid_request_error",
+		POLICY_VIOLATION,
+	);
+}
+
+/**
+ * Read a numeric body parameter a policy limits
+ * @returns The value, or undefined when the caller left it out
+ */
+function numberParam(
+	body: Record<string, unknown>,
+	param: string,
+): number | undefined {
+	const value = body[param];
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (typeof value !== "number" || !Number.isFinite(value)) {
+		throw violation(`'${param}' must be a number`, param);
+	}
+	return value;
+}
+
+/**
+ * Apply the caller's key policy to a request body before it is forwarded
+ *
+ * Requests for models outside the allowlist are refused with 403, other
+ * violations with 400. Streaming is switched off in the body when the key
+ * may not stream, and `max_tokens` is capped when the caller gives none.
+ *
+ * @returns Whether the request should still be streamed
+ */
+export function enforcePolicy(req: Request, type: RequestType): boolean {
+	const body = req.body ?? {};
+
+	if (hasModelAllowlist(req)) {
+		// Without a model LM Studio picks one, which could be any
+		if (typeof body.model !== "string") {
+			throw violation(
+				"This API key must name a 'model' in every request",
+				"model",
+			);
+		}
+
+		if (!isModelAllowed(req, body.model)) {
+			logger.warn(`API key ${req.user?.keyId} may not use model ${body.model}`);
+			throw new ApiError(
+				HTTP_STATUS.FORBIDDEN,
+				`This API key may not use the model '${body.model}'`,
+				"permission_error",
+				MODEL_NOT_ALLOWED,
+			);
+		}
+	}
+
+	// The remaining rules concern generation only
+	const policy = policyFor(req);
+	if (!policy || (type !== "chat" && type !== "completion")) {
+		return body.stream === true;
+	}
+
+	const maxTokens = numberParam(body, "max_tokens");
+	const temperature = numberParam(body, "temperature");
+
+	if (policy.maxTokens !== undefined) {
+		if (maxTokens === undefined || maxTokens === -1) {
+			body.max_tokens = policy.maxTokens;
+		} else if (maxTokens > policy.maxTokens) {
+			throw violation(
+				`'max_tokens' may be at most ${policy.maxTokens} for this API key`,
+				"max_tokens",
+			);
+		}
+	}
+
+	if (temperature !== undefined) {
+		if (
+			policy.minTemperature !== undefined &&
+			temperature < policy.minTemperature
+		) {
+			throw violation(
+				`'temperature' must be at least ${policy.minTemperature} for this API key`,
+				"temperature",
+			);
+		}
+		if (
+			policy.maxTemperature !== undefined &&
+			temperature > policy.maxTemperature
+		) {
+			throw violation(
+				`'temperature' may be at most ${policy.maxTemperature} for this API key`,
+				"temperature",
+			);
+		}
+	}
+
+	if (policy.allowStreaming === false && body.stream === true) {
+		logger.debug(
+			`API key ${req.user?.keyId} may not stream - falling back to non-streaming`,
+		);
+		body.stream = false;
+	}
+
+	return body.stream === true;
+}
@@ -0,0 +1,105 @@
+import { auditLog } from "../auth/audit-log";
+import { isScope, isTenantName, keyStore, type Scope } from "../auth/key-store";
+
+const USAGE = `Usage:
+  keys create <name> --scopes <scope,...> [--tenant <name>] [--expires <ISO date>]
+  keys list
+  keys revoke <id>`;
+
+function fail(message: string): never {
+	console.error(message);
+	console.error(USAGE);
+	process.exit(1);
+}
+
+// Get the value following a --flag argument
+function option(args: string[], flag: string): string | undefined {
+	const index = args.indexOf(flag);
+	return index === -1 ? undefined : args[index + 1];
+}
+
+function create(args: string[]): void {
+	const name = args[0];
+	if (!name || name.startsWith("--")) fail("A key name is required");
+
+	const scopes = (option(args, "--scopes") || "").split(",").filter(Boolean);
+	if (scopes.length === 0) fail("At least one scope is required");
+	for (const scope of scopes) {
+		if (!isScope(scope)) fail(`Unknown scope: ${scope}`);
+	}
+
+	const tenant = option(args, "--tenant");
+	if (tenant !== undefined && !isTenantName(tenant))
+		fail(`Invalid tenant name: ${tenant}`);
+
+	const expires = option(args, "--expires");
+	if (expires !== undefined && Number.isNaN(Date.parse(expires)))
+		fail(`Invalid expiry date: ${expires}`);
+
+	const { record, key } = keyStore.create({
+		name,
+		scopes: scopes as Scope[],
+		tenant: tenant ?? null,
+		expiresAt: expires ? new Date(expires).toISOString() : null,
+	});
+
+	auditLog.record({
+		action: "key.created",
+		actor: "cli",
+		keyId: record.id,
+		details: {
+			name: record.name,
+			scopes: record.scopes,
+			tenant: record.tenant,
+		},
+	});
+
+	console.log(`Created key ${record.id} (${record.name})`);
+	console.log(`Scopes: ${record.scopes.join(", ")}`);
+	if (record.tenant) console.log(`Tenant: ${record.tenant}`);
+	console.log(`Key: ${key}`);
+	console.log("Store the key now, it cannot be shown again.");
+}
+
+function list(): void {
+	for (const record of keyStore.list()) {
+		const status = record.revokedAt
+			? "revoked"
+			: keyStore.isActive(record.id)
+				? "active"
+				: "expired";
+		console.log(
+			[
+				record.id,
+				record.name,
+				record.scopes.join(","),
+				record.tenant ?? "shared",
+				status,
+				`expires ${record.expiresAt ?? "never"}`,
+			].join("\t"),
+		);
+	}
+}
+
+function revoke(id: string | undefined): void {
+	if (!id) fail("A key ID is required");
+	if (!keyStore.revoke(id)) fail(`No such key: ${id}`);
+	auditLog.record({ action: "key.revoked", actor: "cli", keyId: id });
+	console.log(`Revoked key ${id}`);
+}
+
+// Manage the API keys in KEY_STORE_PATH
+const [command, ...args] = process.argv.slice(2);
+switch (command) {
+	case "create":
+		create(args);
+		break;
+	case "list":
+		list();
+		break;
+	case "revoke":
+		revoke(args[0]);
+		break;
+	default:
+		fail(command ? `Unknown command: ${command}` : "A command is required");
+}
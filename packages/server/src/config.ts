@@ -1,5 +1,16 @@
 import path from "node:path";
+import {
+	type Capability,
+	isCapability,
+	type LogFormat,
+	MIN_PROTOCOL_VERSION,
+	parseLogFormat,
+} from "@lmstudio-proxy/common";
 import dotenv from "dotenv";
+import {
+	isLoadBalancingStrategy,
+	LoadBalancingStrategy,
+} from "./websocket/load-balancer";
 
 // Load environment variables
 dotenv.config({ path: path.resolve(process.cwd(), ".env") });
@@ -14,18 +25,78 @@ export interface ServerConfig {
 	wsPath: string;
 	wsPingIntervalMs: number;
 
+	// Protocol negotiation
+	minClientProtocolVersion: number;
+	requiredClientCapabilities: Capability[];
+
+	// Routing
+	loadBalancingStrategy: LoadBalancingStrategy;
+
+	// Queueing
+	clientMaxConcurrency: number;
+	queueMaxLength: number;
+	queueTimeoutMs: number;
+
+	// Default per-key quotas, 0 meaning unlimited
+	quotaRequestsPerMinute: number;
+	quotaTokensPerDay: number;
+	quotaConcurrentStreams: number;
+
+	// Usage accounting
+	usageLogPath: string;
+
+	// Readiness - models some connected client must serve for /ready to pass
+	readyRequiredModels: string[];
+
 	// Security
 	apiKey: string;
+	keyStorePath: string;
+	auditLogPath: string;
 	jwtSecret: string;
 	jwtExpiresIn: string;
+	clientAuthTimeoutMs: number;
+	allowPlaintextClientAuth: boolean;
+	requireUpgradeAuth: boolean;
+	// Connections per IP still waiting to authenticate, 0 meaning unlimited
+	maxPendingConnectionsPerIp: number;
+	// Responses for other clients' requests a client may send before it is
+	// disconnected, 0 meaning never
+	clientMaxMisdirectedResponses: number;
+	tokenDefaultTtlSeconds: number;
+	tokenMaxTtlSeconds: number;
 
 	// Logging
 	logLevel: string;
+	logFormat: LogFormat;
+	logRedactContent: boolean;
+	logRedactSecrets: boolean;
+	// Further field names whose values are never logged
+	logRedactFields: string[];
+	// Share of debug-level payload dumps that are logged, from 0 to 1
+	logPayloadSampleRate: number;
+
+	// Metrics
+	metricsEnabled: boolean;
+	// Bearer token scrapers must present, none when empty
+	metricsToken: string;
+
+	// Tracing
+	// OTLP/HTTP collector spans are exported to, none when empty
+	otlpEndpoint: string;
+	otelServiceName: string;
 
 	// Feature flags
 	enableStreaming: boolean;
 }
 
+// Parse a comma-separated environment variable into a list
+function parseList(value: string | undefined): string[] {
+	return (value || "")
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
 export const config: ServerConfig = {
 	// Server configuration
 	port: parseInt(process.env.PORT || "3000", 10),
@@ -36,13 +107,86 @@ export const config: ServerConfig = {
 	wsPath: process.env.WS_PATH || "/ws",
 	wsPingIntervalMs: parseInt(process.env.WS_PING_INTERVAL_MS || "30000", 10),
 
+	// Protocol negotiation
+	minClientProtocolVersion: parseInt(
+		process.env.MIN_CLIENT_PROTOCOL_VERSION || String(MIN_PROTOCOL_VERSION),
+		10,
+	),
+	requiredClientCapabilities: parseList(
+		process.env.REQUIRED_CLIENT_CAPABILITIES,
+	) as Capability[],
+
+	// Routing
+	loadBalancingStrategy: (process.env.LOAD_BALANCING_STRATEGY ||
+		LoadBalancingStrategy.FIRST) as LoadBalancingStrategy,
+
+	// Queueing - no concurrency limit unless configured or declared by clients
+	clientMaxConcurrency: parseInt(process.env.CLIENT_MAX_CONCURRENCY || "0", 10),
+	queueMaxLength: parseInt(process.env.QUEUE_MAX_LENGTH || "100", 10),
+	queueTimeoutMs: parseInt(process.env.QUEUE_TIMEOUT_MS || "60000", 10),
+
+	// Default per-key quotas, 0 meaning unlimited
+	quotaRequestsPerMinute: parseInt(
+		process.env.QUOTA_REQUESTS_PER_MINUTE || "60",
+		10,
+	),
+	quotaTokensPerDay: parseInt(process.env.QUOTA_TOKENS_PER_DAY || "0", 10),
+	quotaConcurrentStreams: parseInt(
+		process.env.QUOTA_CONCURRENT_STREAMS || "0",
+		10,
+	),
+
+	// Usage accounting
+	usageLogPath: path.resolve(process.env.USAGE_LOG_PATH || "data/usage.log"),
+
+	// Readiness
+	readyRequiredModels: parseList(process.env.READY_REQUIRED_MODELS),
+
 	// Security
 	apiKey: process.env.API_KEY || "",
+	keyStorePath: path.resolve(
+		process.env.KEY_STORE_PATH || "data/api-keys.json",
+	),
+	auditLogPath: path.resolve(process.env.AUDIT_LOG_PATH || "data/audit.log"),
 	jwtSecret: process.env.JWT_SECRET || "",
 	jwtExpiresIn: process.env.JWT_EXPIRES_IN || "24h",
+	clientAuthTimeoutMs: parseInt(
+		process.env.CLIENT_AUTH_TIMEOUT_MS || "10000",
+		10,
+	),
+	// Clients that predate challenge-response send their key in plaintext
+	allowPlaintextClientAuth: process.env.ALLOW_PLAINTEXT_CLIENT_AUTH === "true",
+	// Refuse upgrades that carry no credentials instead of challenging them
+	requireUpgradeAuth: process.env.REQUIRE_UPGRADE_AUTH === "true",
+	maxPendingConnectionsPerIp: parseInt(
+		process.env.MAX_PENDING_CONNECTIONS_PER_IP || "5",
+		10,
+	),
+	clientMaxMisdirectedResponses: parseInt(
+		process.env.CLIENT_MAX_MISDIRECTED_RESPONSES || "10",
+		10,
+	),
+	tokenDefaultTtlSeconds: parseInt(
+		process.env.TOKEN_DEFAULT_TTL_SECONDS || "900",
+		10,
+	),
+	tokenMaxTtlSeconds: parseInt(process.env.TOKEN_MAX_TTL_SECONDS || "3600", 10),
 
 	// Logging
 	logLevel: process.env.LOG_LEVEL || "info",
+	logFormat: parseLogFormat(process.env.LOG_FORMAT),
+	logRedactContent: process.env.LOG_REDACT_CONTENT !== "false",
+	logRedactSecrets: process.env.LOG_REDACT_SECRETS !== "false",
+	logRedactFields: parseList(process.env.LOG_REDACT_FIELDS),
+	logPayloadSampleRate: parseFloat(process.env.LOG_PAYLOAD_SAMPLE_RATE || "1"),
+
+	// Metrics
+	metricsEnabled: process.env.METRICS_ENABLED !== "false",
+	metricsToken: process.env.METRICS_TOKEN || "",
+
+	// Tracing
+	otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "",
+	otelServiceName: process.env.OTEL_SERVICE_NAME || "lmstudio-proxy-server",
 
 	// Feature flags - defaults to enabled
 	enableStreaming: process.env.ENABLE_STREAMING !== "false",
@@ -52,7 +196,6 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
 	const errors: string[] = [];
 
 	// Required fields
-	if (!config.apiKey) errors.push("API_KEY is required");
 	if (!config.jwtSecret) errors.push("JWT_SECRET is required");
 
 	// Validation rules
@@ -60,6 +203,68 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
 		errors.push("PORT must be between 1 and 65535");
 	if (config.wsPingIntervalMs < 1000)
 		errors.push("WS_PING_INTERVAL_MS must be at least 1000");
+	if (
+		Number.isNaN(config.minClientProtocolVersion) ||
+		config.minClientProtocolVersion < MIN_PROTOCOL_VERSION
+	)
+		errors.push(
+			`MIN_CLIENT_PROTOCOL_VERSION must be at least ${MIN_PROTOCOL_VERSION}`,
+		);
+	for (const capability of config.requiredClientCapabilities) {
+		if (!isCapability(capability))
+			errors.push(
+				`REQUIRED_CLIENT_CAPABILITIES contains unknown capability: ${capability}`,
+			);
+	}
+
+	if (
+		Number.isNaN(config.clientMaxConcurrency) ||
+		config.clientMaxConcurrency < 0
+	)
+		errors.push("CLIENT_MAX_CONCURRENCY must be 0 or more");
+	if (Number.isNaN(config.queueMaxLength) || config.queueMaxLength < 0)
+		errors.push("QUEUE_MAX_LENGTH must be 0 or more");
+	if (Number.isNaN(config.queueTimeoutMs) || config.queueTimeoutMs < 1)
+		errors.push("QUEUE_TIMEOUT_MS must be at least 1");
+	for (const [name, value] of [
+		["QUOTA_REQUESTS_PER_MINUTE", config.quotaRequestsPerMinute],
+		["QUOTA_TOKENS_PER_DAY", config.quotaTokensPerDay],
+		["QUOTA_CONCURRENT_STREAMS", config.quotaConcurrentStreams],
+	] as const) {
+		if (Number.isNaN(value) || value < 0)
+			errors.push(`${name} must be 0 or more`);
+	}
+	if (
+		Number.isNaN(config.clientAuthTimeoutMs) ||
+		config.clientAuthTimeoutMs < 1000
+	)
+		errors.push("CLIENT_AUTH_TIMEOUT_MS must be at least 1000");
+	if (
+		Number.isNaN(config.maxPendingConnectionsPerIp) ||
+		config.maxPendingConnectionsPerIp < 0
+	)
+		errors.push("MAX_PENDING_CONNECTIONS_PER_IP must be 0 or more");
+	if (
+		Number.isNaN(config.clientMaxMisdirectedResponses) ||
+		config.clientMaxMisdirectedResponses < 0
+	)
+		errors.push("CLIENT_MAX_MISDIRECTED_RESPONSES must be 0 or more");
+	if (Number.isNaN(config.tokenMaxTtlSeconds) || config.tokenMaxTtlSeconds < 1)
+		errors.push("TOKEN_MAX_TTL_SECONDS must be at least 1");
+	if (
+		Number.isNaN(config.tokenDefaultTtlSeconds) ||
+		config.tokenDefaultTtlSeconds < 1 ||
+		config.tokenDefaultTtlSeconds > config.tokenMaxTtlSeconds
+	)
+		errors.push(
+			"TOKEN_DEFAULT_TTL_SECONDS must be between 1 and TOKEN_MAX_TTL_SECONDS",
+		);
+	if (!(config.logPayloadSampleRate >= 0 && config.logPayloadSampleRate <= 1))
+		errors.push("LOG_PAYLOAD_SAMPLE_RATE must be between 0 and 1");
+	if (!isLoadBalancingStrategy(config.loadBalancingStrategy))
+		errors.push(
+			`LOAD_BALANCING_STRATEGY must be one of: ${Object.values(LoadBalancingStrategy).join(", ")}`,
+		);
 
 	return {
 		valid: errors.length === 0,
@@ -0,0 +1,34 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { Request, Response } from "express";
+import { config } from "../config";
+import { clientManager } from "../websocket/server";
+
+/**
+ * Handle liveness checks, which pass as long as the process serves HTTP
+ */
+export function healthHandler(_req: Request, res: Response): void {
+	res.json({ status: "ok", timestamp: new Date().toISOString() });
+}
+
+/**
+ * Handle readiness checks, which fail while no LM Studio client takes
+ * requests or a model in READY_REQUIRED_MODELS is served by none of them,
+ * so orchestrators keep traffic away from instances that cannot answer it
+ */
+export function readinessHandler(_req: Request, res: Response): void {
+	// Draining clients take no new requests
+	const clients = [...clientManager.getAllClients().values()].filter(
+		(ws) => !ws.draining,
+	).length;
+	const missingModels = config.readyRequiredModels.filter(
+		(model) => !clientManager.isModelServed(model),
+	);
+	const ready = clients > 0 && missingModels.length === 0;
+
+	res.status(ready ? HTTP_STATUS.OK : HTTP_STATUS.SERVICE_UNAVAILABLE).json({
+		status: ready ? "ready" : "not_ready",
+		clients,
+		missingModels,
+		timestamp: new Date().toISOString(),
+	});
+}
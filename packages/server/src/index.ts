@@ -1,10 +1,15 @@
 import http from "node:http";
 import cors from "cors";
 import express from "express";
+import { adminRouter } from "./admin";
 import { apiRouter } from "./api";
+import { keyStore } from "./auth/key-store";
 import { config, validateConfig } from "./config";
+import { healthHandler, readinessHandler } from "./health/endpoint";
+import { metricsHandler } from "./metrics/endpoint";
 import { errorHandler } from "./middleware/error-handler";
 import { createLogger } from "./utils/logger";
+import { shutdownTracing } from "./utils/tracing";
 import { setupWebSocketServer } from "./websocket/server";
 
 const logger = createLogger("server");
@@ -17,6 +22,14 @@ async function main() {
 		process.exit(1);
 	}
 
+	// Without any keys nobody could use the proxy
+	if (!config.apiKey && keyStore.list().length === 0) {
+		logger.error(
+			"No API keys configured: set API_KEY or create keys with `npm run keys -- create`",
+		);
+		process.exit(1);
+	}
+
 	logger.info("Starting LM Studio Proxy Server...");
 	logger.info(`Environment: ${config.nodeEnv}`);
 
@@ -29,11 +42,16 @@ async function main() {
 
 	// Routes
 	app.use("/v1", apiRouter);
+	app.use("/admin", adminRouter);
 
-	// Simple health check
-	app.get("/health", (_req, res) => {
-		res.json({ status: "ok", timestamp: new Date().toISOString() });
-	});
+	// Prometheus metrics
+	if (config.metricsEnabled) {
+		app.get("/metrics", metricsHandler);
+	}
+
+	// Liveness and readiness checks
+	app.get("/health", healthHandler);
+	app.get("/ready", readinessHandler);
 
 	// Root endpoint
 	app.get("/", (_req, res) => {
@@ -66,7 +84,8 @@ function handleShutdown(server: http.Server) {
 	logger.info("Shutting down server...");
 	server.close(() => {
 		logger.info("Server closed");
-		process.exit(0);
+		// Export the spans still buffered before exiting
+		shutdownTracing().finally(() => process.exit(0));
 	});
 
 	// Force exit after timeout
@@ -0,0 +1,39 @@
+import { timingSafeEqual } from "node:crypto";
+import { HTTP_STATUS, hashKeySecret } from "@lmstudio-proxy/common";
+import type { Request, Response } from "express";
+import { config } from "../config";
+import { ApiError } from "../utils/error";
+import { registry } from "./metrics";
+
+/**
+ * Check the bearer token of a scrape against METRICS_TOKEN
+ */
+function isAuthorized(req: Request): boolean {
+	if (!config.metricsToken) {
+		return true;
+	}
+
+	// Hashing gives both sides the same length
+	const presented = hashKeySecret(
+		(req.headers.authorization ?? "").replace(/^Bearer /, ""),
+	);
+	return timingSafeEqual(
+		Buffer.from(presented),
+		Buffer.from(hashKeySecret(config.metricsToken)),
+	);
+}
+
+/**
+ * Handle Prometheus scrapes
+ */
+export async function metricsHandler(
+	req: Request,
+	res: Response,
+): Promise<void> {
+	if (!isAuthorized(req)) {
+		throw new ApiError(HTTP_STATUS.UNAUTHORIZED, "Invalid metrics token");
+	}
+
+	res.setHeader("Content-Type", registry.contentType);
+	res.send(await registry.metrics());
+}
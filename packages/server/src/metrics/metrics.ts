@@ -0,0 +1,108 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+	Counter,
+	collectDefaultMetrics,
+	Gauge,
+	Histogram,
+	Registry,
+} from "prom-client";
+import { routeLabel } from "../utils/route";
+
+// Prefix of every metric the proxy exposes
+const PREFIX = "lmstudio_proxy_";
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: PREFIX });
+
+export const httpRequests = new Counter({
+	name: `${PREFIX}http_requests_total`,
+	help: "API requests by route, model and status",
+	labelNames: ["route", "model", "status"] as const,
+	registers: [registry],
+});
+
+export const httpRequestDuration = new Histogram({
+	name: `${PREFIX}http_request_duration_seconds`,
+	help: "Time until API responses finished, including streams",
+	labelNames: ["route", "model", "status"] as const,
+	buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+	registers: [registry],
+});
+
+export const streamTimeToFirstToken = new Histogram({
+	name: `${PREFIX}stream_time_to_first_token_seconds`,
+	help: "Time from dispatching a streaming request until its first chunk",
+	labelNames: ["model"] as const,
+	buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+	registers: [registry],
+});
+
+export const streamTokensPerSecond = new Histogram({
+	name: `${PREFIX}stream_tokens_per_second`,
+	help: "Completion tokens per second of finished streams, after the first chunk",
+	labelNames: ["model"] as const,
+	buckets: [1, 5, 10, 20, 40, 60, 100, 150, 250],
+	registers: [registry],
+});
+
+export const queueDepth = new Gauge({
+	name: `${PREFIX}queue_depth`,
+	help: "Requests waiting for a client with a free slot",
+	registers: [registry],
+});
+
+export const pendingRequests = new Gauge({
+	name: `${PREFIX}pending_requests`,
+	help: "Requests dispatched to clients and not yet answered",
+	registers: [registry],
+});
+
+export const connectedClients = new Gauge({
+	name: `${PREFIX}connected_clients`,
+	help: "Authenticated LM Studio clients",
+	registers: [registry],
+});
+
+export const clientReconnects = new Counter({
+	name: `${PREFIX}websocket_reconnects_total`,
+	help: "Authentications of client IDs that were connected before",
+	registers: [registry],
+});
+
+export const relayedBytes = new Counter({
+	name: `${PREFIX}websocket_bytes_total`,
+	help: "Bytes of requests sent to and responses received from each client",
+	labelNames: ["client_id", "direction"] as const,
+	registers: [registry],
+});
+
+/**
+ * Count the requests made to a router and time their responses
+ *
+ * Only successful responses are labelled with their model, so callers
+ * cannot create a series for every model name they make up.
+ *
+ * @param routes Paths within the router that are labelled as such; requests
+ * for any other path are labelled `other`
+ */
+export function observeRequests(routes: string[]) {
+	return (req: Request, res: Response, next: NextFunction): void => {
+		const route = routeLabel(req, routes);
+		const stopTimer = httpRequestDuration.startTimer();
+
+		res.on("close", () => {
+			const status = res.statusCode;
+			const model =
+				status < 400 && typeof req.body?.model === "string"
+					? req.body.model
+					: "unknown";
+			const labels = { route, model, status: String(status) };
+
+			httpRequests.inc(labels);
+			stopTimer(labels);
+		});
+
+		next();
+	};
+}
@@ -1,20 +1,87 @@
+import { HTTP_STATUS } from "@lmstudio-proxy/common";
 import type { NextFunction, Request, Response } from "express";
 import jwt from "jsonwebtoken";
+import { keyStore, Scope } from "../auth/key-store";
 import { config } from "../config";
 import { ApiError } from "../utils/error";
 import { createLogger } from "../utils/logger";
 
 const logger = createLogger("auth-middleware");
 
+/**
+ * Identity of an authenticated HTTP caller
+ */
+export interface AuthContext {
+	// Key the caller presented, or that the caller's token was issued for
+	keyId?: string;
+	scopes: Scope[];
+	// Whether the caller presented a JWT rather than the API key itself
+	viaToken: boolean;
+	// Models a token was limited to when it was issued
+	models?: string[];
+	// Set for tokens issued to LM Studio clients
+	clientId?: string;
+	// Tenant of the key, whose clients serve the caller besides the shared pool
+	tenant: string | null;
+}
+
 // Extend Express Request to include user property
 declare global {
 	namespace Express {
 		interface Request {
-			user?: any;
+			user?: AuthContext;
 		}
 	}
 }
 
+/**
+ * Resolve a JWT issued by this server into an auth context
+ */
+function verifyToken(token: string): AuthContext | undefined {
+	let decoded: jwt.JwtPayload;
+	try {
+		decoded = jwt.verify(token, config.jwtSecret) as jwt.JwtPayload;
+	} catch {
+		return undefined;
+	}
+
+	// Tokens die with the key they were issued for
+	const issuedAt = decoded.iat === undefined ? undefined : decoded.iat * 1000;
+	if (decoded.keyId && !keyStore.isActive(decoded.keyId, issuedAt)) {
+		logger.warn(`Rejected token issued for inactive API key ${decoded.keyId}`);
+		return undefined;
+	}
+
+	return {
+		keyId: decoded.keyId,
+		// Tokens issued before keys had scopes were only ever used for inference
+		scopes: decoded.scopes ?? [Scope.INFERENCE],
+		viaToken: true,
+		models: decoded.models,
+		clientId: decoded.clientId,
+		tenant: decoded.keyId
+			? (keyStore.find(decoded.keyId)?.tenant ?? null)
+			: null,
+	};
+}
+
+/**
+ * Resolve an API key or a JWT issued by this server into an auth context
+ */
+export function resolveCredential(credential: string): AuthContext | undefined {
+	const key = keyStore.verify(credential);
+	if (key) {
+		return {
+			keyId: key.id,
+			scopes: key.scopes,
+			viaToken: false,
+			tenant: key.tenant,
+		};
+	}
+
+	return verifyToken(credential);
+}
+
 export function authMiddleware(
 	req: Request,
 	_res: Response,
@@ -25,34 +92,26 @@ export function authMiddleware(
 		const authHeader = req.headers.authorization;
 
 		if (!authHeader) {
-			throw new ApiError(401, "Authorization header missing");
+			throw new ApiError(
+				HTTP_STATUS.UNAUTHORIZED,
+				"Authorization header missing",
+			);
 		}
 
-		// Check auth type (Bearer or API key format)
-		if (authHeader.startsWith("Bearer ")) {
-			// JWT token authentication
-			const token = authHeader.split(" ")[1];
-
-			try {
-				const decoded = jwt.verify(token, config.jwtSecret);
-				req.user = decoded;
-				next();
-			} catch {
-				logger.warn("Invalid JWT token");
-				throw new ApiError(401, "Invalid or expired token");
-			}
-		} else {
-			// Direct API key authentication
-			const apiKey = authHeader.replace("Bearer ", "");
-
-			if (apiKey !== config.apiKey) {
-				logger.warn("Invalid API key");
-				throw new ApiError(401, "Invalid API key");
-			}
+		// Accept either an API key or a JWT, with or without the Bearer prefix
+		const credential = authHeader.replace(/^Bearer /, "");
 
-			req.user = { apiKey: true };
-			next();
+		const context = resolveCredential(credential);
+		if (!context) {
+			logger.warn("Invalid API key or token");
+			throw new ApiError(
+				HTTP_STATUS.UNAUTHORIZED,
+				"Invalid API key or expired token",
+			);
 		}
+
+		req.user = context;
+		next();
 	} catch (error) {
 		if (error instanceof ApiError) {
 			next(error);
@@ -61,3 +120,26 @@ export function authMiddleware(
 		}
 	}
 }
+
+/**
+ * Only let callers whose key carries the given scope through
+ */
+export function requireScope(scope: Scope) {
+	return (req: Request, _res: Response, next: NextFunction): void => {
+		if (!req.user?.scopes.includes(scope)) {
+			logger.warn(`API key ${req.user?.keyId} lacks scope ${scope}`, {
+				path: req.originalUrl,
+			});
+			next(
+				new ApiError(
+					HTTP_STATUS.FORBIDDEN,
+					`This API key does not have the '${scope}' scope`,
+					"permission_error",
+				),
+			);
+			return;
+		}
+
+		next();
+	};
+}
@@ -1,5 +1,5 @@
 import type { NextFunction, Request, Response } from "express";
-import { ApiError } from "../utils/error";
+import { ApiError, errorBody } from "../utils/error";
 import { createLogger } from "../utils/logger";
 
 const logger = createLogger("error-handler");
@@ -14,13 +14,10 @@ export function errorHandler(
 	logger.error("API error:", err);
 
 	if (err instanceof ApiError) {
-		res.status(err.statusCode).json({
-			error: {
-				message: err.message,
-				type: err.type || "api_error",
-				code: err.statusCode,
-			},
-		});
+		if (err.retryAfter !== undefined) {
+			res.setHeader("Retry-After", String(err.retryAfter));
+		}
+		res.status(err.statusCode).json(errorBody(err));
 	} else {
 		// Handle unexpected errors
 		res.status(500).json({
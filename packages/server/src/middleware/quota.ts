@@ -0,0 +1,173 @@
+import { ErrorCode, HTTP_STATUS } from "@lmstudio-proxy/common";
+import type { NextFunction, Request, Response } from "express";
+import type { ForwardResult } from "../api/forward";
+import { keyStore } from "../auth/key-store";
+import { config } from "../config";
+import {
+	type QuotaLimits,
+	quotaTracker,
+	type WindowStatus,
+} from "../quota/quota-tracker";
+import { usageStore } from "../quota/usage-store";
+import { ApiError } from "../utils/error";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("quota");
+
+// Suggested wait before retrying when all of a key's stream slots are taken
+const STREAM_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * Identity usage is counted against: the caller's API key, or the address
+ * of callers whose token predates keys
+ */
+function quotaIdentity(req: Request): string {
+	return req.user?.keyId ?? `ip:${req.ip}`;
+}
+
+/**
+ * Get the limits of a key, falling back to the configured defaults
+ */
+function limitsFor(keyId?: string): QuotaLimits {
+	const quotas = keyId ? keyStore.get(keyId)?.quotas : undefined;
+	return {
+		requestsPerMinute:
+			quotas?.requestsPerMinute ?? config.quotaRequestsPerMinute,
+		tokensPerDay: quotas?.tokensPerDay ?? config.quotaTokensPerDay,
+		concurrentStreams:
+			quotas?.concurrentStreams ?? config.quotaConcurrentStreams,
+	};
+}
+
+/**
+ * Format a duration the way OpenAI's `x-ratelimit-reset-*` headers do,
+ * e.g. `20ms`, `1s` or `6m0s`
+ */
+function formatResetDuration(ms: number): string {
+	if (ms < 1000) {
+		return `${Math.max(Math.ceil(ms), 0)}ms`;
+	}
+
+	const seconds = Math.ceil(ms / 1000);
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	const rest = seconds % 60;
+
+	if (hours > 0) return `${hours}h${minutes}m${rest}s`;
+	if (minutes > 0) return `${minutes}m${rest}s`;
+	return `${rest}s`;
+}
+
+function setWindowHeaders(
+	res: Response,
+	dimension: string,
+	status: WindowStatus,
+): void {
+	res.setHeader(`x-ratelimit-limit-${dimension}`, String(status.limit));
+	res.setHeader(`x-ratelimit-remaining-${dimension}`, String(status.remaining));
+	res.setHeader(
+		`x-ratelimit-reset-${dimension}`,
+		formatResetDuration(status.resetMs),
+	);
+}
+
+function rateLimitError(message: string, retryAfterMs: number): ApiError {
+	return new ApiError(
+		HTTP_STATUS.TOO_MANY_REQUESTS,
+		message,
+		"rate_limit_error",
+		ErrorCode.RATE_LIMIT_EXCEEDED,
+		Math.max(Math.ceil(retryAfterMs / 1000), 1),
+	);
+}
+
+/**
+ * Enforce the caller's request and token limits and report them in OpenAI-style `x-ratelimit-*` headers
+ */
+export function quotaMiddleware(
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void {
+	const identity = quotaIdentity(req);
+	const limits = limitsFor(req.user?.keyId);
+	const check = quotaTracker.consumeRequest(identity, limits);
+
+	if (check.requests) setWindowHeaders(res, "requests", check.requests);
+	if (check.tokens) setWindowHeaders(res, "tokens", check.tokens);
+
+	if (check.exceeded) {
+		const window = check[check.exceeded] as WindowStatus;
+		logger.warn(`Rate limit exceeded for ${identity}`, {
+			dimension: check.exceeded,
+			limit: window.limit,
+		});
+		next(
+			rateLimitError(
+				check.exceeded === "requests"
+					? `Rate limit reached: ${window.limit} requests per minute`
+					: `Token budget reached: ${window.limit} tokens per day`,
+				window.resetMs,
+			),
+		);
+		return;
+	}
+
+	next();
+}
+
+/**
+ * Take one of the caller's concurrent stream slots until the response closes
+ * Called once the policy has decided the request really streams.
+ */
+export function acquireStreamSlot(req: Request, res: Response): void {
+	const identity = quotaIdentity(req);
+	const limits = limitsFor(req.user?.keyId);
+
+	if (!quotaTracker.acquireStream(identity, limits)) {
+		logger.warn(`Concurrent stream limit reached for ${identity}`, {
+			limit: limits.concurrentStreams,
+		});
+		throw rateLimitError(
+			`Concurrent stream limit reached: ${limits.concurrentStreams} streams`,
+			STREAM_RETRY_AFTER_SECONDS * 1000,
+		);
+	}
+
+	res.on("close", () => quotaTracker.releaseStream(identity));
+}
+
+/**
+ * Count the tokens a forwarded request used against the caller's daily
+ * budget and record the request for usage reporting
+ */
+export function recordUsage(req: Request, result: ForwardResult): void {
+	const identity = quotaIdentity(req);
+	if (result.usage) {
+		quotaTracker.recordTokens(identity, result.usage.totalTokens);
+		logger.debug(
+			`Recorded ${result.usage.totalTokens} tokens for ${identity}`,
+			{
+				estimated: result.usage.estimated,
+			},
+		);
+	}
+
+	// Written in the background, losing a record never fails the request
+	usageStore.record({
+		requestId: result.requestId,
+		keyId: req.user?.keyId ?? null,
+		tenant: req.user?.tenant ?? null,
+		model: result.model,
+		clientId: result.clientId,
+		type: result.type,
+		stream: result.stream,
+		outcome: result.outcome,
+		status: result.status,
+		latencyMs: result.latencyMs,
+		promptTokens: result.usage?.promptTokens ?? 0,
+		completionTokens: result.usage?.completionTokens ?? 0,
+		totalTokens: result.usage?.totalTokens ?? 0,
+		estimated: result.usage?.estimated ?? false,
+	});
+}
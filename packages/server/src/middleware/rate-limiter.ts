@@ -1,22 +0,0 @@
-import rateLimit from "express-rate-limit";
-import { createLogger } from "../utils/logger";
-
-const logger = createLogger("rate-limiter");
-
-export const rateLimiter = rateLimit({
-	windowMs: 15 * 60 * 1000, // 15 minutes
-	max: 100, // Limit each IP to 100 requests per windowMs
-	standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-	legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-	message: {
-		error: {
-			message: "Too many requests, please try again later.",
-			type: "rate_limit_error",
-			code: 429,
-		},
-	},
-	handler: (req, res, _next, options) => {
-		logger.warn(`Rate limit exceeded for IP: ${req.ip}`);
-		res.status(options.statusCode).send(options.message);
-	},
-});
@@ -0,0 +1,45 @@
+import { context, propagation, SpanKind, trace } from "@opentelemetry/api";
+import {
+	ATTR_HTTP_REQUEST_METHOD,
+	ATTR_HTTP_RESPONSE_STATUS_CODE,
+	ATTR_HTTP_ROUTE,
+} from "@opentelemetry/semantic-conventions";
+import type { NextFunction, Request, Response } from "express";
+import { routeLabel } from "../utils/route";
+import { endSpan, tracer } from "../utils/tracing";
+
+/**
+ * Trace the requests made to a router, continuing the caller's trace when
+ * it sent a W3C `traceparent` header
+ *
+ * @param routes Paths within the router that name their spans; requests for
+ * any other path are named `other`
+ */
+export function traceRequests(routes: string[]) {
+	return (req: Request, res: Response, next: NextFunction): void => {
+		const route = routeLabel(req, routes);
+		const parent = propagation.extract(context.active(), req.headers);
+		const span = tracer.startSpan(
+			`${req.method} ${route}`,
+			{
+				kind: SpanKind.SERVER,
+				attributes: {
+					[ATTR_HTTP_REQUEST_METHOD]: req.method,
+					[ATTR_HTTP_ROUTE]: route,
+				},
+			},
+			parent,
+		);
+
+		res.on("close", () => {
+			span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+			endSpan(
+				span,
+				res.statusCode >= 500 ? new Error(`HTTP ${res.statusCode}`) : undefined,
+			);
+		});
+
+		// Handlers run in the span's context, so forwarded requests join it
+		context.with(trace.setSpan(parent, span), next);
+	};
+}
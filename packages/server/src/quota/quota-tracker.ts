@@ -0,0 +1,159 @@
+/**
+ * Limits applied to one API key, 0 meaning unlimited
+ */
+export interface QuotaLimits {
+	requestsPerMinute: number;
+	// Prompt plus completion tokens per UTC day
+	tokensPerDay: number;
+	concurrentStreams: number;
+}
+
+/**
+ * State of one limited dimension after a request was counted
+ */
+export interface WindowStatus {
+	limit: number;
+	remaining: number;
+	// Time until the window starts over
+	resetMs: number;
+}
+
+/**
+ * Outcome of counting a request against its key's limits
+ */
+export interface QuotaCheck {
+	requests?: WindowStatus;
+	tokens?: WindowStatus;
+	// Dimension that refused the request, if any
+	exceeded?: "requests" | "tokens";
+}
+
+// Usage of one API key in its current windows
+interface KeyUsage {
+	minuteStart: number;
+	requests: number;
+	dayStart: number;
+	tokens: number;
+	streams: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Counts requests, tokens and open streams per API key in memory
+ *
+ * Requests are counted in fixed one-minute windows starting with the first
+ * request, tokens in UTC days.
+ */
+export class QuotaTracker {
+	private usage: Map<string, KeyUsage> = new Map();
+
+	/**
+	 * Count a request against a key's request and token limits
+	 *
+	 * The request is only counted when neither limit is exhausted.
+	 */
+	public consumeRequest(
+		key: string,
+		limits: QuotaLimits,
+		now = Date.now(),
+	): QuotaCheck {
+		const usage = this.current(key, now);
+		const check: QuotaCheck = {};
+
+		if (limits.tokensPerDay > 0) {
+			check.tokens = {
+				limit: limits.tokensPerDay,
+				remaining: Math.max(limits.tokensPerDay - usage.tokens, 0),
+				resetMs: usage.dayStart + DAY_MS - now,
+			};
+			if (check.tokens.remaining === 0) {
+				check.exceeded = "tokens";
+			}
+		}
+
+		if (limits.requestsPerMinute > 0) {
+			const remaining = limits.requestsPerMinute - usage.requests;
+			check.requests = {
+				limit: limits.requestsPerMinute,
+				remaining: Math.max(remaining - (check.exceeded ? 0 : 1), 0),
+				resetMs: usage.minuteStart + MINUTE_MS - now,
+			};
+			if (remaining <= 0) {
+				check.exceeded = "requests";
+			}
+		}
+
+		if (!check.exceeded) {
+			usage.requests++;
+		}
+
+		return check;
+	}
+
+	/**
+	 * Take one of a key's stream slots
+	 * @returns Whether the key was below its concurrent stream limit
+	 */
+	public acquireStream(key: string, limits: QuotaLimits): boolean {
+		const usage = this.current(key, Date.now());
+		if (
+			limits.concurrentStreams > 0 &&
+			usage.streams >= limits.concurrentStreams
+		) {
+			return false;
+		}
+
+		usage.streams++;
+		return true;
+	}
+
+	/**
+	 * Give back a stream slot taken with acquireStream
+	 */
+	public releaseStream(key: string): void {
+		const usage = this.usage.get(key);
+		if (usage && usage.streams > 0) {
+			usage.streams--;
+		}
+	}
+
+	/**
+	 * Add tokens used by a finished request to the key's daily total
+	 */
+	public recordTokens(key: string, tokens: number, now = Date.now()): void {
+		this.current(key, now).tokens += tokens;
+	}
+
+	/**
+	 * Get a key's usage, starting new windows where the old ones ran out
+	 */
+	private current(key: string, now: number): KeyUsage {
+		let usage = this.usage.get(key);
+		if (!usage) {
+			usage = {
+				minuteStart: now,
+				requests: 0,
+				dayStart: now - (now % DAY_MS),
+				tokens: 0,
+				streams: 0,
+			};
+			this.usage.set(key, usage);
+		}
+
+		if (now - usage.minuteStart >= MINUTE_MS) {
+			usage.minuteStart = now;
+			usage.requests = 0;
+		}
+
+		if (now - usage.dayStart >= DAY_MS) {
+			usage.dayStart = now - (now % DAY_MS);
+			usage.tokens = 0;
+		}
+
+		return usage;
+	}
+}
+
+export const quotaTracker = new QuotaTracker();
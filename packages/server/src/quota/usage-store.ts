@@ -0,0 +1,249 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { config } from "../config";
+import { createLogger } from "../utils/logger";
+import type { RequestType } from "../websocket/request-registry";
+
+const logger = createLogger("usage-store");
+
+/**
+ * How a forwarded request ended, `cancelled` meaning the caller went away
+ * before it finished
+ */
+export type UsageOutcome = "success" | "error" | "cancelled";
+
+/**
+ * Time buckets usage is reported in
+ */
+export type UsageBucket = "hour" | "day" | "month";
+
+export const USAGE_BUCKETS: readonly UsageBucket[] = ["hour", "day", "month"];
+
+/**
+ * A forwarded request recorded for usage reporting
+ */
+export interface UsageRecord {
+	timestamp: string;
+	requestId: string;
+	// API key of the caller, null for callers whose token predates keys
+	keyId: string | null;
+	tenant: string | null;
+	model: string | null;
+	// Client that served the request, null when none was assigned
+	clientId: string | null;
+	type: RequestType;
+	stream: boolean;
+	outcome: UsageOutcome;
+	// HTTP status the caller got
+	status: number;
+	latencyMs: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	// Whether the tokens were estimated from the text
+	estimated: boolean;
+}
+
+/**
+ * Which records a usage report covers, all when a field is left out
+ */
+export interface UsageFilter {
+	keyId?: string;
+	model?: string;
+	clientId?: string;
+	// Inclusive start and exclusive end of the reported time range
+	from?: Date;
+	to?: Date;
+}
+
+/**
+ * Usage of one key, model and client within one time bucket
+ */
+export interface UsageSummary {
+	bucketStart: string;
+	keyId: string | null;
+	tenant: string | null;
+	model: string | null;
+	clientId: string | null;
+	requests: number;
+	failed: number;
+	cancelled: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	// Requests whose tokens were estimated
+	estimatedRequests: number;
+	averageLatencyMs: number;
+}
+
+/**
+ * Start of the bucket a time falls in, in UTC
+ */
+export function bucketStart(time: Date, bucket: UsageBucket): Date {
+	const start = new Date(time);
+	start.setUTCMinutes(0, 0, 0);
+	if (bucket !== "hour") start.setUTCHours(0);
+	if (bucket === "month") start.setUTCDate(1);
+	return start;
+}
+
+/**
+ * Append-only record of forwarded requests, stored as one JSON entry per line
+ *
+ * Writes and reads never block the event loop. Lines that cannot be parsed,
+ * such as one cut short by a crash, are skipped.
+ */
+export class UsageStore {
+	// Pending appends, chained so records land in the order they were made
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(private filePath: string) {}
+
+	/**
+	 * Append a request to the record, in the background
+	 * Failed writes are logged, never thrown
+	 */
+	public record(entry: Omit<UsageRecord, "timestamp">): UsageRecord {
+		const stamped: UsageRecord = {
+			timestamp: new Date().toISOString(),
+			...entry,
+		};
+		const line = `${JSON.stringify(stamped)}\n`;
+
+		this.writes = this.writes
+			.then(async () => {
+				await fs.promises.mkdir(path.dirname(this.filePath), {
+					recursive: true,
+				});
+				await fs.promises.appendFile(this.filePath, line, { mode: 0o600 });
+			})
+			.catch((error) => {
+				logger.error(
+					`Failed to record usage of request ${entry.requestId}`,
+					error,
+				);
+			});
+
+		return stamped;
+	}
+
+	/**
+	 * Read the recorded requests that match a filter, oldest first
+	 * Requests recorded before the call are always included.
+	 */
+	public async read(filter: UsageFilter = {}): Promise<UsageRecord[]> {
+		await this.writes;
+
+		try {
+			await fs.promises.access(this.filePath);
+		} catch {
+			return [];
+		}
+
+		const records: UsageRecord[] = [];
+		let skipped = 0;
+		const lines = readline.createInterface({
+			input: fs.createReadStream(this.filePath, "utf8"),
+			crlfDelay: Number.POSITIVE_INFINITY,
+		});
+
+		for await (const line of lines) {
+			if (!line) {
+				continue;
+			}
+
+			let entry: UsageRecord;
+			try {
+				entry = JSON.parse(line) as UsageRecord;
+			} catch {
+				skipped++;
+				continue;
+			}
+
+			if (matches(entry, filter)) {
+				records.push(entry);
+			}
+		}
+
+		if (skipped > 0) {
+			logger.warn(`Skipped ${skipped} unreadable lines in ${this.filePath}`);
+		}
+
+		return records;
+	}
+
+	/**
+	 * Sum up the matching requests per time bucket, key, model and client,
+	 * oldest bucket first
+	 */
+	public async summarize(
+		filter: UsageFilter,
+		bucket: UsageBucket,
+	): Promise<UsageSummary[]> {
+		const summaries = new Map<string, UsageSummary & { latencyMs: number }>();
+
+		for (const entry of await this.read(filter)) {
+			const start = bucketStart(
+				new Date(entry.timestamp),
+				bucket,
+			).toISOString();
+			const group = JSON.stringify([
+				start,
+				entry.keyId,
+				entry.model,
+				entry.clientId,
+			]);
+
+			let summary = summaries.get(group);
+			if (!summary) {
+				summary = {
+					bucketStart: start,
+					keyId: entry.keyId,
+					tenant: entry.tenant,
+					model: entry.model,
+					clientId: entry.clientId,
+					requests: 0,
+					failed: 0,
+					cancelled: 0,
+					promptTokens: 0,
+					completionTokens: 0,
+					totalTokens: 0,
+					estimatedRequests: 0,
+					averageLatencyMs: 0,
+					latencyMs: 0,
+				};
+				summaries.set(group, summary);
+			}
+
+			summary.requests++;
+			if (entry.outcome === "error") summary.failed++;
+			if (entry.outcome === "cancelled") summary.cancelled++;
+			summary.promptTokens += entry.promptTokens;
+			summary.completionTokens += entry.completionTokens;
+			summary.totalTokens += entry.totalTokens;
+			if (entry.estimated) summary.estimatedRequests++;
+			summary.latencyMs += entry.latencyMs;
+		}
+
+		return [...summaries.values()]
+			.map(({ latencyMs, ...summary }) => ({
+				...summary,
+				averageLatencyMs: Math.round(latencyMs / summary.requests),
+			}))
+			.sort((a, b) => a.bucketStart.localeCompare(b.bucketStart));
+	}
+}
+
+function matches(entry: UsageRecord, filter: UsageFilter): boolean {
+	const time = Date.parse(entry.timestamp);
+	return (
+		(filter.keyId === undefined || entry.keyId === filter.keyId) &&
+		(filter.model === undefined || entry.model === filter.model) &&
+		(filter.clientId === undefined || entry.clientId === filter.clientId) &&
+		(filter.from === undefined || time >= filter.from.getTime()) &&
+		(filter.to === undefined || time < filter.to.getTime())
+	);
+}
+
+export const usageStore = new UsageStore(config.usageLogPath);
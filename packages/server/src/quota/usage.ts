@@ -0,0 +1,199 @@
+/**
+ * Tokens used by a request
+ */
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	// Whether the counts are estimated because LM Studio did not report them
+	estimated: boolean;
+}
+
+// Rough characters per token for English text with common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === "object";
+}
+
+/**
+ * Collect the text of a message content, which is a string or a list of parts
+ */
+function contentText(content: unknown): string {
+	if (typeof content === "string") {
+		return content;
+	}
+
+	if (Array.isArray(content)) {
+		return content
+			.map((part) =>
+				isRecord(part) && typeof part.text === "string" ? part.text : "",
+			)
+			.join("");
+	}
+
+	return "";
+}
+
+/**
+ * Collect the text of a prompt or embeddings input, a string or list of strings
+ */
+function promptText(prompt: unknown): string {
+	if (Array.isArray(prompt)) {
+		return prompt.filter((item) => typeof item === "string").join("");
+	}
+
+	return typeof prompt === "string" ? prompt : "";
+}
+
+/**
+ * Collect the prompt text of a chat, completion or embeddings request
+ */
+function requestText(data: unknown): string {
+	if (!isRecord(data)) {
+		return "";
+	}
+
+	if (Array.isArray(data.messages)) {
+		return data.messages
+			.map((message) => (isRecord(message) ? contentText(message.content) : ""))
+			.join("");
+	}
+
+	return promptText(data.prompt ?? data.input);
+}
+
+/**
+ * Collect the generated text of a response or stream chunk
+ */
+function choicesText(data: unknown): string {
+	if (!isRecord(data) || !Array.isArray(data.choices)) {
+		return "";
+	}
+
+	return data.choices
+		.map((choice) => {
+			if (!isRecord(choice)) {
+				return "";
+			}
+
+			const message = choice.message ?? choice.delta;
+			return isRecord(message)
+				? contentText(message.content)
+				: promptText(choice.text);
+		})
+		.join("");
+}
+
+/**
+ * Read the OpenAI-style `usage` field of a response or final stream chunk
+ */
+function reportedUsage(data: unknown): TokenUsage | undefined {
+	if (!isRecord(data) || !isRecord(data.usage)) {
+		return undefined;
+	}
+
+	const { prompt_tokens, completion_tokens, total_tokens } = data.usage;
+	if (typeof prompt_tokens !== "number") {
+		return undefined;
+	}
+
+	const completionTokens =
+		typeof completion_tokens === "number" ? completion_tokens : 0;
+	return {
+		promptTokens: prompt_tokens,
+		completionTokens,
+		totalTokens:
+			typeof total_tokens === "number"
+				? total_tokens
+				: prompt_tokens + completionTokens,
+		estimated: false,
+	};
+}
+
+function estimateUsage(request: unknown, completion: string): TokenUsage {
+	const promptTokens = estimateTokens(requestText(request));
+	const completionTokens = estimateTokens(completion);
+	return {
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
+		estimated: true,
+	};
+}
+
+/**
+ * Get the tokens used by a non-streaming request, estimating them from the
+ * request and response text when LM Studio did not report usage
+ */
+export function usageFromResponse(
+	request: unknown,
+	response: unknown,
+): TokenUsage {
+	return (
+		reportedUsage(response) ?? estimateUsage(request, choicesText(response))
+	);
+}
+
+/**
+ * Tracks the tokens used by a streaming request from the SSE chunks relayed
+ * to the caller
+ *
+ * Chunks may split events, so incomplete lines are kept until the rest arrives.
+ */
+export class StreamUsageCollector {
+	private buffer = "";
+	private completion = "";
+	private reported: TokenUsage | undefined;
+	private sawData = false;
+
+	constructor(private request: unknown) {}
+
+	/**
+	 * Process a relayed chunk
+	 */
+	public push(chunk: string): void {
+		this.buffer += chunk;
+		const lines = this.buffer.split("\n");
+		this.buffer = lines.pop() ?? "";
+
+		for (const line of lines) {
+			if (!line.startsWith("data:")) {
+				continue;
+			}
+
+			const payload = line.slice("data:".length).trim();
+			if (payload === "[DONE]") {
+				continue;
+			}
+
+			try {
+				const event = JSON.parse(payload);
+				this.sawData = true;
+				this.completion += choicesText(event);
+				this.reported = reportedUsage(event) ?? this.reported;
+			} catch {
+				// Not JSON, so there is nothing to count
+			}
+		}
+	}
+
+	/**
+	 * Get the tokens used so far
+	 * @returns Undefined when the stream never produced any output
+	 */
+	public finish(): TokenUsage | undefined {
+		if (!this.sawData) {
+			return undefined;
+		}
+
+		return this.reported ?? estimateUsage(this.request, this.completion);
+	}
+}
@@ -1,11 +1,138 @@
+import {
+	ErrorCode,
+	type ErrorPayload,
+	HTTP_STATUS,
+} from "@lmstudio-proxy/common";
+
 export class ApiError extends Error {
 	statusCode: number;
 	type?: string;
+	code?: string;
+	// Seconds the caller should wait before retrying, sent as Retry-After
+	retryAfter?: number;
 
-	constructor(statusCode: number, message: string, type?: string) {
+	constructor(
+		statusCode: number,
+		message: string,
+		type?: string,
+		code?: string,
+		retryAfter?: number,
+	) {
 		super(message);
 		this.statusCode = statusCode;
 		this.type = type;
+		this.code = code;
+		this.retryAfter = retryAfter;
 		this.name = "ApiError";
 	}
 }
+
+// HTTP status and OpenAI error type used for each error reported by a client
+const ERROR_CODE_RESPONSES: Record<
+	ErrorCode,
+	{ statusCode: number; type: string }
+> = {
+	[ErrorCode.AUTHENTICATION_FAILED]: {
+		statusCode: HTTP_STATUS.BAD_GATEWAY,
+		type: "server_error",
+	},
+	[ErrorCode.INVALID_REQUEST]: {
+		statusCode: HTTP_STATUS.BAD_REQUEST,
+		type: "invalid_request_error",
+	},
+	[ErrorCode.INVALID_MESSAGE]: {
+		statusCode: HTTP_STATUS.BAD_GATEWAY,
+		type: "server_error",
+	},
+	[ErrorCode.PROXY_UNAVAILABLE]: {
+		statusCode: HTTP_STATUS.SERVICE_UNAVAILABLE,
+		type: "server_error",
+	},
+	[ErrorCode.LM_STUDIO_UNAVAILABLE]: {
+		statusCode: HTTP_STATUS.SERVICE_UNAVAILABLE,
+		type: "server_error",
+	},
+	[ErrorCode.LM_STUDIO_ERROR]: {
+		statusCode: HTTP_STATUS.BAD_GATEWAY,
+		type: "server_error",
+	},
+	[ErrorCode.CLIENT_DISCONNECTED]: {
+		statusCode: HTTP_STATUS.BAD_GATEWAY,
+		type: "server_error",
+	},
+	[ErrorCode.MODEL_NOT_FOUND]: {
+		statusCode: HTTP_STATUS.NOT_FOUND,
+		type: "invalid_request_error",
+	},
+	[ErrorCode.REQUEST_TIMEOUT]: {
+		statusCode: HTTP_STATUS.GATEWAY_TIMEOUT,
+		type: "server_error",
+	},
+	[ErrorCode.QUEUE_FULL]: {
+		statusCode: HTTP_STATUS.TOO_MANY_REQUESTS,
+		type: "rate_limit_error",
+	},
+	[ErrorCode.QUEUE_TIMEOUT]: {
+		statusCode: HTTP_STATUS.SERVICE_UNAVAILABLE,
+		type: "server_error",
+	},
+	[ErrorCode.RATE_LIMIT_EXCEEDED]: {
+		statusCode: HTTP_STATUS.TOO_MANY_REQUESTS,
+		type: "rate_limit_error",
+	},
+	[ErrorCode.INTERNAL_ERROR]: {
+		statusCode: HTTP_STATUS.BAD_GATEWAY,
+		type: "server_error",
+	},
+};
+
+/**
+ * Convert an error reported by a client into the error returned to the caller
+ * @param payload Error from an ERROR_RESPONSE, or a plain message from older clients
+ */
+export function apiErrorFromPayload(payload: string | ErrorPayload): ApiError {
+	if (typeof payload === "string") {
+		return new ApiError(
+			HTTP_STATUS.BAD_GATEWAY,
+			payload || "Unknown error",
+			"server_error",
+			ErrorCode.LM_STUDIO_ERROR,
+		);
+	}
+
+	const code = payload.code ?? ErrorCode.LM_STUDIO_ERROR;
+	const { type } = ERROR_CODE_RESPONSES[code];
+	let { statusCode } = ERROR_CODE_RESPONSES[code];
+
+	// Keep LM Studio's own status for request errors, e.g. 422
+	if (
+		code === ErrorCode.INVALID_REQUEST &&
+		payload.status !== undefined &&
+		payload.status >= 400 &&
+		payload.status < 500
+	) {
+		statusCode = payload.status;
+	}
+
+	return new ApiError(
+		statusCode,
+		payload.message || "Unknown error",
+		type,
+		code,
+	);
+}
+
+/**
+ * Build the OpenAI-style body for an error
+ */
+export function errorBody(err: ApiError): {
+	error: { message: string; type: string; code: string | number };
+} {
+	return {
+		error: {
+			message: err.message,
+			type: err.type || "api_error",
+			code: err.code ?? err.statusCode,
+		},
+	};
+}
@@ -0,0 +1,13 @@
+import type { Request } from "express";
+
+/**
+ * Name the route of a request for metrics and traces
+ *
+ * @param routes Paths within the router that are named as such; requests
+ * for any other path are named `other`, so callers cannot create a name
+ * for every path they make up
+ */
+export function routeLabel(req: Request, routes: string[]): string {
+	const path = req.path.replace(/(.)\/+$/, "$1");
+	return routes.includes(path) ? `${req.baseUrl}${path}` : "other";
+}
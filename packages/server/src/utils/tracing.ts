@@ -0,0 +1,106 @@
+import {
+	type Context,
+	context,
+	propagation,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+	BatchSpanProcessor,
+	NodeTracerProvider,
+} from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { config } from "../config";
+
+/**
+ * W3C trace context carried by request messages
+ */
+export interface TraceCarrier {
+	traceparent?: string;
+	tracestate?: string;
+}
+
+// Spans are always recorded so trace context reaches clients, but only
+// exported when a collector is configured
+const provider = new NodeTracerProvider({
+	resource: resourceFromAttributes({
+		[ATTR_SERVICE_NAME]: config.otelServiceName,
+	}),
+	spanProcessors: config.otlpEndpoint
+		? [
+				new BatchSpanProcessor(
+					new OTLPTraceExporter({
+						url: `${config.otlpEndpoint.replace(/\/+$/, "")}/v1/traces`,
+					}),
+				),
+			]
+		: [],
+});
+
+provider.register();
+
+export const tracer = trace.getTracer("lmstudio-proxy-server");
+
+/**
+ * Start the span of a request dispatched to a client
+ * @param parent Context of the API request being forwarded
+ */
+export function startDispatchSpan(
+	type: string,
+	requestId: string,
+	clientId: string,
+	model: string | undefined,
+	parent: Context,
+): Span {
+	return tracer.startSpan(
+		`dispatch ${type}`,
+		{
+			kind: SpanKind.CLIENT,
+			attributes: {
+				"lmstudio_proxy.request_id": requestId,
+				"lmstudio_proxy.client_id": clientId,
+				...(model ? { "gen_ai.request.model": model } : {}),
+			},
+		},
+		parent,
+	);
+}
+
+/**
+ * Get the W3C trace context that continues a span on the other side of
+ * the WebSocket
+ */
+export function traceCarrier(span: Span): TraceCarrier {
+	const carrier: TraceCarrier = {};
+	propagation.inject(trace.setSpan(context.active(), span), carrier);
+	return carrier;
+}
+
+/**
+ * End a span, marking it failed when an error is given
+ *
+ * Spans that already ended are left alone, so every way a request can
+ * finish may end its span.
+ */
+export function endSpan(span: Span, error?: Error): void {
+	if (!span.isRecording()) {
+		return;
+	}
+
+	if (error) {
+		span.recordException(error);
+		span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+	}
+	span.end();
+}
+
+/**
+ * Export the spans that are still buffered and stop exporting
+ */
+export function shutdownTracing(): Promise<void> {
+	return provider.shutdown();
+}
@@ -1,17 +1,76 @@
-import { MessageType } from "@lmstudio-proxy/common";
+import {
+	type AuthMessage,
+	Capability,
+	type ClientMessage,
+	LEGACY_CAPABILITIES,
+	LEGACY_PROTOCOL_VERSION,
+	MessageType,
+	negotiateProtocol,
+	PROTOCOL_VERSION,
+} from "@lmstudio-proxy/common";
 import jwt from "jsonwebtoken";
-import type WebSocket from "ws";
+import { type ApiKeyRecord, keyStore, Scope } from "../auth/key-store";
 import { config } from "../config";
 import { createLogger } from "../utils/logger";
 import type { ClientManager } from "./client-manager";
+import type { ExtendedWebSocket } from "./types";
 
 const logger = createLogger("ws-auth");
 
-// Define extended WebSocket type
-interface ExtendedWebSocket extends WebSocket {
-	isAlive: boolean;
-	isAuthenticated: boolean;
-	clientId: string;
+// Protocol features implemented by this server build
+const SERVER_CAPABILITIES: Capability[] = [
+	Capability.STREAMING,
+	Capability.CANCELLATION,
+	Capability.MODEL_REPORTING,
+	Capability.DRAINING,
+];
+
+/**
+ * Find the key a client authenticated with
+ *
+ * Clients sign the challenge sent on connect, which can only be answered
+ * once, unless they authenticated during the upgrade already. Plaintext keys
+ * are only accepted when configured.
+ */
+function authenticateKey(
+	ws: ExtendedWebSocket,
+	message: AuthMessage,
+): ApiKeyRecord | undefined {
+	if (ws.upgradeAuth) {
+		ws.authNonce = null;
+		const { keyId, clientId } = ws.upgradeAuth;
+
+		// Tokens issued to a client only let that client back in
+		if (clientId && clientId !== message.clientId) {
+			logger.warn(
+				`Client ${message.clientId} presented a token issued to ${clientId}`,
+			);
+			return undefined;
+		}
+		return keyId ? keyStore.find(keyId) : undefined;
+	}
+
+	if (message.keyId && message.signature) {
+		const nonce = ws.authNonce;
+		ws.authNonce = null;
+		return nonce
+			? keyStore.verifySignature(
+					message.keyId,
+					nonce,
+					message.clientId,
+					message.signature,
+				)
+			: undefined;
+	}
+
+	if (message.apiKey !== undefined && config.allowPlaintextClientAuth) {
+		return keyStore.verify(message.apiKey);
+	}
+
+	logger.warn(
+		`Client ${message.clientId} did not answer the authentication challenge`,
+	);
+	return undefined;
 }
 
 /**
@@ -19,7 +78,7 @@ interface ExtendedWebSocket extends WebSocket {
  */
 export function handleClientAuthentication(
 	ws: ExtendedWebSocket,
-	message: any,
+	message: ClientMessage,
 	clientManager: ClientManager,
 ): void {
 	if (message.type !== MessageType.AUTH) {
@@ -35,52 +94,111 @@ export function handleClientAuthentication(
 		return;
 	}
 
-	// Validate api key
-	if (message.apiKey !== config.apiKey) {
-		logger.warn("Client authentication failed: invalid API key");
+	// Validate credentials, whose key must be allowed to register clients
+	const key = authenticateKey(ws, message);
+	if (!key?.scopes.includes(Scope.CLIENT_REGISTER)) {
+		logger.warn(
+			key
+				? `Client authentication failed: API key ${key.id} lacks scope ${Scope.CLIENT_REGISTER}`
+				: "Client authentication failed: invalid API key",
+		);
 		ws.send(
 			JSON.stringify({
 				type: MessageType.AUTH_RESULT,
 				success: false,
-				error: "Invalid API key",
+				error: key ? "API key may not register clients" : "Invalid API key",
 			}),
 		);
 		ws.close(1008, "Authentication failed");
 		return;
 	}
 
-	// Validate client ID
-	if (!message.clientId) {
-		logger.warn("Client authentication failed: missing client ID");
+	// Negotiate protocol version and capabilities, assuming legacy
+	// behaviour for clients that predate negotiation
+	const negotiation = negotiateProtocol(
+		{
+			protocolVersion: message.protocolVersion ?? LEGACY_PROTOCOL_VERSION,
+			minProtocolVersion: message.minProtocolVersion ?? LEGACY_PROTOCOL_VERSION,
+			capabilities: message.capabilities ?? LEGACY_CAPABILITIES,
+		},
+		{
+			protocolVersion: PROTOCOL_VERSION,
+			minProtocolVersion: config.minClientProtocolVersion,
+			capabilities: SERVER_CAPABILITIES,
+		},
+		config.requiredClientCapabilities,
+	);
+
+	if (!negotiation.success) {
+		logger.warn(
+			`Client ${message.clientId} rejected during protocol negotiation: ${negotiation.reason}`,
+		);
+		ws.send(
+			JSON.stringify({
+				type: MessageType.AUTH_RESULT,
+				success: false,
+				error: negotiation.reason,
+				protocolVersion: PROTOCOL_VERSION,
+			}),
+		);
+		ws.close(1008, "Incompatible protocol");
+		return;
+	}
+
+	ws.protocolVersion = negotiation.protocolVersion;
+	ws.capabilities = new Set(negotiation.capabilities);
+	ws.capacity = message.capacity ?? 1;
+
+	// The stricter of the client's declared limit and the server's, 0 meaning none
+	const concurrencyLimits = [
+		message.maxConcurrency ?? 0,
+		config.clientMaxConcurrency,
+	].filter((limit) => limit > 0);
+	ws.maxConcurrency =
+		concurrencyLimits.length > 0 ? Math.min(...concurrencyLimits) : 0;
+
+	// Register client, unless another key or tenant holds its ID
+	ws.keyId = key.id;
+	ws.tenant = key.tenant;
+	if (!clientManager.addClient(message.clientId, ws)) {
 		ws.send(
 			JSON.stringify({
 				type: MessageType.AUTH_RESULT,
 				success: false,
-				error: "Client ID required",
+				error: "Client ID is in use by another key",
 			}),
 		);
-		ws.close(1008, "Authentication failed");
+		ws.close(1008, "Client ID in use");
 		return;
 	}
 
-	// Generate JWT token for this session
+	// Generate JWT token for this session, carrying the key's scopes
+	const claims = {
+		clientId: message.clientId,
+		keyId: key.id,
+		scopes: key.scopes,
+	};
 	// eslint-disable-next-line @typescript-eslint/ban-ts-comment
 	// @ts-expect-error - Temporary fix for type issues with jsonwebtoken
-	const token = jwt.sign({ clientId: message.clientId }, config.jwtSecret, {
+	const token = jwt.sign(claims, config.jwtSecret, {
 		expiresIn: config.jwtExpiresIn,
 	});
 
-	// Register client
-	clientManager.addClient(message.clientId, ws);
-
 	// Send successful authentication response
 	ws.send(
 		JSON.stringify({
 			type: MessageType.AUTH_RESULT,
 			success: true,
 			token,
+			protocolVersion: negotiation.protocolVersion,
+			capabilities: negotiation.capabilities,
 		}),
 	);
 
-	logger.info(`Client authenticated: ${message.clientId}`);
+	logger.info(`Client authenticated: ${message.clientId}`, {
+		keyId: key.id,
+		tenant: key.tenant,
+		protocolVersion: negotiation.protocolVersion,
+		capabilities: negotiation.capabilities,
+	});
 }
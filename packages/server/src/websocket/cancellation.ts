@@ -0,0 +1,40 @@
+import {
+	type CancelRequestMessage,
+	Capability,
+	createMessage,
+	MessageType,
+} from "@lmstudio-proxy/common";
+import WebSocket from "ws";
+import { createLogger } from "../utils/logger";
+import type { ExtendedWebSocket } from "./types";
+
+const logger = createLogger("cancellation");
+
+/**
+ * Ask a client to stop working on a request
+ * Clients that did not negotiate cancellation are left to finish on their own
+ */
+export function sendCancelRequest(
+	client: ExtendedWebSocket,
+	requestId: string,
+): void {
+	if (!client.capabilities.has(Capability.CANCELLATION)) {
+		logger.debug(
+			`Client ${client.clientId} does not support cancellation, not cancelling ${requestId}`,
+		);
+		return;
+	}
+
+	if (client.readyState !== WebSocket.OPEN) {
+		return;
+	}
+
+	logger.info(`Cancelling request ${requestId} on client ${client.clientId}`);
+	client.send(
+		JSON.stringify(
+			createMessage<CancelRequestMessage>(MessageType.CANCEL_REQUEST, {
+				requestId,
+			}),
+		),
+	);
+}
@@ -1,43 +1,90 @@
+import { EventEmitter } from "node:events";
+import type { ReportedModel } from "@lmstudio-proxy/common";
 import WebSocket from "ws";
+import { clientReconnects, connectedClients } from "../metrics/metrics";
 import { createLogger } from "../utils/logger";
+import { LoadBalancer, LoadBalancingStrategy } from "./load-balancer";
+import type { ExtendedWebSocket } from "./types";
 
 const logger = createLogger("client-manager");
 
-// Define extended WebSocket type
-interface ExtendedWebSocket extends WebSocket {
-	isAlive: boolean;
-	isAuthenticated: boolean;
-	clientId: string;
+/**
+ * Check whether a client can take another request
+ */
+function hasFreeSlot(ws: ExtendedWebSocket): boolean {
+	return ws.maxConcurrency === 0 || ws.stats.inFlight < ws.maxConcurrency;
 }
 
-export class ClientManager {
+/**
+ * Check whether a client may serve requests made for a tenant
+ * Clients without a tenant form the shared pool, which serves everyone
+ */
+function servesTenant(ws: ExtendedWebSocket, tenant: string | null): boolean {
+	return !ws.tenant || ws.tenant === tenant;
+}
+
+/**
+ * Keeps track of authenticated clients and picks one for each request
+ *
+ * Emits `available` with the client when a client registers or reports new models.
+ */
+export class ClientManager extends EventEmitter {
 	private clients: Map<string, ExtendedWebSocket> = new Map();
+	// Every client ID that ever registered, to count reconnects
+	private seen: Set<string> = new Set();
+
+	constructor(
+		private loadBalancer = new LoadBalancer(LoadBalancingStrategy.FIRST),
+	) {
+		super();
+	}
 
 	/**
-	 * Add a new authenticated client
+	 * Add a new authenticated client, replacing an earlier connection of the
+	 * same key and tenant
+	 * @returns Whether the client was added, false when its ID is held by a
+	 * connection of another key or tenant
 	 */
-	public addClient(clientId: string, ws: ExtendedWebSocket): void {
-		if (this.clients.has(clientId)) {
-			// If client ID already exists, close the old connection
-			const existingWs = this.clients.get(clientId);
-			if (existingWs && existingWs.readyState === WebSocket.OPEN) {
-				logger.info(`Closing existing connection for client: ${clientId}`);
-				existingWs.close(1000, "Replaced by new connection");
+	public addClient(clientId: string, ws: ExtendedWebSocket): boolean {
+		const existingWs = this.clients.get(clientId);
+		if (existingWs && existingWs.readyState === WebSocket.OPEN) {
+			if (existingWs.keyId !== ws.keyId || existingWs.tenant !== ws.tenant) {
+				logger.warn(
+					`Refusing client ${clientId}: the ID is held by another key or tenant`,
+					{ keyId: ws.keyId, tenant: ws.tenant },
+				);
+				return false;
 			}
+
+			logger.info(`Closing existing connection for client: ${clientId}`);
+			existingWs.close(1000, "Replaced by new connection");
 		}
 
 		this.clients.set(clientId, ws);
 		ws.clientId = clientId;
 		ws.isAuthenticated = true;
+		connectedClients.set(this.clients.size);
+		if (this.seen.has(clientId)) {
+			clientReconnects.inc();
+		}
+		this.seen.add(clientId);
 		logger.info(`Registered client: ${clientId}`);
+		this.emit("available", ws);
+		return true;
 	}
 
 	/**
 	 * Remove a client
+	 * @param ws Only remove the client if it is still registered with this connection
 	 */
-	public removeClient(clientId: string): void {
+	public removeClient(clientId: string, ws?: ExtendedWebSocket): void {
+		if (ws && this.clients.get(clientId) !== ws) {
+			return;
+		}
+
 		if (this.clients.has(clientId)) {
 			this.clients.delete(clientId);
+			connectedClients.set(this.clients.size);
 			logger.info(`Unregistered client: ${clientId}`);
 		}
 	}
@@ -57,19 +104,180 @@ export class ClientManager {
 	}
 
 	/**
-	 * Find available clients (for load balancing or specific model support)
+	 * Record the models a client reported
 	 */
-	// eslint-disable-next-line @typescript-eslint/no-unused-vars
-	public findAvailableClient(_modelId?: string): ExtendedWebSocket | undefined {
-		// For now, just return the first available client
-		// In a more advanced implementation, this could filter by clients
-		// that support specific models or have the best performance
+	public updateModels(ws: ExtendedWebSocket, models: ReportedModel[]): void {
+		ws.models = new Map(models.map((model) => [model.id, model]));
+		logger.info(`Client ${ws.clientId} reported ${models.length} models`, {
+			loaded: models.filter((model) => model.loaded).map((model) => model.id),
+		});
+		this.emit("available", ws);
+	}
+
+	/**
+	 * Find an available client that serves a model
+	 * Clients with the model already loaded are preferred, and clients that
+	 * never reported their models are assumed to serve any model. The load
+	 * balancer picks among the clients in the best group.
+	 * @param requireFreeSlot Skip clients already at their concurrency limit
+	 * @param tenant Tenant of the caller, whose requests only its own clients
+	 * and the shared pool may serve
+	 */
+	public findAvailableClient(
+		modelId?: string,
+		requireFreeSlot = false,
+		tenant: string | null = null,
+	): ExtendedWebSocket | undefined {
+		const loaded: ExtendedWebSocket[] = [];
+		const available: ExtendedWebSocket[] = [];
+		const unreported: ExtendedWebSocket[] = [];
+
 		for (const [, ws] of this.clients) {
-			if (ws.readyState === WebSocket.OPEN && ws.isAuthenticated) {
-				return ws;
+			if (
+				ws.readyState !== WebSocket.OPEN ||
+				!ws.isAuthenticated ||
+				ws.draining
+			) {
+				continue;
+			}
+
+			if (!servesTenant(ws, tenant)) {
+				continue;
+			}
+
+			if (requireFreeSlot && !hasFreeSlot(ws)) {
+				continue;
+			}
+
+			if (!modelId) {
+				loaded.push(ws);
+				continue;
+			}
+
+			if (!ws.models) {
+				unreported.push(ws);
+				continue;
+			}
+
+			const model = ws.models.get(modelId);
+			if (model?.loaded) {
+				loaded.push(ws);
+			} else if (model) {
+				available.push(ws);
 			}
 		}
-		return undefined;
+
+		const candidates = [loaded, available, unreported].find(
+			(group) => group.length > 0,
+		);
+		return candidates && this.loadBalancer.select(candidates);
+	}
+
+	/**
+	 * Collect the models the clients serving a tenant reported, each listed
+	 * once and loaded when any client has it loaded
+	 * @returns The models by ID, and the clients that never reported theirs
+	 */
+	public getReportedModels(tenant: string | null = null): {
+		models: ReportedModel[];
+		unreported: ExtendedWebSocket[];
+	} {
+		const models = new Map<string, ReportedModel>();
+		const unreported: ExtendedWebSocket[] = [];
+
+		for (const [, ws] of this.clients) {
+			if (
+				ws.readyState !== WebSocket.OPEN ||
+				!ws.isAuthenticated ||
+				ws.draining ||
+				!servesTenant(ws, tenant)
+			) {
+				continue;
+			}
+
+			if (!ws.models) {
+				unreported.push(ws);
+				continue;
+			}
+
+			for (const model of ws.models.values()) {
+				const loaded = models.get(model.id)?.loaded || model.loaded;
+				models.set(model.id, { ...model, ...(loaded ? { loaded } : {}) });
+			}
+		}
+
+		return {
+			models: [...models.values()].sort((a, b) => a.id.localeCompare(b.id)),
+			unreported,
+		};
+	}
+
+	/**
+	 * Check whether any connected client serves a model, whatever its tenant
+	 * and load; clients that never reported their models serve any model
+	 */
+	public isModelServed(modelId: string): boolean {
+		for (const [, ws] of this.clients) {
+			if (
+				ws.readyState !== WebSocket.OPEN ||
+				!ws.isAuthenticated ||
+				ws.draining
+			) {
+				continue;
+			}
+
+			if (!ws.models || ws.models.has(modelId)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Stop giving a client new requests, letting it finish those it has
+	 * @returns Whether the client is connected
+	 */
+	public drainClient(clientId: string): boolean {
+		const ws = this.clients.get(clientId);
+		if (!ws) {
+			return false;
+		}
+
+		if (!ws.draining) {
+			ws.draining = true;
+			logger.info(`Draining client: ${clientId}`, {
+				inFlight: ws.stats.inFlight,
+			});
+		}
+		return true;
+	}
+
+	/**
+	 * Close every connection of an API key, after it was revoked, rotated or
+	 * lost a scope its clients need
+	 * @returns The IDs of the clients disconnected
+	 */
+	public disconnectKey(keyId: string, reason: string): string[] {
+		const disconnected: string[] = [];
+
+		for (const [clientId, ws] of this.clients) {
+			if (ws.keyId !== keyId) {
+				continue;
+			}
+
+			logger.info(`Disconnecting client ${clientId}: ${reason}`, { keyId });
+			ws.close(1008, reason);
+			disconnected.push(clientId);
+		}
+
+		return disconnected;
+	}
+
+	/**
+	 * Get the strategy used to spread requests across clients
+	 */
+	public getLoadBalancingStrategy(): LoadBalancingStrategy {
+		return this.loadBalancer.strategy;
 	}
 
 	/**
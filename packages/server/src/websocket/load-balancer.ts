@@ -0,0 +1,97 @@
+import type { ExtendedWebSocket } from "./types";
+
+/**
+ * How requests are spread across clients that can serve them
+ */
+export enum LoadBalancingStrategy {
+	// Always the first connected client
+	FIRST = "first",
+	ROUND_ROBIN = "round-robin",
+	// Fewest requests in flight
+	LEAST_OUTSTANDING = "least-outstanding",
+	// Fewest requests in flight relative to the capacity the client declared
+	WEIGHTED = "weighted",
+	// Lowest average time to first token
+	LATENCY = "latency",
+}
+
+// Weight of the newest sample in the time-to-first-token average
+const LATENCY_EWMA_ALPHA = 0.2;
+
+/**
+ * Check whether a string names a load-balancing strategy
+ */
+export function isLoadBalancingStrategy(
+	value: string,
+): value is LoadBalancingStrategy {
+	return (Object.values(LoadBalancingStrategy) as string[]).includes(value);
+}
+
+/**
+ * Fold a time-to-first-token sample into a client's moving average
+ */
+export function recordTimeToFirstToken(
+	client: ExtendedWebSocket,
+	durationMs: number,
+): void {
+	const { stats } = client;
+	stats.latencyEwmaMs =
+		stats.latencyEwmaMs === null
+			? durationMs
+			: LATENCY_EWMA_ALPHA * durationMs +
+				(1 - LATENCY_EWMA_ALPHA) * stats.latencyEwmaMs;
+}
+
+/**
+ * Pick the candidate with the lowest score, keeping the earliest on ties
+ */
+function lowest(
+	candidates: ExtendedWebSocket[],
+	score: (client: ExtendedWebSocket) => number,
+): ExtendedWebSocket {
+	return candidates.reduce((best, client) =>
+		score(client) < score(best) ? client : best,
+	);
+}
+
+/**
+ * Chooses which of several eligible clients handles a request
+ */
+export class LoadBalancer {
+	private roundRobinIndex = 0;
+
+	constructor(public readonly strategy: LoadBalancingStrategy) {}
+
+	/**
+	 * Select a client from the eligible candidates
+	 */
+	public select(
+		candidates: ExtendedWebSocket[],
+	): ExtendedWebSocket | undefined {
+		if (candidates.length === 0) {
+			return undefined;
+		}
+
+		switch (this.strategy) {
+			case LoadBalancingStrategy.ROUND_ROBIN:
+				return candidates[this.roundRobinIndex++ % candidates.length];
+
+			case LoadBalancingStrategy.LEAST_OUTSTANDING:
+				return lowest(candidates, (client) => client.stats.inFlight);
+
+			case LoadBalancingStrategy.WEIGHTED:
+				return lowest(
+					candidates,
+					(client) => (client.stats.inFlight + 1) / client.capacity,
+				);
+
+			case LoadBalancingStrategy.LATENCY:
+				// Clients without samples go first so every client gets measured,
+				// failures and timeouts count as samples of the full timeout
+				return lowest(candidates, (client) => client.stats.latencyEwmaMs ?? -1);
+
+			default:
+				return candidates[0];
+		}
+	}
+}
@@ -1,194 +1,108 @@
-import { MessageType } from "@lmstudio-proxy/common";
-import type WebSocket from "ws";
-// Import pendingRequests from controllers
 import {
-	pendingRequests as chatRequests,
-	processChatResponse,
-} from "../api/controllers/chat";
-import {
-	pendingRequests as completionRequests,
-	processCompletionResponse,
-} from "../api/controllers/completions";
-import {
-	pendingRequests as embeddingsRequests,
-	processEmbeddingsResponse,
-} from "../api/controllers/embeddings";
-import {
-	pendingRequests as modelsRequests,
-	processModelsResponse,
-} from "../api/controllers/models";
+	type ChatResponseMessage,
+	type ClientMessage,
+	type CompletionResponseMessage,
+	createMessage,
+	type EmbeddingsResponseMessage,
+	ErrorCode,
+	type ErrorMessage,
+	type ErrorResponseMessage,
+	MessageType,
+	type ModelsResponseMessage,
+	type StreamChunkMessage,
+	type StreamEndMessage,
+} from "@lmstudio-proxy/common";
+import { config } from "../config";
+import { apiErrorFromPayload } from "../utils/error";
 import { createLogger } from "../utils/logger";
 import type { ClientManager } from "./client-manager";
+import {
+	type PendingRequest,
+	type RequestType,
+	requestRegistry,
+} from "./request-registry";
+import type { ExtendedWebSocket } from "./types";
 
 const logger = createLogger("message-handler");
-
-// Define extended WebSocket type
-interface ExtendedWebSocket extends WebSocket {
-	isAlive: boolean;
-	isAuthenticated: boolean;
-	clientId: string;
-}
+const securityLogger = createLogger("security");
+
+type ResponseMessage =
+	| ChatResponseMessage
+	| CompletionResponseMessage
+	| EmbeddingsResponseMessage
+	| ModelsResponseMessage;
+
+// Request type each response message answers
+const RESPONSE_REQUEST_TYPES: Record<ResponseMessage["type"], RequestType> = {
+	[MessageType.CHAT_RESPONSE]: "chat",
+	[MessageType.COMPLETION_RESPONSE]: "completion",
+	[MessageType.EMBEDDINGS_RESPONSE]: "embeddings",
+	[MessageType.MODELS_RESPONSE]: "models",
+};
 
 /**
  * Handle messages from authenticated clients
+ * Messages have already been validated against the protocol schema
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 export function handleMessage(
 	ws: ExtendedWebSocket,
-	message: any,
-	_clientManager: ClientManager,
+	message: ClientMessage,
+	clientManager: ClientManager,
 ): void {
-	if (!message.type) {
-		sendError(ws, "Invalid message format: missing type");
-		return;
-	}
-
-	// Log detailed information about the message and MessageType
-	const messageTypeStr = message.type;
-	const messageTypeValues = Object.values(MessageType);
-	const messageTypeKeys = Object.keys(MessageType);
-
-	// Get all enum values as strings for comparison
-	const enumValuesAsStrings = messageTypeValues.map((val) => String(val));
-
-	logger.debug(`Received message from client:`, {
+	logger.debug(`Received ${message.type} message from client`, {
+		clientId: ws.clientId,
 		requestId: message.requestId,
-		messageType: messageTypeStr,
-		messageTypeType: typeof messageTypeStr,
-		messageTypeInEnum: messageTypeValues.includes(messageTypeStr),
-		messageTypeInEnumAsString: enumValuesAsStrings.includes(messageTypeStr),
-		messageTypeKeys,
-		messageTypeValues,
-		enumValuesAsStrings,
-		messageJSON:
-			JSON.stringify(message).substring(0, 200) +
-			(JSON.stringify(message).length > 200 ? "..." : ""),
-		timestamp: new Date().toISOString(),
 	});
 
-	// Enhanced string comparison with normalization
-	const messageTypeLower =
-		typeof messageTypeStr === "string"
-			? messageTypeStr.toLowerCase().trim()
-			: "";
-	const enumValuesAsStringsLower = enumValuesAsStrings.map((val) =>
-		val.toLowerCase().trim(),
-	);
-
-	// Create a working variable that we can modify
-	let normalizedMessageType = messageTypeStr;
-
-	// Improved validation for message type
-	if (
-		!messageTypeValues.includes(messageTypeStr) &&
-		!enumValuesAsStrings.includes(messageTypeStr) &&
-		!enumValuesAsStringsLower.includes(messageTypeLower)
-	) {
-		// Special case check for stream messages
-		if (
-			messageTypeLower === "stream_chunk" ||
-			messageTypeLower.includes("stream_chunk")
-		) {
-			logger.debug(
-				`Detected stream_chunk message with non-standard type format`,
-			);
-			normalizedMessageType = "stream_chunk";
-		} else if (
-			messageTypeLower === "stream_end" ||
-			messageTypeLower.includes("stream_end")
-		) {
-			logger.debug(`Detected stream_end message with non-standard type format`);
-			normalizedMessageType = "stream_end";
-		} else {
-			// Only show error and return for truly unknown types
-			logger.error(`Unknown message type: ${messageTypeStr}`, {
-				availableTypes: messageTypeValues,
-				availableTypesAsStrings: enumValuesAsStrings,
-				receivedType: messageTypeStr,
-				typeofReceivedType: typeof messageTypeStr,
-				messageKeys: Object.keys(message),
-				normalized: messageTypeLower,
-				normalizedMatch: enumValuesAsStringsLower.includes(messageTypeLower),
-			});
-			sendError(ws, `Unknown message type: ${messageTypeStr}`);
-			return;
-		}
-	}
-
-	// For the switch statement, convert string type to enum value if needed
-	let messageTypeForSwitch: MessageType;
-
-	if (typeof normalizedMessageType === "string") {
-		// Handle case insensitive comparison with lowercase
-		const normalizedTypeLower = normalizedMessageType.toLowerCase().trim();
-
-		// Try to find matching enum by its string value
-		const matchingEnum = Object.entries(MessageType).find(
-			([, value]) => String(value).toLowerCase().trim() === normalizedTypeLower,
-		);
-
-		if (matchingEnum) {
-			messageTypeForSwitch = matchingEnum[1] as MessageType;
-			logger.debug(
-				`Matched string message type to enum: "${normalizedMessageType}" -> ${messageTypeForSwitch}`,
-			);
-		} else {
-			// Explicit mapping for known problematic message types
-			if (normalizedTypeLower === "stream_chunk") {
-				messageTypeForSwitch = MessageType.STREAM_CHUNK;
-				logger.debug(
-					`Manually mapped 'stream_chunk' to MessageType.STREAM_CHUNK`,
-				);
-			} else if (normalizedTypeLower === "stream_end") {
-				messageTypeForSwitch = MessageType.STREAM_END;
-				logger.debug(`Manually mapped 'stream_end' to MessageType.STREAM_END`);
-			} else {
-				// Fallback - use the string directly and let the switch handle it
-				messageTypeForSwitch = normalizedMessageType as unknown as MessageType;
-				logger.debug(
-					`Using string message type directly: "${normalizedMessageType}"`,
-				);
-			}
-		}
-	} else {
-		messageTypeForSwitch = normalizedMessageType as MessageType;
-	}
-
-	switch (messageTypeForSwitch) {
+	switch (message.type) {
 		case MessageType.PING:
 			handlePing(ws);
 			break;
 
-		case MessageType.CHAT_RESPONSE:
-			processChatResponse(message);
+		case MessageType.PONG:
 			break;
 
+		case MessageType.CHAT_RESPONSE:
 		case MessageType.COMPLETION_RESPONSE:
-			processCompletionResponse(message);
-			break;
-
 		case MessageType.EMBEDDINGS_RESPONSE:
-			processEmbeddingsResponse(message);
-			break;
-
 		case MessageType.MODELS_RESPONSE:
-			processModelsResponse(message);
+			handleResponse(ws, message);
 			break;
 
 		case MessageType.ERROR_RESPONSE:
-			handleErrorResponse(message);
+			handleErrorResponse(ws, message);
 			break;
 
 		case MessageType.STREAM_CHUNK:
-			handleStreamChunk(message);
+			handleStreamChunk(ws, message);
 			break;
 
 		case MessageType.STREAM_END:
-			handleStreamEnd(message);
+			handleStreamEnd(ws, message);
+			break;
+
+		case MessageType.CANCEL_ACK:
+			logger.debug(
+				`Client ${ws.clientId} acknowledged cancellation of ${message.requestId}`,
+				{ cancelled: message.cancelled },
+			);
+			break;
+
+		case MessageType.MODELS_UPDATE:
+			clientManager.updateModels(ws, message.models);
+			break;
+
+		// The client is shutting down and finishes what it has
+		case MessageType.DRAINING:
+			clientManager.drainClient(ws.clientId);
+			break;
+
+		case MessageType.ERROR:
+			handleClientError(ws, message);
 			break;
 
 		default:
-			sendError(ws, `Unknown message type: ${messageTypeStr}`);
+			sendError(ws, `Unexpected message type: ${message.type}`);
 	}
 }
 
@@ -205,225 +119,207 @@ function handlePing(ws: ExtendedWebSocket): void {
 }
 
 /**
- * Handle error response messages
+ * Check that a message answers a request dispatched to the client sending it
+ *
+ * Messages for other clients' requests are dropped, logged as a security
+ * event and counted against the sender, which is disconnected once it sent
+ * too many.
  */
-function handleErrorResponse(message: any): void {
-	// Use response routing to forward to waiting HTTP client
-	logger.error("Received error response", {
-		requestId: message.requestId,
-		error: message.error,
-	});
+function isOwnRequest(
+	ws: ExtendedWebSocket,
+	request: PendingRequest,
+	messageType: MessageType,
+): boolean {
+	if (request.client === ws) {
+		return true;
+	}
+
+	ws.stats.misdirectedResponses++;
+	securityLogger.warn(
+		`Client ${ws.clientId} sent ${messageType} for request ${request.requestId} dispatched to ${request.clientId}, dropping`,
+		{
+			event: "response_mismatch",
+			clientId: ws.clientId,
+			keyId: ws.keyId,
+			requestId: request.requestId,
+			owner: request.clientId,
+			misdirectedResponses: ws.stats.misdirectedResponses,
+		},
+	);
+
+	const limit = config.clientMaxMisdirectedResponses;
+	if (limit > 0 && ws.stats.misdirectedResponses >= limit) {
+		securityLogger.warn(
+			`Disconnecting client ${ws.clientId} after ${ws.stats.misdirectedResponses} misdirected responses`,
+			{ event: "client_disconnected", clientId: ws.clientId, keyId: ws.keyId },
+		);
+		ws.close(1008, "Too many misdirected responses");
+	}
 
-	// The actual implementation will depend on the request tracking system
-	// that routes responses back to the appropriate HTTP request
+	return false;
 }
 
 /**
- * Handle streaming chunk messages
+ * Handle complete (non-streaming) responses
  */
-function handleStreamChunk(message: any): void {
-	const { requestId, data } = message;
+function handleResponse(ws: ExtendedWebSocket, message: ResponseMessage): void {
+	const { requestId } = message;
+	const request = requestRegistry.get(requestId);
 
-	if (!requestId) {
-		logger.error("Received stream chunk without requestId");
+	if (!request) {
+		logger.warn(`Received response for unknown request: ${requestId}`);
 		return;
 	}
 
-	logger.debug(`Received stream chunk for request ${requestId}`, {
-		requestId,
-		dataLength:
-			typeof data === "string" ? data.length : JSON.stringify(data).length,
-		dataPreview:
-			typeof data === "string"
-				? `${data.substring(0, 50)}...`
-				: `${JSON.stringify(data).substring(0, 50)}...`,
-		timestamp: new Date().toISOString(),
-	});
-
-	// Check if request is being tracked in any of the controllers
-	let requestHandler = null;
-	let requestType = null;
-
-	// Check chat requests
-	if (chatRequests.has(requestId)) {
-		requestHandler = processChatResponse;
-		requestType = "chat";
-		logger.debug(`Found tracked chat request for ${requestId}`);
-	}
-	// Check completion requests
-	else if (completionRequests.has(requestId)) {
-		requestHandler = processCompletionResponse;
-		requestType = "completion";
-		logger.debug(`Found tracked completion request for ${requestId}`);
-	}
-	// Check embeddings requests
-	else if (embeddingsRequests.has(requestId)) {
-		requestHandler = processEmbeddingsResponse;
-		requestType = "embeddings";
-		logger.debug(`Found tracked embeddings request for ${requestId}`);
-	}
-	// Check models requests
-	else if (modelsRequests.has(requestId)) {
-		requestHandler = processModelsResponse;
-		requestType = "models";
-		logger.debug(`Found tracked models request for ${requestId}`);
+	if (!isOwnRequest(ws, request, message.type)) {
+		return;
 	}
 
-	// If we found the request in our tracking system, use its handler
-	if (requestHandler) {
-		logger.debug(
-			`Using stored handler for request ${requestId} of type ${requestType}`,
+	if (request.type !== RESPONSE_REQUEST_TYPES[message.type]) {
+		logger.warn(
+			`Received ${message.type} for ${request.type} request ${requestId}, ignoring`,
 		);
-		requestHandler({ requestId, data, stream: true });
 		return;
 	}
 
-	// Fall back to prefix-based routing if no tracked request or no handler found
-	try {
-		if (requestId.startsWith("chat_")) {
-			logger.debug(`Processing chat stream chunk for request ${requestId}`);
-			processChatResponse({ requestId, data, stream: true });
-		} else if (requestId.startsWith("completion_")) {
-			logger.debug(
-				`Processing completion stream chunk for request ${requestId}`,
-			);
-			processCompletionResponse({ requestId, data, stream: true });
-		} else if (
-			/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-				requestId,
-			)
-		) {
-			// For UUID-style requests, inspect the data to determine the most appropriate handler
-			logger.debug(
-				`Processing UUID-style request ID stream chunk: ${requestId}`,
-			);
+	requestRegistry.recordFirstResponse(requestId);
+	const { handler } = request;
+
+	if (message.error) {
+		requestRegistry.fail(requestId);
+		handler.onError(apiErrorFromPayload(message.error));
+		return;
+	}
+
+	requestRegistry.complete(requestId);
 
-			// Default to chat handler, but examine content to determine correct handler
-			let dataObj;
-			try {
-				// If data is a string, try to parse it
-				dataObj = typeof data === "string" ? JSON.parse(data) : data;
-
-				// Look for embeddings-specific fields
-				if (
-					dataObj &&
-					Array.isArray(dataObj.data) &&
-					dataObj.data[0]?.embedding
-				) {
-					// This appears to be embeddings data
-					logger.debug(`UUID request ${requestId} identified as embeddings`);
-					processEmbeddingsResponse({ requestId, data, stream: true });
-				} else {
-					// Default to chat for other formats
-					logger.debug(`UUID request ${requestId} using default chat handler`);
-					processChatResponse({ requestId, data, stream: true });
-				}
-			} catch (parseError: unknown) {
-				// If we can't parse it, default to chat handler
-				logger.debug(
-					`Unable to parse UUID request ${requestId} data, using default handler: ${
-						parseError instanceof Error
-							? parseError.message
-							: String(parseError)
-					}`,
-				);
-				processChatResponse({ requestId, data, stream: true });
-			}
-		} else {
-			logger.warn(`Unknown request type for stream chunk: ${requestId}`);
-		}
-	} catch (error) {
-		logger.error(`Error processing stream chunk for request ${requestId}`, {
-			error: error instanceof Error ? error.message : String(error),
-			requestId,
-			timestamp: new Date().toISOString(),
-		});
+	if (handler.stream) {
+		// The client fell back to a single response for a streaming request
+		logger.debug(`Relaying complete response as stream for ${requestId}`);
+		handler.onChunk(`data: ${JSON.stringify(message.data)}\n\n`);
+		handler.onEnd();
+		return;
 	}
+
+	handler.onResponse(message.data);
 }
 
 /**
- * Handle stream end messages
+ * Handle error response messages
  */
-function handleStreamEnd(message: any): void {
+function handleErrorResponse(
+	ws: ExtendedWebSocket,
+	message: ErrorResponseMessage,
+): void {
 	const { requestId } = message;
+	const request = requestRegistry.get(requestId);
+
+	logger.warn(`Received error response for request ${requestId}`, {
+		error: message.error,
+	});
+
+	if (!request) {
+		logger.warn(`Received error response for unknown request: ${requestId}`);
+		return;
+	}
+
+	if (!isOwnRequest(ws, request, message.type)) {
+		return;
+	}
+
+	requestRegistry.fail(requestId);
+	request.handler.onError(apiErrorFromPayload(message.error));
+}
+
+/**
+ * Handle error messages
+ * Older clients report failed streams this way instead of with ERROR_RESPONSE
+ */
+function handleClientError(ws: ExtendedWebSocket, message: ErrorMessage): void {
+	logger.error(`Client ${ws.clientId} reported an error: ${message.error}`, {
+		requestId: message.requestId,
+		code: message.code,
+		field: message.field,
+	});
 
-	if (!requestId) {
-		logger.error("Received stream end without requestId");
+	const request = message.requestId
+		? requestRegistry.get(message.requestId)
+		: undefined;
+	if (!request || !isOwnRequest(ws, request, message.type)) {
 		return;
 	}
 
-	logger.debug(`Received stream end for request ${requestId}`, {
+	requestRegistry.fail(request.requestId);
+	request.handler.onError(
+		apiErrorFromPayload({ message: message.error, code: message.code }),
+	);
+}
+
+/**
+ * Handle streaming chunk messages
+ */
+function handleStreamChunk(
+	ws: ExtendedWebSocket,
+	message: StreamChunkMessage,
+): void {
+	const { requestId, data } = message;
+	const request = requestRegistry.get(requestId);
+
+	logger.debug(`Received stream chunk for request ${requestId}`, {
 		requestId,
-		timestamp: new Date().toISOString(),
+		dataLength: data.length,
 	});
 
-	// Check if request is being tracked in any of the controllers
-	let requestHandler = null;
-	let requestType = null;
+	if (!request) {
+		logger.warn(`Received stream chunk for unknown request: ${requestId}`);
+		return;
+	}
 
-	// Check chat requests
-	if (chatRequests.has(requestId)) {
-		requestHandler = processChatResponse;
-		requestType = "chat";
-		logger.debug(`Found tracked chat request for ${requestId}`);
+	if (!isOwnRequest(ws, request, message.type)) {
+		return;
 	}
-	// Check completion requests
-	else if (completionRequests.has(requestId)) {
-		requestHandler = processCompletionResponse;
-		requestType = "completion";
-		logger.debug(`Found tracked completion request for ${requestId}`);
+
+	if (!request.handler.stream) {
+		logger.warn(
+			`Received stream chunk for non-streaming request ${requestId}, ignoring`,
+		);
+		return;
 	}
-	// Check embeddings requests
-	else if (embeddingsRequests.has(requestId)) {
-		requestHandler = processEmbeddingsResponse;
-		requestType = "embeddings";
-		logger.debug(`Found tracked embeddings request for ${requestId}`);
+
+	requestRegistry.recordFirstResponse(requestId);
+	request.handler.onChunk(data);
+}
+
+/**
+ * Handle stream end messages
+ */
+function handleStreamEnd(
+	ws: ExtendedWebSocket,
+	message: StreamEndMessage,
+): void {
+	const { requestId } = message;
+	const request = requestRegistry.get(requestId);
+
+	logger.debug(`Received stream end for request ${requestId}`);
+
+	if (!request) {
+		logger.warn(`Received stream end for unknown request: ${requestId}`);
+		return;
 	}
-	// Check models requests
-	else if (modelsRequests.has(requestId)) {
-		requestHandler = processModelsResponse;
-		requestType = "models";
-		logger.debug(`Found tracked models request for ${requestId}`);
+
+	if (!isOwnRequest(ws, request, message.type)) {
+		return;
 	}
 
-	// If we found the request in our tracking system, use its handler
-	if (requestHandler) {
-		logger.debug(
-			`Using stored handler for request ${requestId} of type ${requestType}`,
+	if (!request.handler.stream) {
+		logger.warn(
+			`Received stream end for non-streaming request ${requestId}, ignoring`,
 		);
-		requestHandler({ requestId, streamEnd: true });
 		return;
 	}
 
-	// Fall back to prefix-based routing if no tracked request or no handler found
-	try {
-		// Notify the appropriate processor that the stream has ended
-		if (requestId.startsWith("chat_")) {
-			logger.debug(`Processing chat stream end for request ${requestId}`);
-			processChatResponse({ requestId, streamEnd: true });
-		} else if (requestId.startsWith("completion_")) {
-			logger.debug(`Processing completion stream end for request ${requestId}`);
-			processCompletionResponse({ requestId, streamEnd: true });
-		} else if (
-			/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-				requestId,
-			)
-		) {
-			// For UUID-style requests, default to chat handler
-			logger.debug(`Processing UUID-style request ID stream end: ${requestId}`);
-			// Since we can't examine the data content on stream end, we use the chat handler as default
-			// This matches what most UUID requests are likely to be
-			processChatResponse({ requestId, streamEnd: true });
-		} else {
-			logger.warn(`Unknown request type for stream end: ${requestId}`);
-		}
-	} catch (error) {
-		logger.error(`Error processing stream end for request ${requestId}`, {
-			error: error instanceof Error ? error.message : String(error),
-			requestId,
-			timestamp: new Date().toISOString(),
-		});
-	}
+	requestRegistry.complete(requestId);
+	request.handler.onEnd();
 }
 
 /**
@@ -432,9 +328,11 @@ function handleStreamEnd(message: any): void {
 function sendError(ws: ExtendedWebSocket, errorMessage: string): void {
 	logger.error(errorMessage);
 	ws.send(
-		JSON.stringify({
-			type: MessageType.ERROR,
-			error: errorMessage,
-		}),
+		JSON.stringify(
+			createMessage<ErrorMessage>(MessageType.ERROR, {
+				error: errorMessage,
+				code: ErrorCode.INVALID_MESSAGE,
+			}),
+		),
 	);
 }
@@ -0,0 +1,192 @@
+import { ErrorCode, HTTP_STATUS } from "@lmstudio-proxy/common";
+import { queueDepth } from "../metrics/metrics";
+import { ApiError } from "../utils/error";
+import { createLogger } from "../utils/logger";
+import type { ClientManager } from "./client-manager";
+import type { RequestRegistry } from "./request-registry";
+import type { ExtendedWebSocket } from "./types";
+
+const logger = createLogger("request-queue");
+
+// Suggested wait before callers retry a rejected request
+const RETRY_AFTER_SECONDS = 5;
+
+/**
+ * A request waiting for a client with a free slot
+ */
+export interface QueueEntry {
+	modelId?: string;
+	// Tenant of the caller, absent or null for callers outside any tenant
+	tenant?: string | null;
+	// Called with the client the request must be dispatched to right away
+	onAssigned: (client: ExtendedWebSocket) => void;
+	onRejected: (error: ApiError) => void;
+}
+
+/**
+ * Options for the request queue
+ */
+export interface RequestQueueOptions {
+	maxLength: number;
+	timeoutMs: number;
+}
+
+/**
+ * Holds requests until a client that serves their model has a free slot
+ *
+ * Requests are assigned in arrival order whenever a slot frees up. Callers
+ * must dispatch synchronously in `onAssigned` so the slot is taken before the
+ * next request is considered.
+ */
+export class RequestQueue {
+	private waiting: QueueEntry[] = [];
+	private timeouts: Map<QueueEntry, NodeJS.Timeout> = new Map();
+	private draining = false;
+	private drainAgain = false;
+
+	constructor(
+		private clientManager: ClientManager,
+		requestRegistry: RequestRegistry,
+		private options: RequestQueueOptions,
+	) {
+		requestRegistry.on("released", () => this.drain());
+
+		// Wait for the client to receive its AUTH_RESULT before sending it work
+		clientManager.on("available", () => setImmediate(() => this.drain()));
+	}
+
+	/**
+	 * Assign a request to a client now, or queue it until one is free
+	 * @returns Whether the request is waiting in the queue
+	 */
+	public enqueue(entry: QueueEntry): boolean {
+		if (this.waiting.length === 0) {
+			const client = this.clientManager.findAvailableClient(
+				entry.modelId,
+				true,
+				entry.tenant ?? null,
+			);
+			if (client) {
+				entry.onAssigned(client);
+				return false;
+			}
+		}
+
+		if (this.waiting.length >= this.options.maxLength) {
+			logger.warn("Request queue is full, rejecting request", {
+				modelId: entry.modelId,
+				length: this.waiting.length,
+			});
+			entry.onRejected(
+				new ApiError(
+					HTTP_STATUS.TOO_MANY_REQUESTS,
+					"All LM Studio clients are busy and the request queue is full",
+					"rate_limit_error",
+					ErrorCode.QUEUE_FULL,
+					RETRY_AFTER_SECONDS,
+				),
+			);
+			return false;
+		}
+
+		this.waiting.push(entry);
+		queueDepth.set(this.waiting.length);
+		this.timeouts.set(
+			entry,
+			setTimeout(() => {
+				this.remove(entry);
+				logger.warn(
+					`Request waited ${this.options.timeoutMs}ms in the queue, rejecting`,
+					{ modelId: entry.modelId },
+				);
+				entry.onRejected(
+					new ApiError(
+						HTTP_STATUS.SERVICE_UNAVAILABLE,
+						"Timed out waiting for an available LM Studio client",
+						"server_error",
+						ErrorCode.QUEUE_TIMEOUT,
+						RETRY_AFTER_SECONDS,
+					),
+				);
+			}, this.options.timeoutMs),
+		);
+
+		logger.debug(`Queued request at position ${this.waiting.length}`, {
+			modelId: entry.modelId,
+		});
+
+		// A slot may have freed up for this model even though others wait
+		this.drain();
+		return this.waiting.includes(entry);
+	}
+
+	/**
+	 * Get a request's 1-based position in the queue, 0 when not waiting
+	 */
+	public position(entry: QueueEntry): number {
+		return this.waiting.indexOf(entry) + 1;
+	}
+
+	/**
+	 * Remove a request whose caller went away
+	 */
+	public cancel(entry: QueueEntry): void {
+		this.remove(entry);
+	}
+
+	/**
+	 * Get count of waiting requests
+	 */
+	public getLength(): number {
+		return this.waiting.length;
+	}
+
+	/**
+	 * Assign waiting requests to clients with free slots, in arrival order
+	 */
+	public drain(): void {
+		// Dispatching can release slots again, which re-enters here
+		if (this.draining) {
+			this.drainAgain = true;
+			return;
+		}
+
+		this.draining = true;
+		try {
+			do {
+				this.drainAgain = false;
+				for (const entry of [...this.waiting]) {
+					if (!this.waiting.includes(entry)) {
+						continue;
+					}
+
+					const client = this.clientManager.findAvailableClient(
+						entry.modelId,
+						true,
+						entry.tenant ?? null,
+					);
+					if (client) {
+						this.remove(entry);
+						entry.onAssigned(client);
+					}
+				}
+			} while (this.drainAgain);
+		} finally {
+			this.draining = false;
+		}
+	}
+
+	/**
+	 * Drop a request from the queue and stop its timeout
+	 */
+	private remove(entry: QueueEntry): void {
+		const index = this.waiting.indexOf(entry);
+		if (index !== -1) {
+			this.waiting.splice(index, 1);
+			queueDepth.set(this.waiting.length);
+		}
+
+		clearTimeout(this.timeouts.get(entry));
+		this.timeouts.delete(entry);
+	}
+}
@@ -0,0 +1,257 @@
+import { EventEmitter } from "node:events";
+import { pendingRequests } from "../metrics/metrics";
+import { createLogger } from "../utils/logger";
+import { recordTimeToFirstToken } from "./load-balancer";
+import type { ExtendedWebSocket } from "./types";
+
+const logger = createLogger("request-registry");
+
+/**
+ * Kinds of requests that can be forwarded to an LM Studio client
+ */
+export type RequestType = "chat" | "completion" | "embeddings" | "models";
+
+/**
+ * Receives the response for a non-streaming request
+ */
+export interface ResponseHandler {
+	stream: false;
+	onResponse(data: unknown): void;
+	onError(error: Error): void;
+}
+
+/**
+ * Receives the chunks of a streaming request
+ */
+export interface StreamHandler {
+	stream: true;
+	onChunk(data: string): void;
+	onEnd(): void;
+	onError(error: Error): void;
+}
+
+/**
+ * A request that was dispatched to a client and awaits its response
+ */
+export interface PendingRequest {
+	requestId: string;
+	type: RequestType;
+	clientId: string;
+	client: ExtendedWebSocket;
+	createdAt: number;
+	deadline: number;
+	// When the first chunk or the response arrived
+	firstResponseAt: number | null;
+	handler: ResponseHandler | StreamHandler;
+	timeout: NodeJS.Timeout;
+	onDisconnect: (request: PendingRequest) => void;
+}
+
+/**
+ * Options for registering a request
+ */
+export interface RegisterOptions {
+	requestId: string;
+	type: RequestType;
+	client: ExtendedWebSocket;
+	timeoutMs: number;
+	handler: ResponseHandler | StreamHandler;
+	// Called once the deadline passes, after the request has been removed
+	onTimeout: (request: PendingRequest) => void;
+	// Called when the client's connection closes, after the request has been removed
+	onDisconnect: (request: PendingRequest) => void;
+}
+
+/**
+ * Tracks every in-flight request by requestId, so responses from clients
+ * can be routed to exactly the caller waiting for them
+ *
+ * Emits `released` with the client whenever one of its requests finishes.
+ */
+export class RequestRegistry extends EventEmitter {
+	private requests: Map<string, PendingRequest> = new Map();
+
+	/**
+	 * Register a request that is about to be dispatched
+	 */
+	public register(options: RegisterOptions): PendingRequest {
+		const {
+			requestId,
+			type,
+			client,
+			timeoutMs,
+			handler,
+			onTimeout,
+			onDisconnect,
+		} = options;
+
+		if (this.requests.has(requestId)) {
+			throw new Error(`Request ${requestId} is already registered`);
+		}
+
+		const now = Date.now();
+		const request: PendingRequest = {
+			requestId,
+			type,
+			clientId: client.clientId,
+			client,
+			createdAt: now,
+			deadline: now + timeoutMs,
+			firstResponseAt: null,
+			handler,
+			timeout: setTimeout(() => {
+				if (this.requests.get(requestId) === request) {
+					this.penalize(request);
+					this.remove(request);
+					logger.warn(`Request ${requestId} timed out after ${timeoutMs}ms`);
+					onTimeout(request);
+				}
+			}, timeoutMs),
+			onDisconnect,
+		};
+
+		this.requests.set(requestId, request);
+		pendingRequests.set(this.requests.size);
+		client.stats.inFlight++;
+		client.stats.dispatched++;
+		logger.debug(`Registered ${type} request ${requestId}`, {
+			clientId: request.clientId,
+			stream: handler.stream,
+		});
+
+		return request;
+	}
+
+	/**
+	 * Get a pending request
+	 */
+	public get(requestId: string): PendingRequest | undefined {
+		return this.requests.get(requestId);
+	}
+
+	/**
+	 * Check if a request is pending
+	 */
+	public has(requestId: string): boolean {
+		return this.requests.has(requestId);
+	}
+
+	/**
+	 * Remove a request and stop its timeout
+	 * @returns The removed request, if it was still pending
+	 */
+	public complete(requestId: string): PendingRequest | undefined {
+		const request = this.requests.get(requestId);
+		if (!request) {
+			return undefined;
+		}
+
+		clearTimeout(request.timeout);
+		this.remove(request);
+		return request;
+	}
+
+	/**
+	 * Remove a request the client failed, counting it against the client
+	 * @returns The removed request, if it was still pending
+	 */
+	public fail(requestId: string): PendingRequest | undefined {
+		const request = this.complete(requestId);
+		if (request) {
+			this.penalize(request);
+		}
+		return request;
+	}
+
+	/**
+	 * Note that a client started answering a request
+	 * The first call measures the client's time to first token
+	 */
+	public recordFirstResponse(requestId: string): void {
+		const request = this.requests.get(requestId);
+		if (!request || request.firstResponseAt !== null) {
+			return;
+		}
+
+		request.firstResponseAt = Date.now();
+		recordTimeToFirstToken(
+			request.client,
+			request.firstResponseAt - request.createdAt,
+		);
+	}
+
+	/**
+	 * Count a failed or timed-out request against its client
+	 * It also enters the latency average as if the client had taken its
+	 * whole timeout, so failing clients are not favoured as fast ones
+	 */
+	private penalize(request: PendingRequest): void {
+		request.client.stats.failed++;
+		recordTimeToFirstToken(
+			request.client,
+			request.deadline - request.createdAt,
+		);
+	}
+
+	/**
+	 * Drop a request and release its slot on the client
+	 */
+	private remove(request: PendingRequest): void {
+		this.requests.delete(request.requestId);
+		pendingRequests.set(this.requests.size);
+		request.client.stats.inFlight--;
+		this.emit("released", request.client);
+	}
+
+	/**
+	 * Get all requests dispatched to a client
+	 */
+	public getByClient(clientId: string): PendingRequest[] {
+		return [...this.requests.values()].filter(
+			(request) => request.clientId === clientId,
+		);
+	}
+
+	/**
+	 * Remove every request dispatched over a connection that closed
+	 * @returns The number of requests that were still pending
+	 */
+	public handleDisconnect(client: ExtendedWebSocket): number {
+		const orphaned = [...this.requests.values()].filter(
+			(request) => request.client === client,
+		);
+
+		for (const request of orphaned) {
+			this.complete(request.requestId);
+		}
+
+		if (orphaned.length > 0) {
+			logger.warn(
+				`Client ${client.clientId} disconnected with ${orphaned.length} pending requests`,
+			);
+		}
+
+		// Handlers run once the connection is fully cleaned up, as they may re-register
+		for (const request of orphaned) {
+			request.onDisconnect(request);
+		}
+
+		return orphaned.length;
+	}
+
+	/**
+	 * Get all pending requests
+	 */
+	public getAll(): PendingRequest[] {
+		return [...this.requests.values()];
+	}
+
+	/**
+	 * Get count of pending requests
+	 */
+	public getCount(): number {
+		return this.requests.size;
+	}
+}
+
+export const requestRegistry = new RequestRegistry();
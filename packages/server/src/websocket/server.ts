@@ -1,70 +1,177 @@
+import { randomBytes } from "node:crypto";
 import type http from "node:http";
+import {
+	type AuthChallengeMessage,
+	createMessage,
+	ErrorCode,
+	type ErrorMessage,
+	LEGACY_PROTOCOL_VERSION,
+	MessageType,
+	parseClientMessage,
+} from "@lmstudio-proxy/common";
 import WebSocket from "ws";
 import { config } from "../config";
+import { relayedBytes } from "../metrics/metrics";
 import { createLogger } from "../utils/logger";
 import { handleClientAuthentication } from "./authentication";
 import { ClientManager } from "./client-manager";
+import { LoadBalancer } from "./load-balancer";
 import { handleMessage } from "./message-handler";
+import { RequestQueue } from "./request-queue";
+import { requestRegistry } from "./request-registry";
+import type { ExtendedWebSocket } from "./types";
+import {
+	createUpgradeVerifier,
+	PendingConnections,
+	remoteAddress,
+	selectSubprotocol,
+	upgradeContext,
+} from "./upgrade-auth";
 
 const logger = createLogger("websocket");
-export const clientManager = new ClientManager();
-
-// Extend WebSocket with custom properties
-interface ExtendedWebSocket extends WebSocket {
-	isAlive: boolean;
-	isAuthenticated: boolean;
-	clientId: string;
-}
+export const clientManager = new ClientManager(
+	new LoadBalancer(config.loadBalancingStrategy),
+);
+export const requestQueue = new RequestQueue(clientManager, requestRegistry, {
+	maxLength: config.queueMaxLength,
+	timeoutMs: config.queueTimeoutMs,
+});
 
 export function setupWebSocketServer(server: http.Server): WebSocket.Server {
+	const pending = new PendingConnections(config.maxPendingConnectionsPerIp);
 	const wss = new WebSocket.Server({
 		server,
 		path: config.wsPath,
+		verifyClient: createUpgradeVerifier(pending),
+		handleProtocols: selectSubprotocol,
 	});
 
 	logger.info(`WebSocket server initialized on path: ${config.wsPath}`);
 
 	wss.on("connection", (ws: WebSocket, req) => {
 		const extWs = ws as ExtendedWebSocket;
-		const ip = req.socket.remoteAddress || "unknown";
+		const ip = remoteAddress(req);
 		logger.info(`New WebSocket connection from ${ip}`);
 
 		// Set initial properties
 		extWs.isAlive = true;
+		extWs.remoteAddress = ip;
+		extWs.connectedAt = Date.now();
+		extWs.pingSentAt = null;
+		extWs.pingRttMs = null;
 		extWs.isAuthenticated = false;
+		extWs.authNonce = randomBytes(32).toString("base64url");
+		extWs.upgradeAuth = upgradeContext(req) ?? null;
 		extWs.clientId = "";
+		extWs.keyId = null;
+		extWs.tenant = null;
+		extWs.protocolVersion = LEGACY_PROTOCOL_VERSION;
+		extWs.capabilities = new Set();
+		extWs.models = null;
+		extWs.capacity = 1;
+		extWs.maxConcurrency = 0;
+		extWs.draining = false;
+		extWs.stats = {
+			inFlight: 0,
+			dispatched: 0,
+			latencyEwmaMs: null,
+			misdirectedResponses: 0,
+			failed: 0,
+		};
+
+		// Challenge the client to prove it holds its key
+		extWs.send(
+			JSON.stringify(
+				createMessage<AuthChallengeMessage>(MessageType.AUTH_CHALLENGE, {
+					nonce: extWs.authNonce,
+				}),
+			),
+		);
+
+		// Connections that brought no credentials count against their IP's
+		// pending limit until they authenticate
+		let isPending = !extWs.upgradeAuth;
+		if (isPending) {
+			pending.add(ip);
+		}
+		const releasePending = () => {
+			if (isPending) {
+				isPending = false;
+				pending.remove(ip);
+			}
+		};
+
+		// Close connections that never authenticate
+		const authTimeout = setTimeout(() => {
+			if (!extWs.isAuthenticated) {
+				logger.warn(`Closing connection from ${ip}: authentication timed out`);
+				extWs.close(1008, "Authentication timeout");
+			}
+		}, config.clientAuthTimeoutMs);
 
 		// Handle pong messages to track connection liveness
 		extWs.on("pong", () => {
 			extWs.isAlive = true;
+			if (extWs.pingSentAt !== null) {
+				extWs.pingRttMs = Date.now() - extWs.pingSentAt;
+				extWs.pingSentAt = null;
+			}
 		});
 
 		// Handle authentication and messages
 		extWs.on("message", (data: WebSocket.RawData) => {
 			try {
 				const rawMessage = data.toString();
+				if (extWs.isAuthenticated) {
+					relayedBytes.inc(
+						{ client_id: extWs.clientId, direction: "in" },
+						Buffer.byteLength(rawMessage),
+					);
+				}
 				logger.debug("Raw WebSocket message received:", {
 					rawMessageLength: rawMessage.length,
-					rawMessagePreview:
-						rawMessage.length > 500
-							? `${rawMessage.substring(0, 500)}...`
-							: rawMessage,
 					timestamp: new Date().toISOString(),
 				});
 
-				const message = JSON.parse(rawMessage);
+				const result = parseClientMessage(rawMessage);
+
+				if (!result.success) {
+					logger.warn(`Rejected WebSocket message: ${result.error}`, {
+						field: result.field,
+						requestId: result.requestId,
+						clientId: extWs.clientId || undefined,
+					});
+					extWs.send(
+						JSON.stringify(
+							createMessage<ErrorMessage>(MessageType.ERROR, {
+								error: result.error,
+								code: result.code,
+								field: result.field,
+								requestId: result.requestId,
+							}),
+						),
+					);
+
+					// Unauthenticated peers get no second chance
+					if (!extWs.isAuthenticated) {
+						extWs.close(1008, "Invalid message");
+					}
+					return;
+				}
 
-				logger.debug("Parsed WebSocket message:", {
-					messageKeys: Object.keys(message),
-					messageType: message.type,
-					messageTypeType: typeof message.type,
-					requestId: message.requestId,
-					timestamp: new Date().toISOString(),
+				const message = result.message;
+				// Parsed, so prompts and credentials in it are redacted
+				logger.payload("WebSocket message received", {
+					clientId: extWs.clientId || undefined,
+					frame: message,
 				});
 
 				if (!extWs.isAuthenticated) {
 					// Handle authentication if not yet authenticated
 					handleClientAuthentication(extWs, message, clientManager);
+					if (extWs.isAuthenticated) {
+						releasePending();
+					}
 				} else {
 					// Handle regular messages if already authenticated
 					handleMessage(extWs, message, clientManager);
@@ -76,11 +183,12 @@ export function setupWebSocketServer(server: http.Server): WebSocket.Server {
 					timestamp: new Date().toISOString(),
 				});
 				extWs.send(
-					JSON.stringify({
-						type: "error",
-						error: "Invalid message format",
-						details: error instanceof Error ? error.message : String(error),
-					}),
+					JSON.stringify(
+						createMessage<ErrorMessage>(MessageType.ERROR, {
+							error: "Failed to process message",
+							code: ErrorCode.INTERNAL_ERROR,
+						}),
+					),
 				);
 			}
 		});
@@ -88,9 +196,15 @@ export function setupWebSocketServer(server: http.Server): WebSocket.Server {
 		// Handle connection close
 		extWs.on("close", (code, reason) => {
 			logger.info(`WebSocket connection closed: ${code} ${reason}`);
+			clearTimeout(authTimeout);
+			releasePending();
 			if (extWs.clientId) {
-				clientManager.removeClient(extWs.clientId);
+				// A replaced connection must not unregister its successor
+				clientManager.removeClient(extWs.clientId, extWs);
 			}
+
+			// Requests routed to this connection will never be answered
+			requestRegistry.handleDisconnect(extWs);
 		});
 
 		// Handle errors
@@ -109,6 +223,7 @@ export function setupWebSocketServer(server: http.Server): WebSocket.Server {
 			}
 
 			extWs.isAlive = false;
+			extWs.pingSentAt = Date.now();
 			extWs.ping();
 		});
 	}, config.wsPingIntervalMs);
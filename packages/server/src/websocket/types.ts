@@ -0,0 +1,56 @@
+import type { Capability, ReportedModel } from "@lmstudio-proxy/common";
+import type WebSocket from "ws";
+import type { AuthContext } from "../middleware/auth";
+
+/**
+ * Traffic counters for a client connection
+ */
+export interface ClientStats {
+	// Requests dispatched and not yet answered
+	inFlight: number;
+	// Requests dispatched over the connection's lifetime
+	dispatched: number;
+	// Moving average of the time to first token, null until measured
+	latencyEwmaMs: number | null;
+	// Responses sent for requests dispatched to another client
+	misdirectedResponses: number;
+	// Requests that failed or timed out
+	failed: number;
+}
+
+/**
+ * WebSocket connection to an LM Studio client, extended with session state
+ */
+export interface ExtendedWebSocket extends WebSocket {
+	isAlive: boolean;
+	remoteAddress: string;
+	connectedAt: number;
+	// When the last WebSocket ping was sent, and how long its pong took
+	pingSentAt: number | null;
+	pingRttMs: number | null;
+	isAuthenticated: boolean;
+	// Challenge sent on connect, cleared once the client answered it
+	authNonce: string | null;
+	// Credentials accepted during the HTTP upgrade, if it carried any
+	upgradeAuth: AuthContext | null;
+	clientId: string;
+	// API key the client authenticated with
+	keyId: string | null;
+	// Tenant whose requests alone the client serves, null for the shared pool
+	tenant: string | null;
+
+	// Negotiated during authentication
+	protocolVersion: number;
+	capabilities: Set<Capability>;
+
+	// Models the client serves by ID, null until it reports them
+	models: Map<string, ReportedModel> | null;
+
+	// Relative share of traffic the client declared it can take
+	capacity: number;
+	// Most requests dispatched at once, 0 for no limit
+	maxConcurrency: number;
+	// Draining clients finish their requests but are given no new ones
+	draining: boolean;
+	stats: ClientStats;
+}
@@ -0,0 +1,153 @@
+import type http from "node:http";
+import {
+	HTTP_STATUS,
+	UPGRADE_AUTH_PROTOCOL_PREFIX,
+	WS_SUBPROTOCOL,
+} from "@lmstudio-proxy/common";
+import type WebSocket from "ws";
+import { Scope } from "../auth/key-store";
+import { config } from "../config";
+import { type AuthContext, resolveCredential } from "../middleware/auth";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("ws-upgrade");
+
+// Credentials accepted during the upgrade, by the request that carried them
+const upgradeContexts = new WeakMap<http.IncomingMessage, AuthContext>();
+
+/**
+ * Counts connections that have not authenticated yet, per IP
+ */
+export class PendingConnections {
+	private counts: Map<string, number> = new Map();
+
+	/**
+	 * @param maxPerIp Most pending connections one IP may hold, 0 for no limit
+	 */
+	constructor(private maxPerIp: number) {}
+
+	/**
+	 * Check whether an IP already holds as many pending connections as allowed
+	 */
+	public isFull(ip: string): boolean {
+		return this.maxPerIp > 0 && this.count(ip) >= this.maxPerIp;
+	}
+
+	public add(ip: string): void {
+		this.counts.set(ip, this.count(ip) + 1);
+	}
+
+	public remove(ip: string): void {
+		const count = this.count(ip) - 1;
+		if (count > 0) {
+			this.counts.set(ip, count);
+		} else {
+			this.counts.delete(ip);
+		}
+	}
+
+	public count(ip: string): number {
+		return this.counts.get(ip) ?? 0;
+	}
+}
+
+/**
+ * Get the address an upgrade request came from
+ */
+export function remoteAddress(req: http.IncomingMessage): string {
+	return req.socket.remoteAddress || "unknown";
+}
+
+/**
+ * Find the API key or token an upgrade request carries, either in its
+ * Authorization header or in an auth subprotocol
+ */
+function upgradeCredential(req: http.IncomingMessage): string | undefined {
+	const header = req.headers.authorization;
+	if (header) {
+		return header.replace(/^Bearer /, "");
+	}
+
+	return (req.headers["sec-websocket-protocol"] ?? "")
+		.split(",")
+		.map((protocol) => protocol.trim())
+		.find((protocol) => protocol.startsWith(UPGRADE_AUTH_PROTOCOL_PREFIX))
+		?.slice(UPGRADE_AUTH_PROTOCOL_PREFIX.length);
+}
+
+/**
+ * Create the check run on every upgrade request before its socket exists
+ *
+ * Requests with credentials are refused with 401 when the credentials are
+ * invalid and 403 when they may not register clients. Requests without are
+ * let through to answer the auth challenge, unless upgrade authentication
+ * is required or their IP holds too many pending connections already.
+ */
+export function createUpgradeVerifier(
+	pending: PendingConnections,
+): WebSocket.VerifyClientCallbackAsync {
+	return ({ req }, callback) => {
+		const ip = remoteAddress(req);
+		const credential = upgradeCredential(req);
+
+		if (credential === undefined) {
+			if (config.requireUpgradeAuth) {
+				logger.warn(`Refused upgrade from ${ip}: no credentials`);
+				callback(false, HTTP_STATUS.UNAUTHORIZED, "Unauthorized", {
+					"WWW-Authenticate": "Bearer",
+				});
+				return;
+			}
+
+			if (pending.isFull(ip)) {
+				logger.warn(
+					`Refused upgrade from ${ip}: ${pending.count(ip)} connections still authenticating`,
+				);
+				callback(false, HTTP_STATUS.TOO_MANY_REQUESTS, "Too Many Requests", {
+					"Retry-After": String(Math.ceil(config.clientAuthTimeoutMs / 1000)),
+				});
+				return;
+			}
+
+			callback(true);
+			return;
+		}
+
+		const context = resolveCredential(credential);
+		if (!context) {
+			logger.warn(`Refused upgrade from ${ip}: invalid API key or token`);
+			callback(false, HTTP_STATUS.UNAUTHORIZED, "Unauthorized", {
+				"WWW-Authenticate": 'Bearer error="invalid_token"',
+			});
+			return;
+		}
+
+		if (!context.scopes.includes(Scope.CLIENT_REGISTER)) {
+			logger.warn(
+				`Refused upgrade from ${ip}: API key ${context.keyId} lacks scope ${Scope.CLIENT_REGISTER}`,
+			);
+			callback(false, HTTP_STATUS.FORBIDDEN, "Forbidden");
+			return;
+		}
+
+		upgradeContexts.set(req, context);
+		callback(true);
+	};
+}
+
+/**
+ * Get the credentials accepted during an upgrade, if it carried any
+ */
+export function upgradeContext(
+	req: http.IncomingMessage,
+): AuthContext | undefined {
+	return upgradeContexts.get(req);
+}
+
+/**
+ * Pick the subprotocol to answer an upgrade with, never echoing back an
+ * auth subprotocol and the credential inside it
+ */
+export function selectSubprotocol(protocols: Set<string>): string | false {
+	return protocols.has(WS_SUBPROTOCOL) ? WS_SUBPROTOCOL : false;
+}
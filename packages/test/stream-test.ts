@@ -1,3 +1,8 @@
+import {
+	hashKeySecret,
+	parseApiKey,
+	signAuthChallenge,
+} from "@lmstudio-proxy/common";
 import WebSocket from "ws";
 
 // Configuration
@@ -36,17 +41,18 @@ function connect(): void {
 function handleOpen(): void {
 	console.log("Connection established");
 
-	// Send authentication message
-	sendAuthentication();
+	// Authentication waits for the server's challenge
 }
 
-// Send authentication message
-function sendAuthentication(): void {
+// Answer the server's challenge by signing its nonce with the API key
+function sendAuthentication(nonce: string): void {
 	console.log("Sending authentication...");
 
+	const { keyId, secret } = parseApiKey(CONFIG.apiKey);
 	send({
 		type: "auth",
-		apiKey: CONFIG.apiKey,
+		keyId,
+		signature: signAuthChallenge(hashKeySecret(secret), nonce, CONFIG.clientId),
 		clientId: CONFIG.clientId,
 		timestamp: Date.now(),
 	});
@@ -59,6 +65,9 @@ function handleMessage(data: WebSocket.Data): void {
 		console.log(`Received message of type: ${message.type}`);
 
 		switch (message.type) {
+			case "auth_challenge":
+				sendAuthentication(message.nonce);
+				break;
 			case "auth_result":
 				handleAuthResult(message);
 				break;
@@ -1,14 +1,18 @@
 import {
+	type AuthChallengeMessage,
 	type AuthMessage,
 	type AuthResultMessage,
 	type BaseMessage,
 	type ChatResponseMessage,
 	createMessage,
 	generateRequestId,
+	hashKeySecret,
 	MessageType,
 	type ModelsResponseMessage,
+	parseApiKey,
 	type StreamChunkMessage,
 	type StreamEndMessage,
+	signAuthChallenge,
 } from "@lmstudio-proxy/common";
 import WebSocket from "ws";
 
@@ -61,8 +65,7 @@ function connect(): void {
 function handleOpen(): void {
 	console.log("Connection established");
 
-	// Send authentication message
-	sendAuthentication();
+	// Authentication waits for the server's challenge
 
 	// Set up ping interval
 	pingInterval = setInterval(() => {
@@ -73,13 +76,19 @@ function handleOpen(): void {
 	}, 30000);
 }
 
-// Send authentication message
-function sendAuthentication(): void {
+// Answer the server's challenge by signing its nonce with the API key
+function sendAuthentication(challenge: AuthChallengeMessage): void {
 	console.log("Sending authentication...");
 
+	const { keyId, secret } = parseApiKey(CONFIG.apiKey);
 	send(
 		createMessage<AuthMessage>(MessageType.AUTH, {
-			apiKey: CONFIG.apiKey,
+			keyId,
+			signature: signAuthChallenge(
+				hashKeySecret(secret),
+				challenge.nonce,
+				CONFIG.clientId,
+			),
 			clientId: CONFIG.clientId,
 		}),
 	);
@@ -98,6 +107,9 @@ function handleMessage(data: WebSocket.Data): void {
 		log(`Received message of type: ${message.type}`);
 
 		switch (message.type) {
+			case MessageType.AUTH_CHALLENGE:
+				sendAuthentication(message as AuthChallengeMessage);
+				break;
 			case MessageType.AUTH_RESULT:
 				handleAuthResult(message as AuthResultMessage);
 				break;
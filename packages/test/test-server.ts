@@ -1,13 +1,18 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
 import * as http from "node:http";
 import {
+	type AuthChallengeMessage,
 	type AuthMessage,
 	type ChatResponseMessage,
 	type CompletionResponseMessage,
 	createMessage,
 	type ErrorResponseMessage,
+	hashKeySecret,
 	MessageType,
 	type ModelsResponseMessage,
+	parseApiKey,
 	type RequestMessage,
+	signAuthChallenge,
 } from "@lmstudio-proxy/common";
 import * as WebSocket from "ws";
 
@@ -26,6 +31,7 @@ interface ExtendedWebSocket extends WebSocket {
 	isAlive: boolean;
 	isAuthenticated: boolean;
 	clientId: string;
+	authNonce: string | null;
 }
 
 // Create HTTP server
@@ -44,9 +50,18 @@ wss.on("connection", (ws: WebSocket) => {
 	extendedWs.isAlive = true;
 	extendedWs.isAuthenticated = false;
 	extendedWs.clientId = "";
+	extendedWs.authNonce = randomBytes(32).toString("base64url");
 
 	console.log("New client connected");
 
+	// Challenge the client to sign a nonce with its API key
+	send(
+		extendedWs,
+		createMessage<AuthChallengeMessage>(MessageType.AUTH_CHALLENGE, {
+			nonce: extendedWs.authNonce,
+		}),
+	);
+
 	// Handle messages
 	extendedWs.on("message", (data: WebSocket.Data) => {
 		handleMessage(extendedWs, data);
@@ -111,8 +126,10 @@ function handleMessage(ws: ExtendedWebSocket, data: WebSocket.Data): void {
 function handleAuth(ws: ExtendedWebSocket, message: AuthMessage): void {
 	log(`Auth request from client: ${message.clientId}`);
 
-	// Check API key
-	if (message.apiKey !== CONFIG.apiKey) {
+	// Check the signed challenge, which may only be answered once
+	const nonce = ws.authNonce;
+	ws.authNonce = null;
+	if (!nonce || !isValidSignature(message, nonce)) {
 		console.log("Authentication failed: Invalid API key");
 		send(
 			ws,
@@ -141,6 +158,20 @@ function handleAuth(ws: ExtendedWebSocket, message: AuthMessage): void {
 	);
 }
 
+// Check a challenge signature against the configured API key
+function isValidSignature(message: AuthMessage, nonce: string): boolean {
+	const { keyId, secret } = parseApiKey(CONFIG.apiKey);
+	if (!message.signature || message.keyId !== keyId) {
+		return false;
+	}
+
+	const expected = Buffer.from(
+		signAuthChallenge(hashKeySecret(secret), nonce, message.clientId),
+	);
+	const actual = Buffer.from(message.signature);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
 // Handle ping message
 function handlePing(ws: ExtendedWebSocket): void {
 	log("Ping received, sending pong");